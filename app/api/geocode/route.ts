@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { geocode, MAX_CANDIDATES } from '@/lib/geocode';
+import { handleRouteError } from '@/lib/http';
+import { parseGeocodeQuery } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/geocode?q=Tokyo, Japan&limit=5
+// Responds with { query, candidates: [{ latitude, longitude, displayName, ... }], cached }
+export async function GET(request: NextRequest) {
+  try {
+    const { q, limit } = parseGeocodeQuery(request.nextUrl.searchParams, MAX_CANDIDATES);
+    const result = await geocode(q, limit);
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleRouteError(error, 'Failed to geocode location');
+  }
+}
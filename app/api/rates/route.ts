@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readRates } from '@/lib/currency';
+import { getRates, putRates } from '@/lib/db';
+import { handleRouteError } from '@/lib/http';
+import { validateRates } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Responds with { base: 'USD', rates: [{ currency, per_usd, updated_at }] }
+export async function GET() {
+  try {
+    return NextResponse.json({ base: 'USD', rates: await getRates() });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch exchange rates');
+  }
+}
+
+// Replace the whole table. Body is JSON ([{ currency, per_usd }], { rates: [...] }
+// or { "EUR": 0.92 }) or, with Content-Type text/csv, "currency,per_usd" rows.
+export async function PUT(request: NextRequest) {
+  try {
+    const rates = validateRates(await readRates(request));
+    return NextResponse.json({ base: 'USD', rates: await putRates(rates, true) });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to replace exchange rates');
+  }
+}
+
+// Import rates into the table, overwriting currencies that already have one.
+// Accepts the same bodies as PUT.
+export async function POST(request: NextRequest) {
+  try {
+    const rates = validateRates(await readRates(request));
+    return NextResponse.json({ base: 'USD', rates: await putRates(rates, false) });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to import exchange rates');
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { newCalendarToken } from '@/lib/calendar';
+import { updateSettings } from '@/lib/db';
+import { handleRouteError } from '@/lib/http';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Make the calendar feed private behind a new random token, replacing any
+// old one. Responds with { calendar_token }, the only time it is shown.
+export async function POST() {
+  try {
+    const calendarToken = newCalendarToken();
+    await updateSettings({ calendar_token: calendarToken });
+
+    return NextResponse.json({ calendar_token: calendarToken }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to create calendar token');
+  }
+}
+
+// Drop the token, opening the feed to anyone who can reach the app
+export async function DELETE() {
+  try {
+    await updateSettings({ calendar_token: null });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to remove calendar token');
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSettings, publicSettings, updateSettings } from '@/lib/db';
+import { handleRouteError, readJson } from '@/lib/http';
+import { validateSettings } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Responds with { home, extra_origins, home_currency, calendar_private },
+// filling in defaults for anything unsaved. The calendar token itself is
+// never returned here.
+export async function GET() {
+  try {
+    return NextResponse.json(publicSettings(await getSettings()));
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch settings');
+  }
+}
+
+// Body: { home?, extra_origins?, home_currency? }, where each origin is
+// { name, latitude, longitude }. Keys left out keep their saved values.
+// The calendar token has its own endpoint, /api/settings/calendar-token.
+export async function PUT(request: NextRequest) {
+  try {
+    const settings = validateSettings(await readJson(request));
+    return NextResponse.json(publicSettings(await updateSettings(settings)));
+  } catch (error) {
+    return handleRouteError(error, 'Failed to update settings');
+  }
+}
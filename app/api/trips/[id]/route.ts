@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addTripTotals, getTrip, removeTrip, updateTrip } from '@/lib/db';
+import { handleRouteError, readJson } from '@/lib/http';
+import { parseId, validateTrip } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const [trip] = await addTripTotals([await getTrip(parseId(id, 'trip'))]);
+
+    return NextResponse.json(trip);
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch trip');
+  }
+}
+
+// Replaces the name, notes and the whole list of stops
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const tripId = parseId(id, 'trip');
+    const trip = await updateTrip(tripId, validateTrip(await readJson(request)));
+    const [withTotals] = await addTripTotals([trip]);
+
+    return NextResponse.json(withTotals);
+  } catch (error) {
+    return handleRouteError(error, 'Failed to update trip');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    await removeTrip(parseId(id, 'trip'));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to delete trip');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSettings, optimizeRoute } from '@/lib/db';
+import { handleRouteError } from '@/lib/http';
+import { parseRouteQuery } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Query: ids (comma-separated destination ids), closed (true | false, default
+// true: end back at the origin), origin_lat/origin_lon (default: home).
+// Responds with { closed, order, legs, distance_km, flight_minutes,
+// given_distance_km }; nothing is saved.
+export async function GET(request: NextRequest) {
+  try {
+    const { home } = await getSettings();
+    const { ids, closed, origin } = parseRouteQuery(request.nextUrl.searchParams, { origin: home });
+
+    return NextResponse.json(await optimizeRoute(ids, origin, closed));
+  } catch (error) {
+    return handleRouteError(error, 'Failed to plan route');
+  }
+}
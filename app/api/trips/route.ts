@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addTripTotals, createTrip, getTrips } from '@/lib/db';
+import { handleRouteError, readJson } from '@/lib/http';
+import { validateTrip } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Responds with { items }, oldest trip first. Each trip carries totals: the
+// legs from home through every stop and back, their distance and flight
+// time, and the stops' budgets added up in the home currency.
+export async function GET() {
+  try {
+    return NextResponse.json({ items: await addTripTotals(await getTrips()) });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch trips');
+  }
+}
+
+// Body: { name, notes?, stops: [{ destination_id, arrive_on?, depart_on? }] }
+export async function POST(request: NextRequest) {
+  try {
+    const trip = await createTrip(validateTrip(await readJson(request)));
+    const [withTotals] = await addTripTotals([trip]);
+
+    return NextResponse.json(withTotals, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to create trip');
+  }
+}
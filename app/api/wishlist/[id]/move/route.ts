@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { move } from '@/lib/db';
+import { handleRouteError, readJson } from '@/lib/http';
+import { parseMoveTarget } from '@/lib/ranks';
+import { parseId } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Body: { position: n } (1-based), { before: id } or { after: id }.
+// Responds with the whole list in its new order.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const destinationId = parseId(id);
+    const items = await move(destinationId, parseMoveTarget(await readJson(request)));
+
+    return NextResponse.json(items);
+  } catch (error) {
+    return handleRouteError(error, 'Failed to move travel destination');
+  }
+}
@@ -0,0 +1,35 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { calendarFeed } from '@/lib/calendar';
+import { getAll, getSettings } from '@/lib/db';
+import { NotFoundError } from '@/lib/errors';
+import { handleRouteError } from '@/lib/http';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function tokenMatches(given: string | null, expected: string): boolean {
+  const a = Buffer.from(given ?? '');
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// iCalendar feed of planned and booked trips with exact dates, one all-day
+// event each, for calendar apps to subscribe to. When settings have a
+// calendar_token, requests without ?token=<it> get a 404 as if there were no feed.
+export async function GET(request: NextRequest) {
+  try {
+    const [items, settings] = await Promise.all([getAll(), getSettings()]);
+    if (settings.calendar_token && !tokenMatches(request.nextUrl.searchParams.get('token'), settings.calendar_token)) {
+      throw new NotFoundError('Calendar not found');
+    }
+    return new NextResponse(calendarFeed(items), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="travel-wishlist.ics"',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to build calendar');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getCoverage } from '@/lib/db';
+import { handleRouteError } from '@/lib/http';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Responds with { countries, unresolved, visited_countries, world_countries }.
+// Each country is { code, name, count, visited, top_rank } over the whole
+// wishlist, ignoring list filters.
+export async function GET() {
+  try {
+    return NextResponse.json(await getCoverage());
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch country coverage');
+  }
+}
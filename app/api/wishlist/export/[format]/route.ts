@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAll, getSettings } from '@/lib/db';
+import { GEO_EXPORTS } from '@/lib/geoExport';
+import { handleRouteError } from '@/lib/http';
+import { parseGeoExport } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ format: string }>;
+}
+
+// Every destination as GeoJSON, KML or GPX, downloaded as a file. With
+// ?flights=true the great-circle lines from home are included too.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { format, flights } = parseGeoExport((await params).format, request.nextUrl.searchParams);
+    const [items, settings] = await Promise.all([getAll(), getSettings()]);
+    const now = new Date();
+    const { contentType, extension, serialize } = GEO_EXPORTS[format];
+
+    return new NextResponse(serialize(items, { home: settings.home, flights, now }), {
+      headers: {
+        'Content-Type': `${contentType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="travel-wishlist-${now.toISOString().slice(0, 10)}.${extension}"`,
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to export wishlist');
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { exportWishlist } from '@/lib/db';
+import { handleRouteError } from '@/lib/http';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Responds with { format: 'travel-wishlist', version, exported_at, destinations }
+// as a download; POST it to /api/wishlist/import to restore it
+export async function GET() {
+  try {
+    const document = await exportWishlist();
+    const day = document.exported_at.slice(0, 10);
+    return NextResponse.json(document, {
+      headers: { 'Content-Disposition': `attachment; filename="travel-wishlist-${day}.json"` },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Failed to export wishlist');
+  }
+}
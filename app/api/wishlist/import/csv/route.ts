@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importCsv } from '@/lib/csvImport';
+import { handleRouteError, readJson } from '@/lib/http';
+import { validateCsvImport } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Body is { csv, columns?, places? }, columns mapping fields to headers,
+// e.g. { "destination": "City" }, and places the `place` of rows from earlier
+// responses keyed by row number. With ?dry_run=true nothing is written.
+// Responds with { dry_run, headers, columns, created, duplicates,
+// geocode_failed, invalid, pending, rows: [{ row, destination, country,
+// result, message, place, ... }] }.
+export async function POST(request: NextRequest) {
+  try {
+    const { csv, columns, places, dryRun } = validateCsvImport(await readJson(request), request.nextUrl.searchParams);
+    return NextResponse.json(await importCsv(csv, columns, places, dryRun));
+  } catch (error) {
+    return handleRouteError(error, 'Failed to import CSV');
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importWishlist } from '@/lib/db';
+import { handleRouteError, readJson } from '@/lib/http';
+import { parseImportQuery, validateImport } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Body is an export document or a bare array of destinations. ?mode= is
+// replace, append or merge; with ?dry_run=true nothing is written. Responds
+// with { mode, dry_run, created, updated, unchanged, deleted, changes }.
+export async function POST(request: NextRequest) {
+  try {
+    const { mode, dryRun } = parseImportQuery(request.nextUrl.searchParams);
+    const items = validateImport(await readJson(request));
+    return NextResponse.json(await importWishlist(items, mode, dryRun));
+  } catch (error) {
+    return handleRouteError(error, 'Failed to import wishlist');
+  }
+}
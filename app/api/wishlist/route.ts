@@ -1,81 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAll, create, updateRanks } from '@/lib/db';
+import { convertedBudgetTotal } from '@/lib/currency';
+import { list, create, getConverter, getSettings, updateRanks } from '@/lib/db';
+import { handleRouteError, readJson } from '@/lib/http';
+import { parseRanks } from '@/lib/ranks';
+import { withTravelFacts } from '@/lib/travelFacts';
+import { parseListQuery, validateDestination } from '@/lib/validation';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+// Query: country, timeline (a year | upcoming | past_due | someday), budget,
+// status (wish | planned | booked | visited | active), q, sort (rank | created_at | updated_at | distance | flight_time |
+// time_difference | budget_total), order (asc | desc), origin_lat/origin_lon
+// (default: home from settings), currency (default: home currency), limit,
+// offset.
+// Responds with { items, total, currency, limit, offset }. Each item carries
+// facts (distance, flight time, time zone) measured from the origin, and
+// converted_total, its budget total in currency (null if unknown).
+export async function GET(request: NextRequest) {
   try {
-    const items = await getAll();
-    return NextResponse.json(items);
+    const { home, home_currency } = await getSettings();
+    const query = parseListQuery(request.nextUrl.searchParams, { origin: home, currency: home_currency });
+    const { items, total } = await list(query);
+    const convert = await getConverter();
+    return NextResponse.json({
+      items: withTravelFacts(items, query.origin).map(item => ({
+        ...item,
+        converted_total: convertedBudgetTotal(item, convert, query.currency),
+      })),
+      total,
+      currency: query.currency,
+      limit: query.limit ?? null,
+      offset: query.offset,
+    });
   } catch (error) {
-    console.error('Error fetching travel destinations:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch travel destinations' },
-      { status: 500 }
-    );
+    return handleRouteError(error, 'Failed to fetch travel destinations');
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    
-    if (!body.destination || !body.country) {
-      return NextResponse.json(
-        { error: 'Destination and country are required' },
-        { status: 400 }
-      );
-    }
-
-    const newItem = await create({
-      rank: body.rank || 1,
-      destination: body.destination,
-      country: body.country,
-      latitude: body.latitude || 0,
-      longitude: body.longitude || 0,
-      reason: body.reason || '',
-      budget: body.budget || '',
-      timeline: body.timeline || '',
-      image_url: body.image_url || '',
-    });
+    const item = validateDestination(await readJson(request));
+    const newItem = await create(item);
 
     return NextResponse.json(newItem, { status: 201 });
   } catch (error) {
-    console.error('Error creating travel destination:', error);
-    return NextResponse.json(
-      { error: 'Failed to create travel destination' },
-      { status: 500 }
-    );
+    return handleRouteError(error, 'Failed to create travel destination');
   }
 }
 
 export async function PATCH(request: NextRequest) {
   try {
-    const body = await request.json();
-    
-    if (!body.ranks || !Array.isArray(body.ranks)) {
-      return NextResponse.json(
-        { error: 'Ranks array is required' },
-        { status: 400 }
-      );
-    }
+    const body = (await readJson(request)) as { ranks?: unknown } | null;
+    const ranks = parseRanks(body?.ranks);
+    const items = await updateRanks(ranks);
 
-    const success = await updateRanks(body.ranks);
-    
-    if (success) {
-      return NextResponse.json({ success: true });
-    } else {
-      return NextResponse.json(
-        { error: 'Failed to update ranks' },
-        { status: 500 }
-      );
-    }
+    return NextResponse.json(items);
   } catch (error) {
-    console.error('Error updating ranks:', error);
-    return NextResponse.json(
-      { error: 'Failed to update ranks' },
-      { status: 500 }
-    );
+    return handleRouteError(error, 'Failed to update ranks');
   }
 }
@@ -0,0 +1,158 @@
+'use client';
+
+import { BUDGET_CATEGORIES, budgetTotal, deriveBudgetTier, formatMoney, type BudgetCategory } from '@/lib/budget';
+
+export const BUDGET_OPTIONS = [
+  { value: 'budget', label: '💰 Budget', color: 'bg-emerald-500' },
+  { value: 'moderate', label: '💵 Moderate', color: 'bg-sky-500' },
+  { value: 'luxury', label: '💎 Luxury', color: 'bg-purple-500' },
+  { value: 'ultra-luxury', label: '👑 Ultra Luxury', color: 'bg-amber-500' },
+];
+
+export const CURRENCY_OPTIONS = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'MXN', 'INR', 'THB'];
+
+const CATEGORY_LABELS: Record<BudgetCategory, string> = {
+  flights: '✈️ Flights',
+  lodging: '🏨 Lodging',
+  food: '🍜 Food',
+  activities: '🎟️ Activities',
+};
+
+// Form state: inputs stay strings so a field can be empty while typing
+export interface BudgetDraft {
+  budget: string;
+  cost_flights: string;
+  cost_lodging: string;
+  cost_food: string;
+  cost_activities: string;
+  trip_days: string;
+  currency: string;
+}
+
+export const EMPTY_BUDGET: BudgetDraft = {
+  budget: 'moderate',
+  cost_flights: '',
+  cost_lodging: '',
+  cost_food: '',
+  cost_activities: '',
+  trip_days: '',
+  currency: 'USD',
+};
+
+function toNumber(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+// The API fields for a draft; empty inputs clear the stored estimate
+export function budgetPayload(draft: BudgetDraft) {
+  return {
+    budget: draft.budget,
+    cost_flights: toNumber(draft.cost_flights),
+    cost_lodging: toNumber(draft.cost_lodging),
+    cost_food: toNumber(draft.cost_food),
+    cost_activities: toNumber(draft.cost_activities),
+    trip_days: toNumber(draft.trip_days),
+    currency: draft.currency,
+  };
+}
+
+export function budgetLabel(tier: string): string {
+  return BUDGET_OPTIONS.find(option => option.value === tier)?.label ?? BUDGET_OPTIONS[1].label;
+}
+
+interface BudgetEditorProps {
+  value: BudgetDraft;
+  onChange: (value: BudgetDraft) => void;
+}
+
+const inputClass =
+  'w-full rounded-xl border border-slate-600 bg-slate-700/50 px-3 py-2 text-white placeholder-slate-500 focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all';
+
+// Per-category cost estimates with a live total. The tier is picked by hand
+// until there are estimates and a trip length; then the server derives it.
+const BudgetEditor: React.FC<BudgetEditorProps> = ({ value, onChange }) => {
+  const payload = budgetPayload(value);
+  const total = budgetTotal(payload);
+  const derived = total !== null && payload.trip_days ? deriveBudgetTier(total, payload.trip_days) : null;
+  const tier = derived ?? value.budget;
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-700/20 p-4 space-y-4">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {BUDGET_CATEGORIES.map((category) => (
+          <label key={category} className="block">
+            <span className="block text-xs text-slate-400 mb-1">{CATEGORY_LABELS[category]}</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={value[`cost_${category}`]}
+              onChange={(e) => onChange({ ...value, [`cost_${category}`]: e.target.value })}
+              placeholder="0"
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">📆 Days</span>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={value.trip_days}
+            onChange={(e) => onChange({ ...value, trip_days: e.target.value })}
+            placeholder="e.g., 7"
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">💱 Currency</span>
+          <select
+            value={value.currency}
+            onChange={(e) => onChange({ ...value, currency: e.target.value })}
+            className={inputClass}
+          >
+            {/* Keep a currency saved through the API selectable even if it isn't listed */}
+            {[...new Set([...CURRENCY_OPTIONS, value.currency])].map((code) => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block col-span-2 md:col-span-1">
+          <span className="block text-xs text-slate-400 mb-1">🏷️ Tier</span>
+          <select
+            value={tier}
+            onChange={(e) => onChange({ ...value, budget: e.target.value })}
+            disabled={derived !== null}
+            className={`${inputClass} disabled:opacity-70`}
+            title={derived !== null ? 'Derived from your cost estimates' : undefined}
+          >
+            {BUDGET_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="text-sm text-slate-300">
+        {total !== null ? (
+          <>
+            Estimated total: <span className="font-semibold text-white">{formatMoney(total, value.currency)}</span>
+            {payload.trip_days ? (
+              <span className="text-slate-400"> · {formatMoney(total / payload.trip_days, value.currency)} per day</span>
+            ) : (
+              <span className="text-slate-500"> · add the days for an automatic tier</span>
+            )}
+          </>
+        ) : (
+          <span className="text-slate-500">Add estimates and days to get a total and an automatic tier.</span>
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default BudgetEditor;
@@ -0,0 +1,291 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { errorMessage } from './errors';
+
+type CsvField = 'destination' | 'country' | 'reason' | 'timeline' | 'budget' | 'image_url' | 'latitude' | 'longitude';
+
+interface CsvPlace {
+  latitude: number;
+  longitude: number;
+  place_name: string | null;
+  osm_type: string | null;
+  osm_id: number | null;
+}
+
+interface CsvImportRow {
+  row: number;
+  destination: string;
+  country: string;
+  result: 'created' | 'duplicate' | 'geocode_failed' | 'invalid' | 'pending';
+  message: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  place: CsvPlace | null;
+}
+
+interface CsvImportReport {
+  dry_run: boolean;
+  headers: string[];
+  columns: Record<CsvField, string | null>;
+  created: number;
+  duplicates: number;
+  geocode_failed: number;
+  invalid: number;
+  pending: number;
+  rows: CsvImportRow[];
+}
+
+type Columns = Partial<Record<CsvField, string | null>>;
+type Places = Record<number, CsvPlace>;
+
+// Places found so far, to send back so no row is looked up twice
+function withPlaces(places: Places, report: CsvImportReport): Places {
+  const next = { ...places };
+  for (const row of report.rows) {
+    if (row.place) next[row.row] = row.place;
+  }
+  return next;
+}
+
+const FIELD_LABELS: { field: CsvField; label: string }[] = [
+  { field: 'destination', label: 'Destination *' },
+  { field: 'country', label: 'Country *' },
+  { field: 'reason', label: 'Reason' },
+  { field: 'timeline', label: 'Timeline' },
+  { field: 'budget', label: 'Budget tier' },
+  { field: 'image_url', label: 'Image URL' },
+  { field: 'latitude', label: 'Latitude' },
+  { field: 'longitude', label: 'Longitude' },
+];
+
+const RESULT_LABELS: Record<CsvImportRow['result'], { label: string; className: string }> = {
+  created: { label: '➕ New', className: 'text-emerald-300' },
+  duplicate: { label: '⏭️ Duplicate', className: 'text-slate-400' },
+  geocode_failed: { label: '📍 Not found', className: 'text-amber-300' },
+  invalid: { label: '⚠️ Invalid', className: 'text-red-300' },
+  pending: { label: '⏳ Looking up', className: 'text-slate-500' },
+};
+
+const selectClass =
+  'w-full rounded-lg border border-slate-600 bg-slate-700/50 px-3 py-1.5 text-sm text-white focus:border-cyan-500 focus:outline-none';
+
+interface CsvImportProps {
+  // Called after rows are added, e.g. to reload the list
+  onImported?: () => void;
+  onClose: () => void;
+}
+
+// Adds destinations from a spreadsheet's CSV export. Picking a file or
+// changing the column mapping runs a dry run that reports what each row
+// would do; nothing is saved until Import is pressed. The server looks up a
+// few places per request, so the dry run repeats, sending back the places
+// found so far, until no row is pending. Import reuses those places.
+const CsvImport: React.FC<CsvImportProps> = ({ onImported, onClose }) => {
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [columns, setColumns] = useState<Columns>({});
+  const [places, setPlaces] = useState<Places>({});
+  const [report, setReport] = useState<CsvImportReport | null>(null);
+  const [status, setStatus] = useState<'idle' | 'checking' | 'importing'>('idle');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const send = async (
+    text: string,
+    mapping: Columns,
+    known: Places,
+    dryRun: boolean
+  ): Promise<CsvImportReport | null> => {
+    setStatus(dryRun ? 'checking' : 'importing');
+    setError('');
+    setMessage('');
+    try {
+      const response = await fetch(`/api/wishlist/import/csv?dry_run=${dryRun}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: text, columns: mapping, places: known }),
+      });
+      if (!response.ok) {
+        setError(await errorMessage(response, 'Failed to read the CSV'));
+        return null;
+      }
+      return await response.json();
+    } catch {
+      setError('Could not reach the server');
+      return null;
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const preview = async (text: string, mapping: Columns) => {
+    setReport(null);
+    setPlaces({});
+    let known: Places = {};
+    let result = await send(text, mapping, known, true);
+    // Stop if a round finds nothing new, e.g. the geocoder is down
+    while (result) {
+      setReport(result);
+      // Keep the guessed columns so the selects show them
+      setColumns(result.columns);
+      const next = withPlaces(known, result);
+      if (result.pending === 0 || Object.keys(next).length === Object.keys(known).length) break;
+      known = next;
+      result = await send(text, result.columns, known, true);
+    }
+    setPlaces(result ? withPlaces(known, result) : known);
+  };
+
+  const pickFile = async (picked: File) => {
+    const next = { name: picked.name, text: await picked.text() };
+    setFile(next);
+    setColumns({});
+    preview(next.text, {});
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const mapColumn = (field: CsvField, header: string) => {
+    const next = { ...columns, [field]: header || null };
+    setColumns(next);
+    if (file) preview(file.text, next);
+  };
+
+  const apply = async () => {
+    if (!file) return;
+    const result = await send(file.text, columns, places, false);
+    if (!result) return;
+    setFile(null);
+    setReport(null);
+    setMessage(`Added ${result.created} destinations from ${file.name}`);
+    onImported?.();
+  };
+
+  const headers = report?.headers ?? [];
+
+  return (
+    <div className="mb-8 rounded-3xl bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 p-8 shadow-2xl">
+      <div className="mb-6 flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white">📄 Import CSV</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-lg border border-slate-600 px-3 py-1.5 text-sm text-slate-300 hover:bg-slate-700"
+        >
+          Close
+        </button>
+      </div>
+
+      <p className="mb-4 text-sm text-slate-400">
+        The first row must name the columns. Rows without latitude and longitude are looked up from their
+        destination and country. Rows already on your list are skipped.
+      </p>
+
+      <label className="inline-block cursor-pointer rounded-lg bg-cyan-600 px-4 py-2 text-sm text-white hover:bg-cyan-500">
+        {file ? `📄 ${file.name}` : 'Choose a CSV file'}
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => e.target.files?.[0] && pickFile(e.target.files[0])}
+        />
+      </label>
+
+      {file && headers.length > 0 && (
+        <div className="mt-6 grid grid-cols-2 gap-3 md:grid-cols-4">
+          {FIELD_LABELS.map(({ field, label }) => (
+            <label key={field} className="block">
+              <span className="block text-xs text-slate-400 mb-1">{label}</span>
+              <select
+                value={columns[field] ?? ''}
+                onChange={(e) => mapColumn(field, e.target.value)}
+                disabled={status !== 'idle'}
+                className={selectClass}
+              >
+                <option value="">Not in the file</option>
+                {headers.map((header) => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {status === 'checking' && (
+        <p className="mt-4 text-sm text-slate-500">
+          Checking rows… places without coordinates take about a second each
+          {report && report.pending > 0 && ` (${report.pending} still to look up)`}.
+        </p>
+      )}
+
+      {file && report && (
+        <div className="mt-6">
+          <p className="mb-3 text-sm text-slate-300">
+            {report.created} to add · {report.duplicates} duplicates · {report.geocode_failed} not found · {report.invalid} invalid
+            {report.pending > 0 && ` · ${report.pending} not looked up`}
+          </p>
+          <div className="max-h-80 overflow-y-auto rounded-xl border border-slate-700">
+            <table className="w-full text-left text-xs">
+              <thead className="sticky top-0 bg-slate-800 text-slate-400">
+                <tr>
+                  <th className="px-3 py-2">Row</th>
+                  <th className="px-3 py-2">Destination</th>
+                  <th className="px-3 py-2">Result</th>
+                  <th className="px-3 py-2">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row) => (
+                  <tr key={row.row} className="border-t border-slate-700/60 text-slate-300">
+                    <td className="px-3 py-1.5 text-slate-500">{row.row}</td>
+                    <td className="px-3 py-1.5">
+                      {row.destination || '—'}{row.country && `, ${row.country}`}
+                    </td>
+                    <td className={`px-3 py-1.5 whitespace-nowrap ${RESULT_LABELS[row.result].className}`}>
+                      {RESULT_LABELS[row.result].label}
+                    </td>
+                    <td className="px-3 py-1.5 text-slate-400">
+                      {row.message}
+                      {row.result === 'created' && !row.message && row.latitude !== null && row.longitude !== null && (
+                        <span className="font-mono">{row.latitude.toFixed(4)}°, {row.longitude.toFixed(4)}°</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-4 flex gap-2">
+            <button
+              type="button"
+              onClick={apply}
+              disabled={report.created === 0 || status !== 'idle'}
+              className="rounded-lg bg-gradient-to-r from-cyan-500 to-purple-500 px-4 py-2 text-sm font-semibold text-white hover:opacity-90 disabled:opacity-50"
+            >
+              {status === 'importing' ? 'Importing…' : `Import ${report.created} destinations`}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setFile(null);
+                setReport(null);
+                setPlaces({});
+                setError('');
+              }}
+              className="rounded-lg border border-slate-600 px-4 py-2 text-sm text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="mt-4 text-sm text-emerald-300">{message}</p>}
+      {error && <p className="mt-4 text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default CsvImport;
@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+export interface PickedLocation {
+  latitude: number;
+  longitude: number;
+}
+
+interface LocationPickerProps {
+  value: PickedLocation | null;
+  // Called when the pin is clicked into place or dragged
+  onChange: (location: PickedLocation) => void;
+}
+
+// Mini world map for fine-tuning a destination's coordinates. Click anywhere
+// to drop the pin there, or drag the pin.
+const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange }) => {
+  const mapDivRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<any>(null);
+  const pinRef = useRef<any>(null);
+  const onChangeRef = useRef(onChange);
+  const [mapReady, setMapReady] = useState(false);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // Initialize map only once
+  useEffect(() => {
+    let disposed = false;
+
+    const init = async () => {
+      if (!mapDivRef.current) return;
+
+      const am4core = await import('@amcharts/amcharts4/core');
+      const am4maps = await import('@amcharts/amcharts4/maps');
+      const worldGeodata = (await import('@amcharts/amcharts4-geodata/worldLow')).default;
+
+      if (disposed) return;
+
+      const chart = am4core.create(mapDivRef.current, am4maps.MapChart);
+      chart.geodata = worldGeodata;
+      chart.projection = new am4maps.projections.Miller();
+      chart.chartContainer.wheelable = false;
+      chart.seriesContainer.draggable = false;
+      chart.seriesContainer.resizable = false;
+
+      const polygonSeries = chart.series.push(new am4maps.MapPolygonSeries());
+      polygonSeries.useGeodata = true;
+      polygonSeries.exclude = ['AQ'];
+      polygonSeries.mapPolygons.template.fill = am4core.color('#1e3a5f');
+      polygonSeries.mapPolygons.template.stroke = am4core.color('#2d5a87');
+      polygonSeries.mapPolygons.template.strokeWidth = 0.5;
+
+      const pinSeries = chart.series.push(new am4maps.MapImageSeries());
+      const pin = pinSeries.mapImages.create();
+      pin.nonScaling = true;
+      pin.draggable = true;
+      pin.visible = false;
+      pin.cursorOverStyle = am4core.MouseCursorStyle.grab;
+      pin.cursorDownStyle = am4core.MouseCursorStyle.grabbing;
+
+      const marker = pin.createChild(am4core.Circle);
+      marker.radius = 8;
+      marker.fill = am4core.color('#ffd93d');
+      marker.stroke = am4core.color('#fff');
+      marker.strokeWidth = 2;
+
+      const report = (latitude: number, longitude: number) => {
+        onChangeRef.current({
+          latitude: Math.round(latitude * 1e5) / 1e5,
+          longitude: Math.round(longitude * 1e5) / 1e5,
+        });
+      };
+
+      // Dropping the pin: convert its new screen position back to lat/lon
+      pin.events.on('dragstop', () => {
+        const svgPoint = am4core.utils.spritePointToSvg({ x: 0, y: 0 }, pin);
+        const geoPoint = chart.svgPointToGeo(svgPoint);
+        pin.latitude = geoPoint.latitude;
+        pin.longitude = geoPoint.longitude;
+        report(geoPoint.latitude, geoPoint.longitude);
+      });
+
+      // Clicking the map moves the pin there
+      chart.seriesContainer.events.on('hit', (ev: any) => {
+        const geoPoint = chart.svgPointToGeo(ev.svgPoint);
+        pin.latitude = geoPoint.latitude;
+        pin.longitude = geoPoint.longitude;
+        pin.visible = true;
+        report(geoPoint.latitude, geoPoint.longitude);
+      });
+
+      chart.zoomControl = new am4maps.ZoomControl();
+      chart.zoomControl.align = 'right';
+      chart.zoomControl.valign = 'middle';
+
+      chartRef.current = chart;
+      pinRef.current = pin;
+      setMapReady(true);
+    };
+
+    init();
+
+    return () => {
+      disposed = true;
+      setMapReady(false);
+      if (chartRef.current) {
+        chartRef.current.dispose();
+        chartRef.current = null;
+      }
+    };
+  }, []);
+
+  // Follow coordinates chosen outside the map, e.g. picking a candidate
+  useEffect(() => {
+    const pin = pinRef.current;
+    if (!mapReady || !pin) return;
+
+    if (!value) {
+      pin.visible = false;
+      return;
+    }
+    // Dragging reports rounded coordinates back, so ignore tiny differences
+    const moved =
+      Math.abs(pin.latitude - value.latitude) > 1e-4 ||
+      Math.abs(pin.longitude - value.longitude) > 1e-4;
+    if (moved) {
+      pin.latitude = value.latitude;
+      pin.longitude = value.longitude;
+      chartRef.current?.zoomToGeoPoint(value, 3, true);
+    }
+    pin.visible = true;
+  }, [mapReady, value]);
+
+  return (
+    <div
+      ref={mapDivRef}
+      className="w-full h-[220px] rounded-xl overflow-hidden border border-slate-600"
+      style={{ backgroundColor: '#0c1929' }}
+    />
+  );
+};
+
+export default LocationPicker;
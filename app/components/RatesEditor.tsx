@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { errorMessage } from './errors';
+
+interface RateRow {
+  currency: string;
+  per_usd: string;
+}
+
+interface RatesResponse {
+  rates: { currency: string; per_usd: number }[];
+}
+
+const inputClass =
+  'w-full rounded-lg border border-slate-600 bg-slate-700/50 px-3 py-1.5 text-sm text-white placeholder-slate-500 focus:border-cyan-500 focus:outline-none';
+
+interface RatesEditorProps {
+  // Called after rates are saved or imported, e.g. to refresh converted totals
+  onSaved?: () => void;
+}
+
+// Edits the offline exchange-rate table behind /api/rates. Rates are units
+// of each currency per US dollar; a CSV or JSON file can be imported too.
+const RatesEditor: React.FC<RatesEditorProps> = ({ onSaved }) => {
+  const [rows, setRows] = useState<RateRow[]>([]);
+  const [status, setStatus] = useState<'loading' | 'idle' | 'saving'>('loading');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const applyResponse = (data: RatesResponse) => {
+    setRows(data.rates.map(rate => ({ currency: rate.currency, per_usd: String(rate.per_usd) })));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/rates');
+        if (response.ok) {
+          applyResponse(await response.json());
+        } else {
+          setError(await errorMessage(response, 'Failed to load exchange rates'));
+        }
+      } catch {
+        setError('Could not reach the server');
+      } finally {
+        setStatus('idle');
+      }
+    };
+    load();
+  }, []);
+
+  const send = async (method: 'PUT' | 'POST', body: string, contentType: string, done: string) => {
+    setStatus('saving');
+    setError('');
+    setMessage('');
+    try {
+      const response = await fetch('/api/rates', { method, headers: { 'Content-Type': contentType }, body });
+      if (response.ok) {
+        applyResponse(await response.json());
+        setMessage(done);
+        onSaved?.();
+      } else {
+        setError(await errorMessage(response, 'Failed to save exchange rates'));
+      }
+    } catch {
+      setError('Could not reach the server');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const save = () => {
+    const rates = rows
+      .filter(row => row.currency.trim())
+      .map(row => ({ currency: row.currency.trim(), per_usd: Number(row.per_usd) }));
+    send('PUT', JSON.stringify(rates), 'application/json', 'Rates saved');
+  };
+
+  const importFile = async (file: File) => {
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
+    send('POST', await file.text(), isCsv ? 'text/csv' : 'application/json', `Imported ${file.name}`);
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const updateRow = (index: number, change: Partial<RateRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-300 mb-1">Exchange rates</h3>
+      <p className="mb-3 text-xs text-slate-500">Units of each currency per 1 USD. Budgets in a currency without a rate can&apos;t be converted.</p>
+
+      {status === 'loading' ? (
+        <p className="text-sm text-slate-500">Loading…</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                value={row.currency}
+                onChange={(e) => updateRow(index, { currency: e.target.value.toUpperCase() })}
+                placeholder="EUR"
+                maxLength={3}
+                className={`${inputClass} w-24`}
+              />
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={row.per_usd}
+                onChange={(e) => updateRow(index, { per_usd: e.target.value })}
+                placeholder="0.92"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                className="px-2 text-slate-500 hover:text-red-400"
+                title="Remove"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2 pt-1">
+            <button
+              type="button"
+              onClick={() => setRows([...rows, { currency: '', per_usd: '' }])}
+              className="rounded-lg bg-slate-700 px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-600"
+            >
+              + Add rate
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={status === 'saving'}
+              className="rounded-lg bg-cyan-600 px-3 py-1.5 text-sm text-white hover:bg-cyan-500 disabled:opacity-50"
+            >
+              Save rates
+            </button>
+            <label className="cursor-pointer rounded-lg border border-slate-600 px-3 py-1.5 text-sm text-slate-300 hover:bg-slate-700">
+              Import CSV/JSON
+              <input
+                ref={fileRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && importFile(e.target.files[0])}
+              />
+            </label>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="mt-2 text-xs text-emerald-300">{message}</p>}
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default RatesEditor;
@@ -0,0 +1,321 @@
+'use client';
+
+import { useState } from 'react';
+import { CURRENCY_OPTIONS } from './BudgetEditor';
+import RatesEditor from './RatesEditor';
+import WishlistBackup from './WishlistBackup';
+import type { Origin } from './WorldMap';
+
+export interface Settings {
+  home: Origin;
+  extra_origins: Origin[];
+  home_currency: string;
+  // Whether the calendar feed needs a token; the token itself is never sent
+  calendar_private: boolean;
+}
+
+interface Candidate {
+  latitude: number;
+  longitude: number;
+  displayName: string;
+}
+
+interface SettingsPanelProps {
+  settings: Settings;
+  onSaved: (settings: Settings) => void;
+  onClose: () => void;
+  onRatesSaved?: () => void;
+  onImported?: () => void;
+  // Called when the calendar feed is made private or opened again
+  onCalendarChanged?: (calendarPrivate: boolean) => void;
+}
+
+const inputClass =
+  'w-full rounded-xl border border-slate-600 bg-slate-700/50 px-4 py-2 text-white placeholder-slate-400 focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all';
+
+// Free-text place lookup: type a city, press Find, pick one of the matches
+function OriginSearch({ placeholder, onPick }: { placeholder: string; onPick: (origin: Origin) => void }) {
+  const [query, setQuery] = useState('');
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+
+  const search = async () => {
+    if (!query.trim()) return;
+    setStatus('loading');
+    try {
+      const response = await fetch(`/api/geocode?q=${encodeURIComponent(query.trim())}&limit=5`);
+      const data: { candidates?: Candidate[] } = response.ok ? await response.json() : {};
+      setCandidates(data.candidates ?? []);
+      setStatus(data.candidates?.length ? 'idle' : 'error');
+    } catch {
+      setCandidates([]);
+      setStatus('error');
+    }
+  };
+
+  const pick = (candidate: Candidate) => {
+    onPick({ name: query.trim(), latitude: candidate.latitude, longitude: candidate.longitude });
+    setQuery('');
+    setCandidates([]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              search();
+            }
+          }}
+          placeholder={placeholder}
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={search}
+          disabled={status === 'loading' || !query.trim()}
+          className="rounded-xl bg-slate-700 px-4 text-sm text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+        >
+          {status === 'loading' ? '…' : 'Find'}
+        </button>
+      </div>
+      {status === 'error' && <p className="text-xs text-red-300">No matches. Try adding the country.</p>}
+      {candidates.map((candidate, index) => (
+        <button
+          key={index}
+          type="button"
+          onClick={() => pick(candidate)}
+          className="w-full text-left rounded-lg px-3 py-2 text-xs bg-slate-700/40 border border-slate-700 text-slate-300 hover:bg-slate-700"
+        >
+          <span className="block truncate">{candidate.displayName}</span>
+          <span className="text-slate-500 font-mono">
+            {candidate.latitude.toFixed(4)}°, {candidate.longitude.toFixed(4)}°
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Edits the home city and extra origins, saving them through PUT /api/settings.
+// The calendar feed's secret link changes straight away, through
+// /api/settings/calendar-token, which is the only place the token is shown.
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  settings,
+  onSaved,
+  onClose,
+  onRatesSaved,
+  onImported,
+  onCalendarChanged,
+}) => {
+  const [draft, setDraft] = useState<Settings>(settings);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [calendarPrivate, setCalendarPrivate] = useState(settings.calendar_private);
+  // Shown once, right after it is made
+  const [calendarToken, setCalendarToken] = useState<string | null>(null);
+  const [calendarBusy, setCalendarBusy] = useState(false);
+
+  const origin = typeof window === 'undefined' ? '' : window.location.origin;
+  const calendarUrl = `${origin}/api/wishlist/calendar.ics${calendarToken ? `?token=${calendarToken}` : ''}`;
+  // A private feed's link can't be shown again once the token is forgotten
+  const showCalendarUrl = !calendarPrivate || calendarToken !== null;
+
+  const changeCalendarToken = async (method: 'POST' | 'DELETE') => {
+    setCalendarBusy(true);
+    setError('');
+    try {
+      const response = await fetch('/api/settings/calendar-token', { method });
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}));
+        setError(body.error ?? 'Failed to change the calendar link');
+        return;
+      }
+      const token = method === 'POST' ? ((await response.json()) as { calendar_token: string }).calendar_token : null;
+      setCalendarToken(token);
+      setCalendarPrivate(token !== null);
+      onCalendarChanged?.(token !== null);
+    } catch {
+      setError('Could not reach the server');
+    } finally {
+      setCalendarBusy(false);
+    }
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const { home, extra_origins, home_currency } = draft;
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ home, extra_origins, home_currency }),
+      });
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}));
+        setError(body.error ?? 'Failed to save settings');
+        return;
+      }
+      onSaved(await response.json());
+    } catch {
+      setError('Could not reach the server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 rounded-3xl bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 p-8 shadow-2xl">
+      <h2 className="text-2xl font-bold text-white mb-6">⚙️ Settings</h2>
+
+      <div className="grid gap-8 md:grid-cols-2">
+        <div>
+          <h3 className="text-sm font-medium text-slate-300 mb-2">Home</h3>
+          <p className="mb-3 text-sm text-cyan-300">
+            🏠 {draft.home.name}
+            <span className="ml-2 text-xs text-slate-500 font-mono">
+              {draft.home.latitude.toFixed(4)}°, {draft.home.longitude.toFixed(4)}°
+            </span>
+          </p>
+          <OriginSearch
+            placeholder="e.g., Berlin, Germany"
+            onPick={(home) => setDraft({ ...draft, home })}
+          />
+
+          <h3 className="text-sm font-medium text-slate-300 mt-6 mb-2">Home currency</h3>
+          <select
+            value={draft.home_currency}
+            onChange={(e) => setDraft({ ...draft, home_currency: e.target.value })}
+            className={inputClass}
+          >
+            {[...new Set([...CURRENCY_OPTIONS, draft.home_currency])].map((code) => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-500">Budget totals are converted into this currency.</p>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-slate-300 mb-2">Other origins</h3>
+          {draft.extra_origins.length === 0 && (
+            <p className="mb-3 text-sm text-slate-500">Add airports or cities you sometimes fly out of.</p>
+          )}
+          <ul className="mb-3 space-y-1">
+            {draft.extra_origins.map((origin, index) => (
+              <li key={`${origin.name}-${index}`} className="flex items-center justify-between text-sm text-slate-300">
+                <span>✈️ {origin.name}</span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft({ ...draft, extra_origins: draft.extra_origins.filter((_, i) => i !== index) })
+                  }
+                  className="text-slate-500 hover:text-red-400"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+          <OriginSearch
+            placeholder="e.g., New York, USA"
+            onPick={(origin) => setDraft({ ...draft, extra_origins: [...draft.extra_origins, origin] })}
+          />
+        </div>
+      </div>
+
+      <div className="mt-8 border-t border-slate-700 pt-6">
+        <h3 className="text-sm font-medium text-slate-300 mb-1">Calendar feed</h3>
+        <p className="mb-3 text-xs text-slate-500">
+          Subscribe to this link in your calendar app to see planned and booked trips with exact dates.
+          {calendarPrivate ? ' Only people with the link can read it.' : ' Anyone who can reach this app can read it.'}
+        </p>
+        {showCalendarUrl ? (
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              readOnly
+              value={calendarUrl}
+              onFocus={(e) => e.target.select()}
+              className={`${inputClass} flex-1 font-mono text-xs`}
+            />
+            <button
+              type="button"
+              onClick={() => navigator.clipboard?.writeText(calendarUrl)}
+              className="rounded-xl bg-slate-700 px-4 text-sm text-slate-200 hover:bg-slate-600"
+            >
+              Copy
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-400">
+            🔒 The link is secret and isn&apos;t shown again. Make a new one if you&apos;ve lost it.
+          </p>
+        )}
+        {calendarToken && (
+          <p className="mt-1 text-xs text-amber-300">
+            Copy this link now. It won&apos;t be shown again, and the old secret link no longer works.
+          </p>
+        )}
+        <div className="mt-2 flex gap-3 text-xs">
+          <button
+            type="button"
+            onClick={() => changeCalendarToken('POST')}
+            disabled={calendarBusy}
+            className="text-cyan-400 hover:text-cyan-300 disabled:opacity-50"
+          >
+            {calendarPrivate ? '🔄 New secret link' : '🔒 Use a secret link'}
+          </button>
+          {calendarPrivate && (
+            <button
+              type="button"
+              onClick={() => changeCalendarToken('DELETE')}
+              disabled={calendarBusy}
+              className="text-slate-400 hover:text-slate-300 disabled:opacity-50"
+            >
+              Remove the secret
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-8 border-t border-slate-700 pt-6">
+        <RatesEditor onSaved={onRatesSaved} />
+      </div>
+
+      <div className="mt-8 border-t border-slate-700 pt-6">
+        <WishlistBackup onImported={onImported} />
+      </div>
+
+      {error && (
+        <div className="mt-6 rounded-xl bg-red-500/20 border border-red-500/50 p-4 text-red-300">{error}</div>
+      )}
+
+      <div className="mt-6 flex gap-4">
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving}
+          className="flex-1 rounded-xl bg-gradient-to-r from-cyan-500 to-purple-500 px-6 py-3 font-semibold text-white transition-all hover:opacity-90 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Settings'}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-xl border border-slate-600 px-6 py-3 font-medium text-slate-300 transition-colors hover:bg-slate-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
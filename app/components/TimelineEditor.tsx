@@ -0,0 +1,155 @@
+'use client';
+
+import { SEASONS, timelineSpec, type Season, type TimelineFields, type TimelineKind, type TimelineSpec } from '@/lib/timeline';
+
+const KIND_OPTIONS: { value: TimelineKind; label: string }[] = [
+  { value: 'dates', label: '📅 Exact dates' },
+  { value: 'month', label: '🗓️ Month(s)' },
+  { value: 'season', label: '🌤️ Season' },
+  { value: 'year', label: '📆 Year' },
+  { value: 'someday', label: '✨ Someday' },
+];
+
+const SEASON_LABELS: Record<Season, string> = {
+  spring: '🌸 Spring (Mar–May)',
+  summer: '☀️ Summer (Jun–Aug)',
+  autumn: '🍂 Autumn (Sep–Nov)',
+  winter: '❄️ Winter (Dec–Feb)',
+};
+
+// Form state: one set of inputs for every kind, so switching kinds keeps
+// what was typed
+export interface TimelineDraft {
+  kind: TimelineKind;
+  start: string;
+  end: string;
+  season: Season;
+  year: string;
+}
+
+export const EMPTY_TIMELINE: TimelineDraft = {
+  kind: 'someday',
+  start: '',
+  end: '',
+  season: 'summer',
+  year: String(new Date().getFullYear() + 1),
+};
+
+// The draft for stored fields, e.g. when opening the edit form
+export function draftFromTimeline(fields: TimelineFields): TimelineDraft {
+  const spec = timelineSpec(fields);
+  switch (spec.kind) {
+    case 'dates':
+    case 'month':
+      return { ...EMPTY_TIMELINE, kind: spec.kind, start: spec.start, end: spec.end ?? '' };
+    case 'season':
+      return { ...EMPTY_TIMELINE, kind: 'season', season: spec.season, year: String(spec.year) };
+    case 'year':
+      return { ...EMPTY_TIMELINE, kind: 'year', year: String(spec.year) };
+    default:
+      return EMPTY_TIMELINE;
+  }
+}
+
+// The `timeline` spec sent to the API; the server validates and resolves it
+export function timelinePayload(draft: TimelineDraft): TimelineSpec {
+  switch (draft.kind) {
+    case 'dates':
+    case 'month':
+      return { kind: draft.kind, start: draft.start, ...(draft.end ? { end: draft.end } : {}) };
+    case 'season':
+      return { kind: 'season', season: draft.season, year: Number(draft.year) };
+    case 'year':
+      return { kind: 'year', year: Number(draft.year) };
+    default:
+      return { kind: 'someday' };
+  }
+}
+
+interface TimelineEditorProps {
+  value: TimelineDraft;
+  onChange: (value: TimelineDraft) => void;
+}
+
+const inputClass =
+  'w-full rounded-xl border border-slate-600 bg-slate-700/50 px-3 py-2 text-white placeholder-slate-500 focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all';
+
+// Pick how precise the plan is, then the dates for that precision
+const TimelineEditor: React.FC<TimelineEditorProps> = ({ value, onChange }) => {
+  const yearInput = (
+    <label className="block">
+      <span className="block text-xs text-slate-400 mb-1">Year</span>
+      <input
+        type="number"
+        min="1900"
+        max="2200"
+        step="1"
+        value={value.year}
+        onChange={(e) => onChange({ ...value, year: e.target.value })}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-700/20 p-4 space-y-3">
+      <select
+        value={value.kind}
+        onChange={(e) => onChange({ ...value, kind: e.target.value as TimelineKind })}
+        className={inputClass}
+      >
+        {KIND_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      {(value.kind === 'dates' || value.kind === 'month') && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">From</span>
+            <input
+              type={value.kind === 'dates' ? 'date' : 'month'}
+              value={value.kind === 'dates' ? value.start : value.start.slice(0, 7)}
+              onChange={(e) => onChange({ ...value, start: e.target.value })}
+              placeholder={value.kind === 'dates' ? 'YYYY-MM-DD' : 'YYYY-MM'}
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">To (optional)</span>
+            <input
+              type={value.kind === 'dates' ? 'date' : 'month'}
+              value={value.kind === 'dates' ? value.end : value.end.slice(0, 7)}
+              min={value.start || undefined}
+              onChange={(e) => onChange({ ...value, end: e.target.value })}
+              placeholder={value.kind === 'dates' ? 'YYYY-MM-DD' : 'YYYY-MM'}
+              className={inputClass}
+            />
+          </label>
+        </div>
+      )}
+
+      {value.kind === 'season' && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">Season</span>
+            <select
+              value={value.season}
+              onChange={(e) => onChange({ ...value, season: e.target.value as Season })}
+              className={inputClass}
+            >
+              {SEASONS.map((season) => (
+                <option key={season} value={season}>{SEASON_LABELS[season]}</option>
+              ))}
+            </select>
+          </label>
+          {yearInput}
+        </div>
+      )}
+
+      {value.kind === 'year' && yearInput}
+    </div>
+  );
+};
+
+export default TimelineEditor;
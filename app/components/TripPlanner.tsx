@@ -0,0 +1,506 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { formatMoney } from '@/lib/budget';
+import { formatDistance, formatFlightTime } from '@/lib/format';
+import { errorMessage } from './errors';
+import type { Origin } from './WorldMap';
+
+interface TripStop {
+  destination_id: number;
+  arrive_on: string | null;
+  depart_on: string | null;
+}
+
+interface TripLeg {
+  from: Origin;
+  to: Origin;
+  distance_km: number;
+  flight_minutes: number;
+}
+
+export interface Trip {
+  id: number;
+  name: string;
+  notes: string;
+  stops: TripStop[];
+  totals: {
+    legs: TripLeg[];
+    distance_km: number;
+    flight_minutes: number;
+    budget_total: number | null;
+    currency: string;
+    unpriced_stops: number;
+    days: number | null;
+  };
+}
+
+// A suggested visiting order from GET /api/trips/optimize
+interface PlannedRoute {
+  closed: boolean;
+  order: number[];
+  legs: TripLeg[];
+  distance_km: number;
+  flight_minutes: number;
+  given_distance_km: number;
+}
+
+// Where the legs go, in order, as drawn on the map
+function legsRoute(legs: TripLeg[]): Origin[] {
+  return legs.length > 0 ? [legs[0].from, ...legs.map(leg => leg.to)] : [];
+}
+
+// Home, every stop in order, then home again
+export function tripRoute(trip: Trip): Origin[] {
+  return legsRoute(trip.totals.legs);
+}
+
+interface DestinationOption {
+  id: number;
+  destination: string;
+  country: string;
+}
+
+interface TripDraft {
+  name: string;
+  notes: string;
+  stops: { destination_id: number; arrive_on: string; depart_on: string }[];
+}
+
+const EMPTY_TRIP: TripDraft = { name: '', notes: '', stops: [] };
+
+// The API allows at most 100 per page
+const OPTIONS_PAGE_SIZE = 100;
+
+const inputClass =
+  'w-full rounded-lg border border-slate-600 bg-slate-700/50 px-3 py-1.5 text-sm text-white placeholder-slate-500 focus:border-cyan-500 focus:outline-none';
+
+// Every destination, ignoring the list's filters, for the stop picker
+async function fetchAllDestinations(): Promise<DestinationOption[]> {
+  const all: DestinationOption[] = [];
+  for (let offset = 0; ; offset += OPTIONS_PAGE_SIZE) {
+    const response = await fetch(`/api/wishlist?limit=${OPTIONS_PAGE_SIZE}&offset=${offset}`);
+    if (!response.ok) throw new Error('Failed to load destinations');
+    const data: { items: DestinationOption[]; total: number } = await response.json();
+    all.push(...data.items);
+    if (data.items.length === 0 || all.length >= data.total) return all;
+  }
+}
+
+interface TripPlannerProps {
+  // The route of the trip shown on the map, or null to go back to single flights
+  onShowRoute: (route: Origin[] | null) => void;
+  onClose: () => void;
+}
+
+// Lists trips with their totals and edits one at a time through /api/trips.
+// Stops are wishlist destinations in travel order, with optional leg dates.
+const TripPlanner: React.FC<TripPlannerProps> = ({ onShowRoute, onClose }) => {
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [options, setOptions] = useState<DestinationOption[]>([]);
+  const [shownId, setShownId] = useState<number | null>(null);
+  // null while no form is open, 0 for a new trip
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<TripDraft>(EMPTY_TRIP);
+  const [pick, setPick] = useState('');
+  // Suggested order for the draft's stops, previewed on the map
+  const [suggestion, setSuggestion] = useState<PlannedRoute | null>(null);
+  const [closedTour, setClosedTour] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadTrips = useCallback(async () => {
+    try {
+      const response = await fetch('/api/trips');
+      if (response.ok) {
+        const data: { items: Trip[] } = await response.json();
+        setTrips(data.items);
+      } else {
+        setError(await errorMessage(response, 'Failed to load trips'));
+      }
+    } catch {
+      setError('Could not reach the server');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrips();
+    fetchAllDestinations().then(setOptions).catch(() => setError('Failed to load destinations'));
+  }, [loadTrips]);
+
+  const byId = new Map(options.map(option => [option.id, option]));
+  const stopName = (id: number) => {
+    const option = byId.get(id);
+    return option ? `${option.destination}, ${option.country}` : `Destination ${id}`;
+  };
+
+  const show = (trip: Trip | null) => {
+    setShownId(trip?.id ?? null);
+    onShowRoute(trip ? tripRoute(trip) : null);
+  };
+
+  const startEdit = (trip: Trip | null) => {
+    setEditingId(trip?.id ?? 0);
+    setSuggestion(null);
+    setDraft(
+      trip
+        ? {
+            name: trip.name,
+            notes: trip.notes,
+            stops: trip.stops.map(stop => ({
+              destination_id: stop.destination_id,
+              arrive_on: stop.arrive_on ?? '',
+              depart_on: stop.depart_on ?? '',
+            })),
+          }
+        : EMPTY_TRIP
+    );
+    setError('');
+  };
+
+  const updateStop = (index: number, change: Partial<TripDraft['stops'][number]>) => {
+    setDraft({ ...draft, stops: draft.stops.map((stop, i) => (i === index ? { ...stop, ...change } : stop)) });
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    const stops = [...draft.stops];
+    [stops[index], stops[index + offset]] = [stops[index + offset], stops[index]];
+    setDraft({ ...draft, stops });
+  };
+
+  const suggestOrder = async () => {
+    setError('');
+    const ids = [...new Set(draft.stops.map(stop => stop.destination_id))];
+    try {
+      const response = await fetch(`/api/trips/optimize?ids=${ids.join(',')}&closed=${closedTour}`);
+      if (!response.ok) {
+        setError(await errorMessage(response, 'Failed to plan a route'));
+        return;
+      }
+      const planned: PlannedRoute = await response.json();
+      setSuggestion(planned);
+      onShowRoute(legsRoute(planned.legs));
+    } catch {
+      setError('Could not reach the server');
+    }
+  };
+
+  // Reorder the draft to match the suggestion; repeat visits stay together
+  const applySuggestion = () => {
+    if (!suggestion) return;
+    const position = new Map(suggestion.order.map((id, index) => [id, index]));
+    const stops = [...draft.stops].sort(
+      (a, b) => (position.get(a.destination_id) ?? 0) - (position.get(b.destination_id) ?? 0)
+    );
+    setDraft({ ...draft, stops });
+    setSuggestion(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const payload = {
+        name: draft.name,
+        notes: draft.notes,
+        stops: draft.stops.map(stop => ({
+          destination_id: stop.destination_id,
+          arrive_on: stop.arrive_on || null,
+          depart_on: stop.depart_on || null,
+        })),
+      };
+      const response = await fetch(editingId ? `/api/trips/${editingId}` : '/api/trips', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        setError(await errorMessage(response, 'Failed to save trip'));
+        return;
+      }
+      const saved: Trip = await response.json();
+      setEditingId(null);
+      await loadTrips();
+      show(saved);
+    } catch {
+      setError('Could not reach the server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (trip: Trip) => {
+    if (!confirm(`Delete the trip "${trip.name}"?`)) return;
+    try {
+      const response = await fetch(`/api/trips/${trip.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        setError(await errorMessage(response, 'Failed to delete trip'));
+        return;
+      }
+      if (shownId === trip.id) show(null);
+      await loadTrips();
+    } catch {
+      setError('Could not reach the server');
+    }
+  };
+
+  return (
+    <div className="mb-8 rounded-3xl bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 p-8 shadow-2xl">
+      <div className="mb-6 flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white">🧳 Trips</h2>
+        <div className="flex gap-2">
+          {editingId === null && (
+            <button
+              type="button"
+              onClick={() => startEdit(null)}
+              className="rounded-lg bg-cyan-600 px-3 py-1.5 text-sm text-white hover:bg-cyan-500"
+            >
+              + New trip
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => {
+              show(null);
+              onClose();
+            }}
+            className="rounded-lg border border-slate-600 px-3 py-1.5 text-sm text-slate-300 hover:bg-slate-700"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {editingId === null ? (
+        <div className="space-y-3">
+          {trips.length === 0 && (
+            <p className="text-sm text-slate-500">Group destinations into a multi-stop trip, like Tokyo → Kyoto → Osaka.</p>
+          )}
+          {trips.map((trip) => (
+            <div
+              key={trip.id}
+              className={`rounded-xl border p-4 ${
+                shownId === trip.id ? 'border-amber-400/60 bg-amber-500/10' : 'border-slate-700 bg-slate-700/20'
+              }`}
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h3 className="font-semibold text-white">{trip.name}</h3>
+                  <p className="text-sm text-slate-400">
+                    {trip.stops.length === 0
+                      ? 'No stops yet'
+                      : trip.stops.map(stop => byId.get(stop.destination_id)?.destination ?? '…').join(' → ')}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => show(shownId === trip.id ? null : trip)}
+                    disabled={trip.stops.length === 0}
+                    className="rounded-lg bg-amber-600/20 px-3 py-1.5 text-sm text-amber-300 hover:bg-amber-600/30 disabled:opacity-30"
+                  >
+                    {shownId === trip.id ? 'Hide route' : '🗺️ Show route'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startEdit(trip)}
+                    className="rounded-lg bg-cyan-600/20 px-3 py-1.5 text-sm text-cyan-400 hover:bg-cyan-600/30"
+                    title="Edit"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(trip)}
+                    className="rounded-lg bg-red-600/20 px-3 py-1.5 text-sm text-red-400 hover:bg-red-600/30"
+                    title="Delete"
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </div>
+              {trip.stops.length > 0 && (
+                <p className="mt-2 text-xs text-slate-400">
+                  📏 {formatDistance(trip.totals.distance_km)} over {trip.totals.legs.length} flights
+                  {' · '}✈️ ~{formatFlightTime(trip.totals.flight_minutes)} in the air
+                  {trip.totals.days !== null && <> · 🗓️ {trip.totals.days} days</>}
+                  {trip.totals.budget_total !== null && (
+                    <> · 💵 {formatMoney(trip.totals.budget_total, trip.totals.currency)}</>
+                  )}
+                  {trip.totals.unpriced_stops > 0 && (
+                    <span className="text-slate-500">
+                      {' '}({trip.totals.unpriced_stops} {trip.totals.unpriced_stops === 1 ? 'stop' : 'stops'} without a budget)
+                    </span>
+                  )}
+                </p>
+              )}
+              {trip.notes && <p className="mt-2 text-xs italic text-slate-500">{trip.notes}</p>}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Trip name, e.g. Japan in spring"
+              className={inputClass}
+            />
+            <input
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              placeholder="Notes (optional)"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="space-y-2">
+            {draft.stops.map((stop, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 rounded-lg bg-slate-700/30 p-2">
+                <span className="w-6 text-center text-sm font-bold text-amber-300">{index + 1}</span>
+                <span className="min-w-[10rem] flex-1 text-sm text-slate-200">
+                  {stopName(stop.destination_id)}
+                </span>
+                <label className="text-xs text-slate-400">
+                  Arrive
+                  <input
+                    type="date"
+                    value={stop.arrive_on}
+                    onChange={(e) => updateStop(index, { arrive_on: e.target.value })}
+                    className={`${inputClass} ml-1 inline-block w-auto`}
+                  />
+                </label>
+                <label className="text-xs text-slate-400">
+                  Leave
+                  <input
+                    type="date"
+                    value={stop.depart_on}
+                    min={stop.arrive_on || undefined}
+                    onChange={(e) => updateStop(index, { depart_on: e.target.value })}
+                    className={`${inputClass} ml-1 inline-block w-auto`}
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => moveStop(index, -1)}
+                  disabled={index === 0}
+                  className="px-1 text-slate-400 hover:text-white disabled:opacity-30"
+                  title="Earlier"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveStop(index, 1)}
+                  disabled={index === draft.stops.length - 1}
+                  className="px-1 text-slate-400 hover:text-white disabled:opacity-30"
+                  title="Later"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, stops: draft.stops.filter((_, i) => i !== index) })}
+                  className="px-1 text-slate-500 hover:text-red-400"
+                  title="Remove stop"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {draft.stops.length > 1 && (
+              <div className="flex flex-wrap items-center gap-3 rounded-lg border border-slate-700 p-2 text-sm">
+                <button
+                  type="button"
+                  onClick={suggestOrder}
+                  className="rounded-lg bg-amber-600/20 px-3 py-1.5 text-amber-300 hover:bg-amber-600/30"
+                >
+                  ✨ Suggest shortest order
+                </button>
+                <label className="flex items-center gap-1 text-xs text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={closedTour}
+                    onChange={(e) => {
+                      setClosedTour(e.target.checked);
+                      setSuggestion(null);
+                    }}
+                  />
+                  Return home at the end
+                </label>
+                {suggestion && (
+                  <>
+                    <span className="text-xs text-slate-300">
+                      {suggestion.order.map(id => byId.get(id)?.destination ?? id).join(' → ')}
+                      {' · '}{formatDistance(suggestion.distance_km)}
+                      {suggestion.given_distance_km > suggestion.distance_km && (
+                        <span className="text-emerald-300">
+                          {' '}(saves {formatDistance(suggestion.given_distance_km - suggestion.distance_km)})
+                        </span>
+                      )}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={applySuggestion}
+                      className="rounded-lg bg-cyan-600 px-3 py-1.5 text-white hover:bg-cyan-500"
+                    >
+                      Use this order
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <select value={pick} onChange={(e) => setPick(e.target.value)} className={inputClass}>
+                <option value="">Add a stop…</option>
+                {options.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.destination}, {option.country}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => {
+                  if (!pick) return;
+                  setDraft({ ...draft, stops: [...draft.stops, { destination_id: Number(pick), arrive_on: '', depart_on: '' }] });
+                  setPick('');
+                }}
+                disabled={!pick}
+                className="rounded-lg bg-slate-700 px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={save}
+              disabled={saving}
+              className="rounded-lg bg-cyan-600 px-4 py-2 text-sm text-white hover:bg-cyan-500 disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : 'Save trip'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                if (suggestion) show(null);
+              }}
+              className="rounded-lg border border-slate-600 px-4 py-2 text-sm text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default TripPlanner;
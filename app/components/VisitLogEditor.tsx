@@ -0,0 +1,145 @@
+'use client';
+
+export const STATUS_OPTIONS = [
+  { value: 'wish', label: '💭 Wish' },
+  { value: 'planned', label: '📝 Planned' },
+  { value: 'booked', label: '🎫 Booked' },
+  { value: 'visited', label: '✅ Visited' },
+];
+
+// Form state: inputs stay strings so a field can be empty while typing
+export interface VisitDraft {
+  status: string;
+  visited_start: string;
+  visited_end: string;
+  rating: string;
+  notes: string;
+}
+
+export const EMPTY_VISIT: VisitDraft = {
+  status: 'wish',
+  visited_start: '',
+  visited_end: '',
+  rating: '',
+  notes: '',
+};
+
+// The draft for a stored destination, e.g. when opening the edit form
+export function draftFromVisit(dest: {
+  status: string;
+  visited_start: string | null;
+  visited_end: string | null;
+  rating: number | null;
+  notes: string;
+}): VisitDraft {
+  return {
+    status: dest.status,
+    visited_start: dest.visited_start ?? '',
+    visited_end: dest.visited_end ?? '',
+    rating: dest.rating === null ? '' : String(dest.rating),
+    notes: dest.notes,
+  };
+}
+
+// The API fields for a draft; empty inputs clear the stored value
+export function visitPayload(draft: VisitDraft) {
+  return {
+    status: draft.status,
+    visited_start: draft.visited_start || null,
+    visited_end: draft.visited_end || null,
+    rating: draft.rating ? Number(draft.rating) : null,
+    notes: draft.notes,
+  };
+}
+
+export function statusLabel(status: string): string {
+  return STATUS_OPTIONS.find(option => option.value === status)?.label ?? STATUS_OPTIONS[0].label;
+}
+
+export function ratingStars(rating: number): string {
+  return '★'.repeat(rating) + '☆'.repeat(5 - rating);
+}
+
+interface VisitLogEditorProps {
+  value: VisitDraft;
+  onChange: (value: VisitDraft) => void;
+}
+
+const inputClass =
+  'w-full rounded-xl border border-slate-600 bg-slate-700/50 px-3 py-2 text-white placeholder-slate-500 focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all';
+
+// Where the destination is in the wish -> visited lifecycle. Once visited,
+// the trip's dates, a rating and notes can be logged.
+const VisitLogEditor: React.FC<VisitLogEditorProps> = ({ value, onChange }) => {
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-700/20 p-4 space-y-3">
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+        {STATUS_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange({ ...value, status: option.value })}
+            className={`rounded-lg px-3 py-2 text-sm transition-colors ${
+              value.status === option.value
+                ? 'bg-cyan-600 text-white'
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {value.status === 'visited' && (
+        <>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Arrived</span>
+              <input
+                type="date"
+                value={value.visited_start}
+                onChange={(e) => onChange({ ...value, visited_start: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Left</span>
+              <input
+                type="date"
+                value={value.visited_end}
+                min={value.visited_start || undefined}
+                onChange={(e) => onChange({ ...value, visited_end: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block col-span-2 md:col-span-1">
+              <span className="block text-xs text-slate-400 mb-1">Rating</span>
+              <select
+                value={value.rating}
+                onChange={(e) => onChange({ ...value, rating: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Not rated</option>
+                {[5, 4, 3, 2, 1].map((stars) => (
+                  <option key={stars} value={stars}>{ratingStars(stars)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">Notes</span>
+            <textarea
+              value={value.notes}
+              onChange={(e) => onChange({ ...value, notes: e.target.value })}
+              placeholder="Highlights, tips, what you'd do differently"
+              rows={3}
+              className={inputClass}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VisitLogEditor;
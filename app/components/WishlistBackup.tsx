@@ -0,0 +1,184 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { errorMessage } from './errors';
+
+type ImportMode = 'replace' | 'append' | 'merge';
+
+interface ImportSummary {
+  mode: ImportMode;
+  dry_run: boolean;
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  changes: { action: 'create' | 'update' | 'delete'; id: number | null; destination: string; country: string }[];
+}
+
+const MODE_OPTIONS: { value: ImportMode; label: string }[] = [
+  { value: 'merge', label: 'Merge: update matching destinations, add the rest' },
+  { value: 'append', label: 'Append: add everything as new' },
+  { value: 'replace', label: 'Replace: delete the current wishlist first' },
+];
+
+const ACTION_ICONS = { create: '➕', update: '✏️', delete: '🗑️' };
+
+// Changes listed in the preview; the counts cover the rest
+const PREVIEW_LIMIT = 12;
+
+interface WishlistBackupProps {
+  // Called after an import is applied, e.g. to reload the list
+  onImported?: () => void;
+}
+
+// Downloads the wishlist as JSON and imports such a file back. Picking a
+// file or mode runs a dry run first; nothing changes until Import is pressed.
+const WishlistBackup: React.FC<WishlistBackupProps> = ({ onImported }) => {
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [preview, setPreview] = useState<ImportSummary | null>(null);
+  const [status, setStatus] = useState<'idle' | 'working'>('idle');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const send = async (text: string, importMode: ImportMode, dryRun: boolean): Promise<ImportSummary | null> => {
+    setStatus('working');
+    setError('');
+    setMessage('');
+    try {
+      const response = await fetch(`/api/wishlist/import?mode=${importMode}&dry_run=${dryRun}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: text,
+      });
+      if (!response.ok) {
+        setError(await errorMessage(response, 'Failed to import wishlist'));
+        return null;
+      }
+      return await response.json();
+    } catch {
+      setError('Could not reach the server');
+      return null;
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const runPreview = async (next: { name: string; text: string }, nextMode: ImportMode) => {
+    setPreview(null);
+    setPreview(await send(next.text, nextMode, true));
+  };
+
+  const pickFile = async (picked: File) => {
+    const next = { name: picked.name, text: await picked.text() };
+    setFile(next);
+    runPreview(next, mode);
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const changeMode = (nextMode: ImportMode) => {
+    setMode(nextMode);
+    if (file) runPreview(file, nextMode);
+  };
+
+  const apply = async () => {
+    if (!file) return;
+    const summary = await send(file.text, mode, false);
+    if (!summary) return;
+    setFile(null);
+    setPreview(null);
+    setMessage(`Imported ${file.name}: ${summary.created} added, ${summary.updated} updated, ${summary.deleted} removed`);
+    onImported?.();
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-300 mb-1">Backup</h3>
+      <p className="mb-3 text-xs text-slate-500">Export the wishlist as JSON, or import an exported file. Trips are not included.</p>
+
+      <div className="flex flex-wrap gap-2">
+        <a
+          href="/api/wishlist/export"
+          download
+          className="rounded-lg bg-slate-700 px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-600"
+        >
+          ⬇️ Export JSON
+        </a>
+        <label className="cursor-pointer rounded-lg border border-slate-600 px-3 py-1.5 text-sm text-slate-300 hover:bg-slate-700">
+          ⬆️ Import JSON
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && pickFile(e.target.files[0])}
+          />
+        </label>
+      </div>
+
+      {file && (
+        <div className="mt-3 rounded-xl border border-slate-700 bg-slate-700/20 p-4 space-y-3">
+          <p className="text-sm text-slate-300">📄 {file.name}</p>
+          <select
+            value={mode}
+            onChange={(e) => changeMode(e.target.value as ImportMode)}
+            className="w-full rounded-lg border border-slate-600 bg-slate-700/50 px-3 py-1.5 text-sm text-white focus:border-cyan-500 focus:outline-none"
+          >
+            {MODE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          {status === 'working' && <p className="text-xs text-slate-500">Checking…</p>}
+          {preview && (
+            <>
+              <p className="text-xs text-slate-400">
+                Would add {preview.created}, update {preview.updated}
+                {preview.unchanged > 0 && ` (${preview.unchanged} already up to date)`}
+                {preview.deleted > 0 && <span className="text-red-300">, delete {preview.deleted}</span>}
+              </p>
+              <ul className="space-y-0.5 text-xs text-slate-400">
+                {preview.changes.slice(0, PREVIEW_LIMIT).map((change, index) => (
+                  <li key={index}>
+                    {ACTION_ICONS[change.action]} {change.destination}, {change.country}
+                  </li>
+                ))}
+                {preview.changes.length > PREVIEW_LIMIT && (
+                  <li className="text-slate-500">…and {preview.changes.length - PREVIEW_LIMIT} more</li>
+                )}
+              </ul>
+            </>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={apply}
+              disabled={!preview || status === 'working'}
+              className="rounded-lg bg-cyan-600 px-3 py-1.5 text-sm text-white hover:bg-cyan-500 disabled:opacity-50"
+            >
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setFile(null);
+                setPreview(null);
+                setError('');
+              }}
+              className="rounded-lg border border-slate-600 px-3 py-1.5 text-sm text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="mt-2 text-xs text-emerald-300">{message}</p>}
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default WishlistBackup;
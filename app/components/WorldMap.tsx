@@ -1,51 +1,190 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
+import { formatDistance, formatFlightTime, formatTimeDifference } from '@/lib/format';
+import { greatCirclePath, splitAtAntimeridian } from '@/lib/geo';
+import { layoutMarkers } from '@/lib/mapClusters';
+import { isPastDue, timelineLabel, type TimelineKind } from '@/lib/timeline';
+
+// Computed by the API relative to home; see lib/travelFacts.ts
+export interface TravelFacts {
+  distance_km: number;
+  flight_minutes: number;
+  time_zone: string;
+  utc_offset_minutes: number;
+  time_difference_minutes: number;
+}
 
 export interface TravelDestination {
   id: number;
-  rank: number;
+  // null once visited
+  rank: number | null;
   destination: string;
   country: string;
+  country_code: string | null;
   latitude: number;
   longitude: number;
   reason: string;
   budget: string;
-  timeline: string;
+  timeline_kind: TimelineKind;
+  timeline_start: string | null;
+  timeline_end: string | null;
   image_url: string | null;
+  place_name: string | null;
+  osm_type: string | null;
+  osm_id: number | null;
+  cost_flights: number | null;
+  cost_lodging: number | null;
+  cost_food: number | null;
+  cost_activities: number | null;
+  trip_days: number | null;
+  currency: string;
+  status: string;
+  visited_start: string | null;
+  visited_end: string | null;
+  rating: number | null;
+  notes: string;
   created_at: string;
   updated_at: string;
+  // Missing on responses from POST and PUT
+  facts?: TravelFacts;
+}
+
+// Per-country counts from GET /api/wishlist/countries
+export interface CountryStats {
+  code: string;
+  name: string;
+  count: number;
+  visited: number;
+  top_rank: number | null;
+}
+
+// What the country fills show: nothing, entries per country, visited versus
+// wished, or the best rank in each country
+export type CountryMode = 'none' | 'count' | 'visited' | 'rank';
+
+export interface Origin {
+  name: string;
+  latitude: number;
+  longitude: number;
 }
 
 interface WorldMapProps {
   destinations: TravelDestination[];
   selectedDestination: TravelDestination | null;
   onSelectDestination?: (destination: TravelDestination) => void;
+  home: Origin;
+  extraOrigins?: Origin[];
+  // Where the flight to the selected destination departs; defaults to home
+  flightOrigin?: Origin;
+  countryStats?: CountryStats[];
+  countryMode?: CountryMode;
+  // Called with the ISO code of a clicked country that has destinations
+  onSelectCountry?: (code: string) => void;
+  // A multi-stop trip to draw instead of the single flight: origin, each
+  // stop, then back. The plane flies the legs one after another.
+  route?: Origin[] | null;
 }
 
-const SF_COORDS = { latitude: 37.7749, longitude: -122.4194 };
+const NO_ORIGINS: Origin[] = [];
+const NO_COUNTRIES: CountryStats[] = [];
+
+// How long the plane takes over one leg of a trip
+const LEG_MS = 1500;
 
-const TIMELINE_LABELS: Record<string, string> = {
-  '2025-q1': '🌸 Q1 2025',
-  '2025-q2': '☀️ Q2 2025',
-  '2025-q3': '🍂 Q3 2025',
-  '2025-q4': '❄️ Q4 2025',
-  '2026': '🗓️ 2026',
-  'someday': '✨ Someday',
+const COUNTRY_FILL = '#1e3a5f';
+
+const MARKER_RADIUS = 12;
+// Destination markers closer than this many pixels are clustered or fanned out
+const OVERLAP_PX = 28;
+
+interface LegendEntry {
+  label: string;
+  color: string;
+  matches: (stats: CountryStats) => boolean;
+}
+
+// Legend per mode; a country takes the first entry it matches
+const LEGENDS: Record<Exclude<CountryMode, 'none'>, LegendEntry[]> = {
+  count: [
+    { label: '1', color: '#155e75', matches: c => c.count === 1 },
+    { label: '2–3', color: '#0e7490', matches: c => c.count <= 3 },
+    { label: '4–6', color: '#0891b2', matches: c => c.count <= 6 },
+    { label: '7+', color: '#22d3ee', matches: () => true },
+  ],
+  visited: [
+    { label: 'Visited', color: '#16a34a', matches: c => c.visited === c.count },
+    { label: 'Visited, more to see', color: '#0d9488', matches: c => c.visited > 0 },
+    { label: 'Wished', color: '#7c3aed', matches: () => true },
+  ],
+  rank: [
+    { label: '#1–3', color: '#f59e0b', matches: c => c.top_rank !== null && c.top_rank <= 3 },
+    { label: '#4–10', color: '#ea580c', matches: c => c.top_rank !== null && c.top_rank <= 10 },
+    { label: '#11+', color: '#9a3412', matches: c => c.top_rank !== null },
+    { label: 'All visited', color: '#475569', matches: () => true },
+  ],
 };
 
-const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination, onSelectDestination }) => {
+const LEGEND_TITLES: Record<Exclude<CountryMode, 'none'>, string> = {
+  count: 'Destinations',
+  visited: 'Visited vs wished',
+  rank: 'Best rank',
+};
+
+// A plane riding a map line; adjustRotation keeps its nose pointing along
+// the arc as it moves
+function addPlane(am4core: any, line: any): any {
+  const plane = line.lineObjects.create();
+  plane.position = 0;
+  plane.adjustRotation = true;
+  plane.nonScaling = true;
+
+  const planeSprite = plane.createChild(am4core.Sprite);
+  planeSprite.path = 'm2,106h28l24,30h72l-44,-133h35l80,132h98c21,0 21,34 0,34l-98,0 -80,134h-35l43,-133h-71l-24,30h-28l15,-47';
+  planeSprite.fill = am4core.color('#ffd93d');
+  planeSprite.scale = 0.18;
+  planeSprite.strokeOpacity = 0;
+  planeSprite.horizontalCenter = 'middle';
+  planeSprite.verticalCenter = 'middle';
+  return plane;
+}
+
+function countryTooltip(stats: CountryStats): string {
+  const parts = [`${stats.count} destination${stats.count === 1 ? '' : 's'}`];
+  if (stats.visited > 0) parts.push(`${stats.visited} visited`);
+  if (stats.top_rank !== null) parts.push(`best #${stats.top_rank}`);
+  return `${stats.name}: ${parts.join(', ')}`;
+}
+
+const WorldMap: React.FC<WorldMapProps> = ({
+  destinations,
+  selectedDestination,
+  onSelectDestination,
+  home,
+  extraOrigins = NO_ORIGINS,
+  flightOrigin = home,
+  countryStats = NO_COUNTRIES,
+  countryMode = 'none',
+  onSelectCountry,
+  route = null,
+}) => {
   const mapDivRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<any>(null);
+  const polygonSeriesRef = useRef<any>(null);
   const lineSeriesRef = useRef<any>(null);
-  const planeSeriesRef = useRef<any>(null);
   const markerSeriesRef = useRef<any>(null);
+  const clusterSeriesRef = useRef<any>(null);
   const destinationsRef = useRef<TravelDestination[]>([]);
   const onSelectRef = useRef(onSelectDestination);
+  const onSelectCountryRef = useRef(onSelectCountry);
+  const countryCodesRef = useRef<Set<string>>(new Set());
   const [mapReady, setMapReady] = useState(false);
+  // Bumped after the map zooms or resizes, when clusters need recomputing
+  const [viewVersion, setViewVersion] = useState(0);
   const [showBubble, setShowBubble] = useState(false);
   const [bubblePos, setBubblePos] = useState({ x: 0, y: 0 });
-  const prevDestIdRef = useRef<number | null>(null);
+  // Destination and origin of the last animated flight
+  const prevFlightRef = useRef<string | null>(null);
 
   // Keep refs updated
   useEffect(() => {
@@ -56,9 +195,18 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
     onSelectRef.current = onSelectDestination;
   }, [onSelectDestination]);
 
+  useEffect(() => {
+    onSelectCountryRef.current = onSelectCountry;
+  }, [onSelectCountry]);
+
+  useEffect(() => {
+    countryCodesRef.current = new Set(countryStats.map(c => c.code));
+  }, [countryStats]);
+
   // Initialize map only once
   useEffect(() => {
     let disposed = false;
+    let viewTimer: ReturnType<typeof setTimeout> | undefined;
 
     const init = async () => {
       if (!mapDivRef.current) return;
@@ -83,9 +231,20 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
       const polygonSeries = chart.series.push(new am4maps.MapPolygonSeries());
       polygonSeries.useGeodata = true;
       polygonSeries.exclude = ['AQ'];
-      polygonSeries.mapPolygons.template.fill = am4core.color('#1e3a5f');
+      polygonSeries.mapPolygons.template.fill = am4core.color(COUNTRY_FILL);
+      polygonSeries.mapPolygons.template.propertyFields.fill = 'fill';
       polygonSeries.mapPolygons.template.stroke = am4core.color('#2d5a87');
       polygonSeries.mapPolygons.template.strokeWidth = 0.5;
+      polygonSeries.mapPolygons.template.tooltipText = '{name}';
+      polygonSeries.mapPolygons.template.propertyFields.tooltipText = 'tooltip';
+
+      // Clicking a country with destinations filters the list to it
+      polygonSeries.mapPolygons.template.events.on('hit', (ev: any) => {
+        const code = ev.target.dataItem?.dataContext?.id;
+        if (typeof code === 'string' && countryCodesRef.current.has(code)) {
+          onSelectCountryRef.current?.(code);
+        }
+      });
 
       // Flight line series
       const lineSeries = chart.series.push(new am4maps.MapLineSeries());
@@ -96,21 +255,20 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
       lineSeries.mapLines.template.nonScalingStroke = true;
       lineSeries.zIndex = 10;
 
-      // Plane series
-      const planeSeries = chart.series.push(new am4maps.MapImageSeries());
-      planeSeries.mapImages.template.nonScaling = true;
-
       // City markers
       const markerSeries = chart.series.push(new am4maps.MapImageSeries());
       markerSeries.mapImages.template.propertyFields.longitude = 'longitude';
       markerSeries.mapImages.template.propertyFields.latitude = 'latitude';
+      // Offset for markers fanned out around a shared spot
+      markerSeries.mapImages.template.propertyFields.dx = 'dx';
+      markerSeries.mapImages.template.propertyFields.dy = 'dy';
       markerSeries.mapImages.template.nonScaling = true;
       markerSeries.mapImages.template.tooltipText = '{title}';
       markerSeries.mapImages.template.cursorOverStyle = am4core.MouseCursorStyle.pointer;
 
       // Circle background
       const circle = markerSeries.mapImages.template.createChild(am4core.Circle);
-      circle.radius = 12;
+      circle.radius = MARKER_RADIUS;
       circle.propertyFields.fill = 'color';
       circle.stroke = am4core.color('#fff');
       circle.strokeWidth = 2;
@@ -137,6 +295,61 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
         }
       });
 
+      // Cluster bubbles: a count over a halo, above the single markers
+      const clusterSeries = chart.series.push(new am4maps.MapImageSeries());
+      clusterSeries.mapImages.template.propertyFields.longitude = 'longitude';
+      clusterSeries.mapImages.template.propertyFields.latitude = 'latitude';
+      clusterSeries.mapImages.template.nonScaling = true;
+      clusterSeries.mapImages.template.tooltipText = '{title}';
+      clusterSeries.mapImages.template.cursorOverStyle = am4core.MouseCursorStyle.pointer;
+      clusterSeries.zIndex = 20;
+
+      const halo = clusterSeries.mapImages.template.createChild(am4core.Circle);
+      halo.propertyFields.radius = 'halo';
+      halo.fill = am4core.color('#6366f1');
+      halo.fillOpacity = 0.35;
+      halo.strokeOpacity = 0;
+
+      const clusterCircle = clusterSeries.mapImages.template.createChild(am4core.Circle);
+      clusterCircle.radius = MARKER_RADIUS + 2;
+      clusterCircle.fill = am4core.color('#6366f1');
+      clusterCircle.stroke = am4core.color('#fff');
+      clusterCircle.strokeWidth = 2;
+
+      const clusterLabel = clusterSeries.mapImages.template.createChild(am4core.Label);
+      clusterLabel.text = '{count}';
+      clusterLabel.fill = am4core.color('#fff');
+      clusterLabel.fontSize = 11;
+      clusterLabel.fontWeight = 'bold';
+      clusterLabel.horizontalCenter = 'middle';
+      clusterLabel.verticalCenter = 'middle';
+
+      // Clicking a cluster zooms to fit its members, which splits it up
+      clusterSeries.mapImages.template.events.on('hit', (ev: any) => {
+        const ids: number[] = ev.target.dataItem?.dataContext?.ids ?? [];
+        const members = destinationsRef.current.filter(d => ids.includes(d.id));
+        if (members.length === 0) return;
+        const latitudes = members.map(d => Number(d.latitude));
+        const longitudes = members.map(d => Number(d.longitude));
+        chart.zoomToRectangle(
+          Math.max(...latitudes),
+          Math.max(...longitudes),
+          Math.min(...latitudes),
+          Math.min(...longitudes),
+          0.7,
+          true
+        );
+      });
+
+      // Recompute clusters once zooming or resizing settles
+      const viewChanged = () => {
+        clearTimeout(viewTimer);
+        viewTimer = setTimeout(() => setViewVersion(version => version + 1), 150);
+      };
+      chart.events.on('zoomlevelchanged', viewChanged);
+      chart.events.on('sizechanged', viewChanged);
+      chart.events.on('ready', viewChanged);
+
       // Zoom controls
       chart.zoomControl = new am4maps.ZoomControl();
       chart.zoomControl.align = 'right';
@@ -144,9 +357,10 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
 
       // Store refs
       chartRef.current = chart;
+      polygonSeriesRef.current = polygonSeries;
       lineSeriesRef.current = lineSeries;
-      planeSeriesRef.current = planeSeries;
       markerSeriesRef.current = markerSeries;
+      clusterSeriesRef.current = clusterSeries;
       
       setMapReady(true);
     };
@@ -155,6 +369,7 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
 
     return () => {
       disposed = true;
+      clearTimeout(viewTimer);
       setMapReady(false);
       if (chartRef.current) {
         chartRef.current.dispose();
@@ -163,56 +378,158 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
     };
   }, []); // Only run once
 
-  // Update markers when destinations change
+  // Update markers when destinations change or the map zooms. Overlapping
+  // destinations become cluster bubbles; ones at the same spot fan out.
   useEffect(() => {
-    if (!mapReady || !markerSeriesRef.current) return;
+    if (!mapReady || !markerSeriesRef.current || !clusterSeriesRef.current) return;
 
     const updateMarkers = async () => {
       const am4core = await import('@amcharts/amcharts4/core');
-      
+      const chart = chartRef.current;
+      if (!chart) return;
+
+      const byId = new Map(destinations.map(d => [d.id, d]));
+      const layout = layoutMarkers(
+        destinations.map(d => ({
+          id: d.id,
+          ...chart.geoPointToSVG({ latitude: Number(d.latitude), longitude: Number(d.longitude) }),
+        })),
+        { radius: OVERLAP_PX, maxScale: chart.maxZoomLevel / chart.zoomLevel }
+      );
+
+      // Origins get negative ids so clicks on them never match a destination
       const markers = [
-        { 
-          latitude: SF_COORDS.latitude, 
-          longitude: SF_COORDS.longitude, 
-          title: 'San Francisco (Home)', 
+        {
+          latitude: home.latitude,
+          longitude: home.longitude,
+          title: `${home.name} (Home)`,
           color: am4core.color('#06b6d4'),
           id: -1,
-          rank: '✈' // SF marker shows plane icon
+          rank: '✈' // Home marker shows plane icon
         },
-        ...destinations.map(d => ({
-          latitude: Number(d.latitude),
-          longitude: Number(d.longitude),
-          title: `${d.destination}, ${d.country}`,
-          color: am4core.color('#ff6b6b'),
-          id: d.id,
-          rank: String(d.rank)
-        }))
+        ...extraOrigins.map((origin, index) => ({
+          latitude: origin.latitude,
+          longitude: origin.longitude,
+          title: `${origin.name} (Origin)`,
+          color: am4core.color('#0e7490'),
+          id: -2 - index,
+          rank: '✈'
+        })),
+        ...layout.markers.map(({ id, dx, dy }) => {
+          const d = byId.get(id)!;
+          return {
+            latitude: Number(d.latitude),
+            longitude: Number(d.longitude),
+            dx,
+            dy,
+            title: d.status === 'visited' ? `${d.destination}, ${d.country} (Visited)` : `${d.destination}, ${d.country}`,
+            color: am4core.color(d.status === 'visited' ? '#22c55e' : '#ff6b6b'),
+            id: d.id,
+            rank: d.rank === null ? '✓' : String(d.rank)
+          };
+        })
       ];
-      
+
       markerSeriesRef.current.data = markers;
+      clusterSeriesRef.current.data = layout.clusters.map(cluster => {
+        const names = cluster.ids.map(id => byId.get(id)!.destination);
+        const center = chart.svgPointToGeo({ x: cluster.x, y: cluster.y });
+        return {
+          latitude: center.latitude,
+          longitude: center.longitude,
+          ids: cluster.ids,
+          count: cluster.ids.length,
+          halo: MARKER_RADIUS + 4 + Math.min(cluster.ids.length, 10),
+          title: `${cluster.ids.length} destinations: ${names.slice(0, 5).join(', ')}${names.length > 5 ? ', …' : ''}\nClick to zoom in`
+        };
+      });
     };
 
     updateMarkers();
-  }, [mapReady, destinations]);
+  }, [mapReady, destinations, home, extraOrigins, viewVersion]);
+
+  // Colour countries for the current mode. Stats are keyed by the ISO codes
+  // the server resolved, which match the geodata ids.
+  useEffect(() => {
+    if (!mapReady || !polygonSeriesRef.current) return;
+
+    const updateCountries = async () => {
+      const am4core = await import('@amcharts/amcharts4/core');
+      polygonSeriesRef.current.data = countryStats.map(stats => {
+        const entry = countryMode === 'none' ? undefined : LEGENDS[countryMode].find(e => e.matches(stats));
+        return {
+          id: stats.code,
+          fill: am4core.color(entry?.color ?? COUNTRY_FILL),
+          tooltip: countryTooltip(stats),
+        };
+      });
+    };
+
+    updateCountries();
+  }, [mapReady, countryStats, countryMode]);
+
+  // Draw a trip's legs and fly the plane along them in turn
+  useEffect(() => {
+    if (!mapReady || !route || route.length < 2) return;
+    const lineSeries = lineSeriesRef.current;
+    if (!chartRef.current || !lineSeries) return;
+
+    let cancelled = false;
+    setShowBubble(false);
+    // Redraw the single flight once the trip is hidden
+    prevFlightRef.current = null;
+    lineSeries.mapLines.clear();
+
+    const animate = async () => {
+      const am4core = await import('@amcharts/amcharts4/core');
+      if (cancelled) return;
+      const lines = route.slice(1).map((point, index) => {
+        const line = lineSeries.mapLines.create();
+        line.multiGeoLine = splitAtAntimeridian(greatCirclePath(route[index], point));
+        return line;
+      });
+
+      const fly = (leg: number) => {
+        if (cancelled || leg >= lines.length) return;
+        const plane = addPlane(am4core, lines[leg]);
+        const flight = plane.animate({ property: 'position', from: 0, to: 1 }, LEG_MS, am4core.ease.sinInOut);
+        flight.events.on('animationended', () => {
+          // The last plane stays parked at the end of the route
+          if (cancelled || leg === lines.length - 1) return;
+          plane.dispose();
+          fly(leg + 1);
+        });
+      };
+
+      chartRef.current?.goHome(500);
+      fly(0);
+    };
+
+    animate();
+    return () => {
+      cancelled = true;
+      lineSeries.mapLines.clear();
+    };
+  }, [mapReady, route]);
 
   // Animate when destination changes
   useEffect(() => {
-    if (!mapReady || !selectedDestination) {
+    if (!mapReady || !selectedDestination || route) {
       setShowBubble(false);
       return;
     }
 
-    // Skip if same destination
-    if (prevDestIdRef.current === selectedDestination.id) {
+    // Skip if same flight
+    const flightKey = `${selectedDestination.id}@${flightOrigin.latitude},${flightOrigin.longitude}`;
+    if (prevFlightRef.current === flightKey) {
       return;
     }
-    prevDestIdRef.current = selectedDestination.id;
+    prevFlightRef.current = flightKey;
 
     const chart = chartRef.current;
     const lineSeries = lineSeriesRef.current;
-    const planeSeries = planeSeriesRef.current;
 
-    if (!chart || !lineSeries || !planeSeries) {
+    if (!chart || !lineSeries) {
       return;
     }
 
@@ -220,7 +537,6 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
     setShowBubble(false);
     try {
       lineSeries.mapLines.clear();
-      planeSeries.mapImages.clear();
     } catch (e) {
       // ignore
     }
@@ -232,36 +548,16 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
         const destLat = Number(selectedDestination.latitude);
         const destLon = Number(selectedDestination.longitude);
 
-        // Create line
+        // Great-circle route, split where it crosses the antimeridian so
+        // e.g. SF to Tokyo goes over the Pacific instead of across the map
+        const route = greatCirclePath(flightOrigin, { latitude: destLat, longitude: destLon });
         const line = lineSeries.mapLines.create();
-        line.multiGeoLine = [[
-          { latitude: SF_COORDS.latitude, longitude: SF_COORDS.longitude },
-          { latitude: destLat, longitude: destLon }
-        ]];
-
-        // Create plane
-        const planeContainer = planeSeries.mapImages.create();
-        planeContainer.latitude = SF_COORDS.latitude;
-        planeContainer.longitude = SF_COORDS.longitude;
-
-        const planeSprite = planeContainer.createChild(am4core.Sprite);
-        planeSprite.path = 'm2,106h28l24,30h72l-44,-133h35l80,132h98c21,0 21,34 0,34l-98,0 -80,134h-35l43,-133h-71l-24,30h-28l15,-47';
-        planeSprite.fill = am4core.color('#ffd93d');
-        planeSprite.scale = 0.18;
-        planeSprite.strokeOpacity = 0;
-        planeSprite.horizontalCenter = 'middle';
-        planeSprite.verticalCenter = 'middle';
-
-        // Calculate direction (shortest path)
-        let dLon = destLon - SF_COORDS.longitude;
-        const dLat = destLat - SF_COORDS.latitude;
-        if (dLon > 180) dLon -= 360;
-        if (dLon < -180) dLon += 360;
-        planeSprite.rotation = Math.atan2(-dLat, dLon) * (180 / Math.PI);
+        line.multiGeoLine = splitAtAntimeridian(route);
+
+        const plane = addPlane(am4core, line);
 
         // Animate flight
-        planeContainer.animate({ property: 'latitude', to: destLat }, 2000, am4core.ease.sinInOut);
-        planeContainer.animate({ property: 'longitude', to: destLon }, 2000, am4core.ease.sinInOut);
+        plane.animate({ property: 'position', from: 0, to: 1 }, 2000, am4core.ease.sinInOut);
 
         // Zoom out
         chart.goHome(500);
@@ -289,9 +585,13 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
 
     const timer = setTimeout(animate, 100);
     return () => clearTimeout(timer);
-  }, [mapReady, selectedDestination]);
+  }, [mapReady, selectedDestination, flightOrigin, route]);
 
-  const timeline = selectedDestination ? TIMELINE_LABELS[selectedDestination.timeline] || '✨ Someday' : '';
+  const timeline = !selectedDestination
+    ? ''
+    : selectedDestination.status === 'visited'
+      ? `✅ Visited${selectedDestination.rating ? ` · ${'★'.repeat(selectedDestination.rating)}` : ''}`
+      : `${selectedDestination.timeline_kind === 'someday' ? '✨' : isPastDue(selectedDestination) ? '⚠️' : '🗓️'} ${timelineLabel(selectedDestination)}`;
 
   return (
     <div className="relative">
@@ -300,6 +600,18 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
         className="w-full h-[400px] lg:h-[500px] rounded-2xl overflow-hidden"
         style={{ backgroundColor: '#0c1929' }}
       />
+
+      {countryMode !== 'none' && countryStats.length > 0 && (
+        <div className="absolute bottom-3 left-3 z-10 rounded-lg bg-slate-900/80 border border-slate-700 px-3 py-2 text-xs text-slate-300">
+          <p className="mb-1 font-medium text-slate-200">{LEGEND_TITLES[countryMode]}</p>
+          {LEGENDS[countryMode].map((entry) => (
+            <div key={entry.label} className="flex items-center gap-2">
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: entry.color }} />
+              {entry.label}
+            </div>
+          ))}
+        </div>
+      )}
       
       {showBubble && selectedDestination && (
         <div 
@@ -333,6 +645,14 @@ const WorldMap: React.FC<WorldMapProps> = ({ destinations, selectedDestination,
               </p>
             )}
             
+            {selectedDestination.facts && (
+              <p className="text-slate-400 text-xs text-center mb-2">
+                {formatDistance(selectedDestination.facts.distance_km)} · ✈️ ~{formatFlightTime(selectedDestination.facts.flight_minutes)}
+                <br />
+                🕐 {formatTimeDifference(selectedDestination.facts.time_difference_minutes)} ({selectedDestination.facts.time_zone})
+              </p>
+            )}
+
             <div className="flex justify-center">
               <span className="px-2 py-0.5 rounded-full text-xs bg-indigo-500 text-white">
                 {timeline}
@@ -0,0 +1,7 @@
+// The message to show for a failed API response: the error from its JSON
+// body, with the first bad field when there is one, else fallback
+export async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const body: { error?: string; fields?: Record<string, string> } = await response.json().catch(() => ({}));
+  const first = body.fields ? Object.entries(body.fields)[0] : undefined;
+  return first ? `${body.error}: ${first[0]} ${first[1].toLowerCase()}` : body.error ?? fallback;
+}
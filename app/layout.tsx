@@ -10,7 +10,7 @@ const inter = Inter({
 
 export const metadata: Metadata = {
   title: "Travel Wishlist",
-  description: "Your dream destinations, ranked and mapped from San Francisco",
+  description: "Your dream destinations, ranked and mapped from home",
 };
 
 export default function RootLayout({
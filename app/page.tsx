@@ -2,8 +2,18 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import dynamic from 'next/dynamic';
+import BudgetEditor, { budgetLabel, budgetPayload, EMPTY_BUDGET, type BudgetDraft } from './components/BudgetEditor';
+import SettingsPanel, { type Settings } from './components/SettingsPanel';
+import VisitLogEditor, { draftFromVisit, EMPTY_VISIT, ratingStars, STATUS_OPTIONS, statusLabel, visitPayload, type VisitDraft } from './components/VisitLogEditor';
+import TripPlanner from './components/TripPlanner';
+import CsvImport from './components/CsvImport';
+import TimelineEditor, { EMPTY_TIMELINE, draftFromTimeline, timelinePayload, type TimelineDraft } from './components/TimelineEditor';
+import type { CountryMode, CountryStats, Origin, TravelFacts } from './components/WorldMap';
+import { budgetTotal, formatMoney } from '@/lib/budget';
+import { formatDistance, formatFlightTime, formatTimeDifference } from '@/lib/format';
+import { isPastDue, timelineLabel, type TimelineKind } from '@/lib/timeline';
 
-// Dynamically import the WorldMap to avoid SSR issues with amCharts
+// Dynamically import the maps to avoid SSR issues with amCharts
 const WorldMap = dynamic(() => import('./components/WorldMap'), {
   ssr: false,
   loading: () => (
@@ -13,97 +23,297 @@ const WorldMap = dynamic(() => import('./components/WorldMap'), {
   ),
 });
 
+const LocationPicker = dynamic(() => import('./components/LocationPicker'), {
+  ssr: false,
+  loading: () => <div className="w-full h-[220px] rounded-xl bg-slate-800 animate-pulse" />,
+});
+
 interface TravelDestination {
   id: number;
-  rank: number;
+  // null once visited
+  rank: number | null;
   destination: string;
   country: string;
+  country_code: string | null;
   latitude: number;
   longitude: number;
   reason: string;
   budget: string;
-  timeline: string;
+  timeline_kind: TimelineKind;
+  timeline_start: string | null;
+  timeline_end: string | null;
   image_url: string | null;
+  place_name: string | null;
+  osm_type: string | null;
+  osm_id: number | null;
+  cost_flights: number | null;
+  cost_lodging: number | null;
+  cost_food: number | null;
+  cost_activities: number | null;
+  trip_days: number | null;
+  currency: string;
+  status: string;
+  visited_start: string | null;
+  visited_end: string | null;
+  rating: number | null;
+  notes: string;
   created_at: string;
   updated_at: string;
+  facts?: TravelFacts;
+  // Budget total in the list's currency; null if unknown or not convertible
+  converted_total?: number | null;
 }
 
 interface GeocodingResult {
   latitude: number;
   longitude: number;
   displayName: string;
+  osmType?: string;
+  osmId?: number;
+}
+
+interface GeocodingResponse {
+  candidates: GeocodingResult[];
+  // Set when the server answered from its offline gazetteer
+  offline: boolean;
+}
+
+// The place a destination's coordinates came from; null when pinned by hand
+interface PlaceReference {
+  place_name: string;
+  osm_type: string | null;
+  osm_id: number | null;
+}
+
+const CANDIDATE_LIMIT = 5;
+
+const SORT_OPTIONS = [
+  { value: 'rank', label: '🏆 Rank' },
+  { value: 'created_at', label: '🆕 Recently added' },
+  { value: 'updated_at', label: '✏️ Recently updated' },
+  { value: 'distance', label: '📏 Distance from home' },
+  { value: 'flight_time', label: '✈️ Flight time' },
+  { value: 'time_difference', label: '🕐 Time difference' },
+  { value: 'budget_total', label: '💵 Budget total' },
+];
+
+const PAGE_SIZE = 50;
+
+const COUNTRY_MODE_OPTIONS: { value: CountryMode; label: string }[] = [
+  { value: 'count', label: '🔢 Destinations per country' },
+  { value: 'visited', label: '✅ Visited vs wished' },
+  { value: 'rank', label: '🏆 Best rank per country' },
+  { value: 'none', label: '⬜ Plain map' },
+];
+
+interface Coverage {
+  countries: CountryStats[];
+  unresolved: number;
+  visited_countries: number;
+  world_countries: number;
+}
+
+interface ListFilters {
+  q: string;
+  country: string;
+  // Set by clicking a country on the map
+  country_code: string;
+  timeline: string;
+  status: string;
+  sort: string;
+}
+
+const DEFAULT_FILTERS: ListFilters = { q: '', country: '', country_code: '', timeline: '', status: '', sort: 'rank' };
+
+// Build the GET /api/wishlist query string for the current filters
+function listQueryString(filters: ListFilters, offset: number): string {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  if (filters.country.trim()) params.set('country', filters.country.trim());
+  if (filters.country_code) params.set('country_code', filters.country_code);
+  if (filters.timeline) params.set('timeline', filters.timeline);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.sort !== 'rank') params.set('sort', filters.sort);
+  params.set('limit', String(PAGE_SIZE));
+  params.set('offset', String(offset));
+  return params.toString();
 }
 
-const TIMELINE_OPTIONS = [
-  { value: '2025-q1', label: '🌸 Q1 2025 (Jan-Mar)' },
-  { value: '2025-q2', label: '☀️ Q2 2025 (Apr-Jun)' },
-  { value: '2025-q3', label: '🍂 Q3 2025 (Jul-Sep)' },
-  { value: '2025-q4', label: '❄️ Q4 2025 (Oct-Dec)' },
-  { value: '2026', label: '🗓️ 2026' },
+// Filter choices: upcoming or past-due plans, the next few years, or someday
+const TIMELINE_FILTER_OPTIONS = [
+  { value: 'upcoming', label: '⏳ Upcoming' },
+  { value: 'past_due', label: '⚠️ Past due' },
+  ...Array.from({ length: 5 }, (_, i) => {
+    const year = String(new Date().getFullYear() + i);
+    return { value: year, label: `🗓️ ${year}` };
+  }),
   { value: 'someday', label: '✨ Someday' },
 ];
 
-// Geocoding function using OpenStreetMap Nominatim API (free, no API key needed)
-async function geocodeLocation(destination: string, country: string): Promise<GeocodingResult | null> {
+// Geocoding goes through our own /api/geocode route, which caches results and
+// rate-limits calls to OpenStreetMap Nominatim
+async function geocodeLocation(destination: string, country: string): Promise<GeocodingResponse | null> {
   try {
     const query = `${destination}, ${country}`;
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=1`,
-      {
-        headers: {
-          'User-Agent': 'TravelWishlistApp/1.0',
-        },
-      }
-    );
+    const response = await fetch(`/api/geocode?q=${encodeURIComponent(query)}&limit=${CANDIDATE_LIMIT}`);
 
     if (!response.ok) {
       throw new Error('Geocoding request failed');
     }
 
-    const data = await response.json();
-
-    if (data && data.length > 0) {
-      return {
-        latitude: parseFloat(data[0].lat),
-        longitude: parseFloat(data[0].lon),
-        displayName: data[0].display_name,
-      };
-    }
-
-    return null;
+    const data: { candidates: GeocodingResult[]; source: string } = await response.json();
+    return { candidates: data.candidates, offline: data.source === 'gazetteer' };
   } catch (error) {
     console.error('Geocoding error:', error);
     return null;
   }
 }
 
+// Turn an API error body ({ error, fields? }) into a single line for the form
+async function describeError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    if (data.fields) {
+      const details = Object.entries(data.fields).map(([field, message]) => `${field}: ${message}`);
+      return `${data.error || fallback} (${details.join('; ')})`;
+    }
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export default function Home() {
   const [destinations, setDestinations] = useState<TravelDestination[]>([]);
   const [selectedDestination, setSelectedDestination] = useState<TravelDestination | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [error, setError] = useState('');
+  const [loadError, setLoadError] = useState('');
   const [loading, setLoading] = useState(false);
 
+  // List filters; the search box is debounced before it reaches the server
+  const [filters, setFilters] = useState<ListFilters>(DEFAULT_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<ListFilters>(DEFAULT_FILTERS);
+  const [total, setTotal] = useState(0);
+  // Currency the server converted budget totals into
+  const [listCurrency, setListCurrency] = useState('USD');
+
+  // Home and extra origins; flights depart from the chosen one
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [flightOriginIndex, setFlightOriginIndex] = useState(0);
+  // Trips panel, and the route of the trip drawn on the map instead of a flight
+  const [showTrips, setShowTrips] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [exportFlights, setExportFlights] = useState(false);
+  const [tripRoute, setTripRoute] = useState<Origin[] | null>(null);
+
   // Geocoding state
   const [geocodingStatus, setGeocodingStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [coordinates, setCoordinates] = useState<{ lat: number; lon: number } | null>(null);
   const [locationPreview, setLocationPreview] = useState('');
+  const [candidates, setCandidates] = useState<GeocodingResult[]>([]);
+  const [placeReference, setPlaceReference] = useState<PlaceReference | null>(null);
+  const [showPicker, setShowPicker] = useState(false);
   const geocodeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // "destination, country" the current coordinates belong to, so opening the
+  // edit form doesn't re-geocode and throw away a hand-placed pin
+  const geocodedQueryRef = useRef('');
 
   // Form state
   const [formData, setFormData] = useState({
     destination: '',
     country: '',
     reason: '',
-    timeline: 'someday',
     image_url: '',
   });
+  const [budgetDraft, setBudgetDraft] = useState<BudgetDraft>(EMPTY_BUDGET);
+  const [timelineDraft, setTimelineDraft] = useState<TimelineDraft>(EMPTY_TIMELINE);
+  const [visitDraft, setVisitDraft] = useState<VisitDraft>(EMPTY_VISIT);
+  // Country colouring on the map, over the whole wishlist
+  const [countryMode, setCountryMode] = useState<CountryMode>('count');
+  const [coverage, setCoverage] = useState<Coverage | null>(null);
 
   useEffect(() => {
-    fetchDestinations();
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/settings');
+        if (response.ok) {
+          setSettings(await response.json());
+        } else {
+          setLoadError(await describeError(response, 'Failed to load settings'));
+        }
+      } catch (error) {
+        console.error('Error fetching settings:', error);
+        setLoadError('Could not reach the server');
+      }
+    };
+    loadSettings();
   }, []);
 
+  const origins = settings ? [settings.home, ...settings.extra_origins] : [];
+  const flightOrigin = origins[flightOriginIndex] ?? settings?.home;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedFilters(filters), 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const fetchCoverage = useCallback(async () => {
+    try {
+      const response = await fetch('/api/wishlist/countries');
+      if (response.ok) setCoverage(await response.json());
+    } catch (error) {
+      console.error('Error fetching country coverage:', error);
+    }
+  }, []);
+
+  const fetchDestinations = useCallback(async (offset = 0) => {
+    // Every change to the list reloads its first page, so refresh the map's
+    // country colours alongside it
+    if (offset === 0) fetchCoverage();
+    try {
+      const response = await fetch(`/api/wishlist?${listQueryString(appliedFilters, offset)}`);
+      if (response.ok) {
+        const data: { items: TravelDestination[]; total: number; currency: string } = await response.json();
+        setDestinations(current => (offset > 0 ? [...current, ...data.items] : data.items));
+        setTotal(data.total);
+        setListCurrency(data.currency);
+        setLoadError('');
+        setSelectedDestination(current => current ?? data.items[0] ?? null);
+      } else {
+        // Don't show the empty state when the database is actually down
+        setLoadError(await describeError(response, 'Failed to load destinations'));
+      }
+    } catch (error) {
+      console.error('Error fetching destinations:', error);
+      setLoadError('Could not reach the server');
+    }
+  }, [appliedFilters, fetchCoverage]);
+
+  useEffect(() => {
+    fetchDestinations();
+  }, [fetchDestinations]);
+
+  const handleSettingsSaved = (saved: Settings) => {
+    setSettings(saved);
+    setFlightOriginIndex(0);
+    setShowSettings(false);
+    // Distance sorting is measured from home, so the order may have changed
+    fetchDestinations();
+  };
+
+  // Manual reordering only makes sense on the plain, complete rank order.
+  // Visited items sort after it and can't be moved.
+  const isRankView =
+    appliedFilters.sort === 'rank' &&
+    !appliedFilters.q.trim() &&
+    !appliedFilters.country.trim() &&
+    !appliedFilters.country_code &&
+    !appliedFilters.timeline &&
+    (!appliedFilters.status || appliedFilters.status === 'active');
+
   // Auto-geocode when destination or country changes
   useEffect(() => {
     // Clear previous timeout
@@ -116,20 +326,28 @@ export default function Home() {
       setGeocodingStatus('idle');
       setCoordinates(null);
       setLocationPreview('');
+      setCandidates([]);
+      setPlaceReference(null);
       return;
     }
 
+    const query = `${formData.destination.trim()}, ${formData.country.trim()}`;
+    if (query === geocodedQueryRef.current) return;
+
     // Debounce geocoding requests
     setGeocodingStatus('loading');
     geocodeTimeoutRef.current = setTimeout(async () => {
       const result = await geocodeLocation(formData.destination, formData.country);
-      
-      if (result) {
-        setCoordinates({ lat: result.latitude, lon: result.longitude });
-        setLocationPreview(result.displayName);
+      geocodedQueryRef.current = query;
+
+      if (result && result.candidates.length > 0) {
+        setCandidates(result.candidates);
+        selectCandidate(result.candidates[0], result.offline);
         setGeocodingStatus('success');
       } else {
+        setCandidates([]);
         setCoordinates(null);
+        setPlaceReference(null);
         setLocationPreview('');
         setGeocodingStatus('error');
       }
@@ -142,21 +360,24 @@ export default function Home() {
     };
   }, [formData.destination, formData.country]);
 
-  const fetchDestinations = async () => {
-    try {
-      const response = await fetch('/api/wishlist');
-      if (response.ok) {
-        const data = await response.json();
-        setDestinations(data);
-        if (data.length > 0 && !selectedDestination) {
-          setSelectedDestination(data[0]);
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching destinations:', error);
-    }
+  const selectCandidate = (candidate: GeocodingResult, offline = false) => {
+    setCoordinates({ lat: candidate.latitude, lon: candidate.longitude });
+    setPlaceReference({
+      place_name: candidate.displayName,
+      osm_type: candidate.osmType ?? null,
+      osm_id: candidate.osmId ?? null,
+    });
+    setLocationPreview(offline ? `${candidate.displayName} (offline match)` : candidate.displayName);
   };
 
+  // A pin dropped or dragged on the mini map overrides any geocoder match
+  const handlePinChange = useCallback((location: { latitude: number; longitude: number }) => {
+    setCoordinates({ lat: location.latitude, lon: location.longitude });
+    setPlaceReference(null);
+    setLocationPreview('Pinned manually on the map');
+    setGeocodingStatus('success');
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -174,16 +395,20 @@ export default function Home() {
     setLoading(true);
 
     try {
+      // New destinations are appended by the server; edits keep their rank
       const payload = {
-        rank: editingId ? destinations.find(d => d.id === editingId)?.rank : destinations.length + 1,
         destination: formData.destination,
         country: formData.country,
         latitude: coordinates.lat,
         longitude: coordinates.lon,
         reason: formData.reason,
-        budget: 'moderate',
-        timeline: formData.timeline,
+        ...budgetPayload(budgetDraft),
+        timeline: timelinePayload(timelineDraft),
+        ...visitPayload(visitDraft),
         image_url: formData.image_url,
+        place_name: placeReference?.place_name ?? null,
+        osm_type: placeReference?.osm_type ?? null,
+        osm_id: placeReference?.osm_id ?? null,
       };
 
       if (editingId) {
@@ -197,7 +422,7 @@ export default function Home() {
           await fetchDestinations();
           resetForm();
         } else {
-          setError('Failed to update destination');
+          setError(await describeError(response, 'Failed to update destination'));
         }
       } else {
         const response = await fetch('/api/wishlist', {
@@ -210,7 +435,7 @@ export default function Home() {
           await fetchDestinations();
           resetForm();
         } else {
-          setError('Failed to add destination');
+          setError(await describeError(response, 'Failed to add destination'));
         }
       }
     } catch (error) {
@@ -227,17 +452,39 @@ export default function Home() {
       destination: dest.destination,
       country: dest.country,
       reason: dest.reason,
-      timeline: dest.timeline,
       image_url: dest.image_url || '',
     });
+    setTimelineDraft(draftFromTimeline(dest));
+    setVisitDraft(draftFromVisit(dest));
+    const amount = (value: number | null) => (value === null ? '' : String(value));
+    setBudgetDraft({
+      budget: dest.budget || EMPTY_BUDGET.budget,
+      cost_flights: amount(dest.cost_flights),
+      cost_lodging: amount(dest.cost_lodging),
+      cost_food: amount(dest.cost_food),
+      cost_activities: amount(dest.cost_activities),
+      trip_days: amount(dest.trip_days),
+      currency: dest.currency,
+    });
     // Set existing coordinates
+    geocodedQueryRef.current = `${dest.destination.trim()}, ${dest.country.trim()}`;
     setCoordinates({ lat: dest.latitude, lon: dest.longitude });
+    setCandidates([]);
+    setPlaceReference(
+      dest.place_name ? { place_name: dest.place_name, osm_type: dest.osm_type, osm_id: dest.osm_id } : null
+    );
     setGeocodingStatus('success');
-    setLocationPreview(`${dest.destination}, ${dest.country}`);
+    setLocationPreview(dest.place_name || `${dest.destination}, ${dest.country}`);
     setShowForm(true);
     setError('');
   };
 
+  // Opens the edit form with the status switched, ready for dates and a rating
+  const handleMarkVisited = (dest: TravelDestination) => {
+    handleEdit(dest);
+    setVisitDraft({ ...draftFromVisit(dest), status: 'visited' });
+  };
+
   const handleDelete = async (id: number) => {
     if (!confirm('Are you sure you want to delete this destination?')) return;
 
@@ -265,68 +512,66 @@ export default function Home() {
       destination: '',
       country: '',
       reason: '',
-      timeline: 'someday',
       image_url: '',
     });
+    setBudgetDraft(EMPTY_BUDGET);
+    setTimelineDraft(EMPTY_TIMELINE);
+    setVisitDraft(EMPTY_VISIT);
     setEditingId(null);
     setShowForm(false);
     setError('');
     setCoordinates(null);
     setGeocodingStatus('idle');
     setLocationPreview('');
+    setCandidates([]);
+    setPlaceReference(null);
+    setShowPicker(false);
+    geocodedQueryRef.current = '';
   };
 
-  const moveUp = async (index: number) => {
-    if (index === 0) return;
-    const newDests = [...destinations];
-    const temp = newDests[index];
-    newDests[index] = newDests[index - 1];
-    newDests[index - 1] = temp;
-    
-    // Update ranks
-    const ranks = newDests.map((d, i) => ({ id: d.id, rank: i + 1 }));
-    
+  // The move endpoint renumbers on the server. Its response is bare rows, so
+  // reload the list to get facts and converted totals for the current filters.
+  // Neighbours are addressed by id so this works on a partially loaded list.
+  const moveRelative = async (id: number, target: { before: number } | { after: number }) => {
     try {
-      await fetch('/api/wishlist', {
-        method: 'PATCH',
+      const response = await fetch(`/api/wishlist/${id}/move`, {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ranks }),
+        body: JSON.stringify(target),
       });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        console.error('Error moving destination:', data.error);
+      }
       await fetchDestinations();
     } catch (error) {
-      console.error('Error updating ranks:', error);
+      console.error('Error moving destination:', error);
     }
   };
 
+  const moveUp = async (index: number) => {
+    if (index === 0) return;
+    await moveRelative(destinations[index].id, { before: destinations[index - 1].id });
+  };
+
+  const isLastRanked = (index: number) =>
+    index === destinations.length - 1 || destinations[index + 1].status === 'visited';
+
   const moveDown = async (index: number) => {
-    if (index === destinations.length - 1) return;
-    const newDests = [...destinations];
-    const temp = newDests[index];
-    newDests[index] = newDests[index + 1];
-    newDests[index + 1] = temp;
-    
-    // Update ranks
-    const ranks = newDests.map((d, i) => ({ id: d.id, rank: i + 1 }));
-    
-    try {
-      await fetch('/api/wishlist', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ranks }),
-      });
-      await fetchDestinations();
-    } catch (error) {
-      console.error('Error updating ranks:', error);
-    }
+    if (isLastRanked(index)) return;
+    await moveRelative(destinations[index].id, { after: destinations[index + 1].id });
   };
 
   const handleSelectDestination = useCallback((dest: TravelDestination) => {
     setSelectedDestination(dest);
   }, []);
 
-  const getTimelineInfo = (timeline: string) => {
-    return TIMELINE_OPTIONS.find(t => t.value === timeline) || TIMELINE_OPTIONS[5];
-  };
+  const handleSelectCountry = useCallback((code: string) => {
+    setFilters(current => ({ ...current, country_code: code }));
+  }, []);
+
+  const filteredCountry = coverage?.countries.find(c => c.code === filters.country_code);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-indigo-950 to-slate-900">
@@ -344,7 +589,7 @@ export default function Home() {
             Travel Wishlist
           </h1>
           <p className="mt-3 text-lg text-slate-400 font-light">
-            Your dream destinations, ranked and mapped from San Francisco
+            Your dream destinations, ranked and mapped from {settings?.home.name ?? 'home'}
           </p>
         </div>
 
@@ -353,9 +598,35 @@ export default function Home() {
           <div className="flex items-center gap-3 mb-4 px-2">
             <div className="flex items-center gap-2">
               <div className="w-3 h-3 rounded-full bg-cyan-400 animate-pulse"></div>
-              <span className="text-slate-300 text-sm">San Francisco (Origin)</span>
+              {origins.length > 1 ? (
+                <select
+                  value={flightOriginIndex}
+                  onChange={(e) => setFlightOriginIndex(Number(e.target.value))}
+                  className="rounded-lg border border-slate-600 bg-slate-700/50 px-2 py-1 text-sm text-slate-300 focus:border-cyan-500 focus:outline-none"
+                  title="Fly from"
+                >
+                  {origins.map((origin, index) => (
+                    <option key={index} value={index}>
+                      {origin.name}{index === 0 ? ' (Home)' : ''}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-slate-300 text-sm">{settings?.home.name ?? 'Home'} (Origin)</span>
+              )}
             </div>
-            {selectedDestination && (
+            {tripRoute ? (
+              <>
+                <span className="text-slate-600">→</span>
+                <span className="text-amber-300 text-sm font-medium">
+                  🧳 {tripRoute.slice(1).map(stop =>
+                    stop.latitude === tripRoute[0].latitude && stop.longitude === tripRoute[0].longitude
+                      ? 'home'
+                      : stop.name.split(',')[0]
+                  ).join(' → ')}
+                </span>
+              </>
+            ) : selectedDestination && (
               <>
                 <span className="text-slate-600">→</span>
                 <div className="flex items-center gap-2">
@@ -366,17 +637,94 @@ export default function Home() {
                 </div>
               </>
             )}
+            <select
+              value={countryMode}
+              onChange={(e) => setCountryMode(e.target.value as CountryMode)}
+              className="ml-auto rounded-lg border border-slate-600 bg-slate-700/50 px-2 py-1 text-sm text-slate-300 focus:border-cyan-500 focus:outline-none"
+              title="Colour countries by"
+            >
+              {COUNTRY_MODE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {settings ? (
+            <WorldMap
+              destinations={destinations}
+              selectedDestination={selectedDestination}
+              onSelectDestination={handleSelectDestination}
+              home={settings.home}
+              extraOrigins={settings.extra_origins}
+              flightOrigin={flightOrigin}
+              countryStats={coverage?.countries}
+              countryMode={countryMode}
+              onSelectCountry={handleSelectCountry}
+              route={tripRoute}
+            />
+          ) : (
+            <div className="w-full h-[400px] lg:h-[500px] rounded-2xl bg-slate-800 animate-pulse" />
+          )}
+          {coverage && coverage.countries.length > 0 && (
+            <p className="mt-3 px-2 text-sm text-slate-400">
+              🌍 {coverage.countries.length} {coverage.countries.length === 1 ? 'country' : 'countries'} on your list
+              {' · '}✅ {coverage.visited_countries} visited
+              {' '}({((coverage.visited_countries / coverage.world_countries) * 100).toFixed(1)}% of {coverage.world_countries} countries and territories)
+              {coverage.unresolved > 0 && (
+                <span className="text-slate-500" title="Their country didn't match a known name">
+                  {' · '}{coverage.unresolved} not on the map
+                </span>
+              )}
+              <span className="text-slate-500"> · Click a country to filter the list</span>
+            </p>
+          )}
+          <div className="mt-2 flex flex-wrap items-center gap-2 px-2 text-sm text-slate-400">
+            <span>⬇️ Download for Google Earth, QGIS or GPS apps:</span>
+            {(['geojson', 'kml', 'gpx'] as const).map((format) => (
+              <a
+                key={format}
+                href={`/api/wishlist/export/${format}${exportFlights ? '?flights=true' : ''}`}
+                download
+                className="rounded-lg border border-slate-600 px-2 py-0.5 text-xs uppercase text-slate-300 hover:bg-slate-700"
+              >
+                {format}
+              </a>
+            ))}
+            <label className="flex items-center gap-1 text-xs text-slate-500">
+              <input
+                type="checkbox"
+                checked={exportFlights}
+                onChange={(e) => setExportFlights(e.target.checked)}
+              />
+              with flight lines from home
+            </label>
           </div>
-          <WorldMap
-            destinations={destinations}
-            selectedDestination={selectedDestination}
-            onSelectDestination={handleSelectDestination}
-          />
         </div>
 
 
         {/* Add Button */}
-        <div className="mb-6 flex justify-end">
+        <div className="mb-6 flex justify-end gap-3">
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            disabled={!settings}
+            className="rounded-full border border-slate-600 px-5 py-3 font-medium text-slate-300 transition-colors hover:bg-slate-700 disabled:opacity-50"
+          >
+            ⚙️ Settings
+          </button>
+          <button
+            onClick={() => {
+              if (showTrips) setTripRoute(null);
+              setShowTrips(!showTrips);
+            }}
+            className="rounded-full border border-slate-600 px-5 py-3 font-medium text-slate-300 transition-colors hover:bg-slate-700"
+          >
+            🧳 Trips
+          </button>
+          <button
+            onClick={() => setShowCsvImport(!showCsvImport)}
+            className="rounded-full border border-slate-600 px-5 py-3 font-medium text-slate-300 transition-colors hover:bg-slate-700"
+          >
+            📄 Import CSV
+          </button>
           <button
             onClick={() => setShowForm(!showForm)}
             className="group flex items-center gap-2 rounded-full bg-gradient-to-r from-cyan-500 to-purple-500 px-6 py-3 font-semibold text-white shadow-lg shadow-purple-500/25 transition-all hover:shadow-xl hover:shadow-purple-500/40 hover:scale-105"
@@ -386,6 +734,25 @@ export default function Home() {
           </button>
         </div>
 
+        {showSettings && settings && (
+          <SettingsPanel
+            settings={settings}
+            onSaved={handleSettingsSaved}
+            onClose={() => setShowSettings(false)}
+            onRatesSaved={() => fetchDestinations()}
+            onImported={() => fetchDestinations()}
+            onCalendarChanged={(calendar_private) => setSettings(current => current && { ...current, calendar_private })}
+          />
+        )}
+
+        {showTrips && (
+          <TripPlanner onShowRoute={setTripRoute} onClose={() => setShowTrips(false)} />
+        )}
+
+        {showCsvImport && (
+          <CsvImport onImported={() => fetchDestinations()} onClose={() => setShowCsvImport(false)} />
+        )}
+
         {/* Add/Edit Form */}
         {showForm && (
           <div className="mb-8 rounded-3xl bg-slate-800/70 backdrop-blur-xl border border-slate-700/50 p-6 shadow-2xl animate-in slide-in-from-top duration-300">
@@ -456,27 +823,76 @@ export default function Home() {
                   {geocodingStatus === 'error' && (
                     <>
                       <span className="text-xl">❌</span>
-                      <span className="text-red-300 text-sm">Could not find this location. Try a different spelling or nearby city.</span>
+                      <span className="text-red-300 text-sm">Could not find this location. Try a different spelling, or place the pin on the map.</span>
                     </>
                   )}
                 </div>
               </div>
 
+              {/* Alternative geocoding matches */}
+              {candidates.length > 1 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-slate-400">Did you mean…</p>
+                  {candidates.map((candidate, index) => {
+                    const selected = placeReference?.place_name === candidate.displayName;
+                    return (
+                      <button
+                        key={`${candidate.osmType ?? 'place'}-${candidate.osmId ?? index}`}
+                        type="button"
+                        onClick={() => selectCandidate(candidate)}
+                        className={`w-full text-left rounded-lg px-3 py-2 text-xs transition-colors ${
+                          selected
+                            ? 'bg-cyan-900/40 border border-cyan-500/60 text-cyan-200'
+                            : 'bg-slate-700/40 border border-slate-700 text-slate-300 hover:bg-slate-700'
+                        }`}
+                      >
+                        <span className="block truncate">{candidate.displayName}</span>
+                        <span className="text-slate-500 font-mono">
+                          {candidate.latitude.toFixed(4)}°, {candidate.longitude.toFixed(4)}°
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Manual pin placement */}
+              <div>
+                <button
+                  type="button"
+                  onClick={() => setShowPicker(!showPicker)}
+                  className="text-xs text-cyan-400 hover:text-cyan-300 transition-colors"
+                >
+                  {showPicker ? 'Hide map' : '🗺️ Fine-tune on map'}
+                </button>
+                {showPicker && (
+                  <div className="mt-2">
+                    <LocationPicker
+                      value={coordinates ? { latitude: coordinates.lat, longitude: coordinates.lon } : null}
+                      onChange={handlePinChange}
+                    />
+                    <p className="mt-1 text-xs text-slate-500">Click the map or drag the pin to set the exact spot.</p>
+                  </div>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">
                   Timeline
                 </label>
-                <select
-                  value={formData.timeline}
-                  onChange={(e) => setFormData({ ...formData, timeline: e.target.value })}
-                  className="w-full rounded-xl border border-slate-600 bg-slate-700/50 px-4 py-3 text-white focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all"
-                >
-                  {TIMELINE_OPTIONS.map((option) => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
-                    </option>
-                  ))}
-                </select>
+                <TimelineEditor value={timelineDraft} onChange={setTimelineDraft} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Status
+                </label>
+                <VisitLogEditor value={visitDraft} onChange={setVisitDraft} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Budget
+                </label>
+                <BudgetEditor value={budgetDraft} onChange={setBudgetDraft} />
               </div>
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">
@@ -510,7 +926,7 @@ export default function Home() {
               <div className="flex gap-4">
               <button
                 type="submit"
-                  disabled={loading || geocodingStatus === 'loading' || geocodingStatus === 'error'}
+                  disabled={loading || geocodingStatus === 'loading' || !coordinates}
                   className="flex-1 rounded-xl bg-gradient-to-r from-cyan-500 to-purple-500 px-6 py-3 font-semibold text-white transition-all hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                   {loading ? 'Saving...' : editingId ? 'Update Destination' : 'Add to Wishlist'}
@@ -527,9 +943,90 @@ export default function Home() {
         </div>
         )}
 
+        {/* Filters */}
+        <div className="mb-6 grid grid-cols-1 gap-3 md:grid-cols-5">
+          <input
+            type="search"
+            value={filters.q}
+            onChange={(e) => setFilters({ ...filters, q: e.target.value })}
+            placeholder="🔎 Search destinations, countries, reasons"
+            className="rounded-xl border border-slate-600 bg-slate-700/50 px-4 py-2 text-white placeholder-slate-400 focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all"
+          />
+          <input
+            type="text"
+            value={filters.country}
+            onChange={(e) => setFilters({ ...filters, country: e.target.value })}
+            placeholder="📍 Country"
+            className="rounded-xl border border-slate-600 bg-slate-700/50 px-4 py-2 text-white placeholder-slate-400 focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all"
+          />
+          <select
+            value={filters.timeline}
+            onChange={(e) => setFilters({ ...filters, timeline: e.target.value })}
+            className="rounded-xl border border-slate-600 bg-slate-700/50 px-4 py-2 text-white focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all"
+          >
+            <option value="">🗓️ Any timeline</option>
+            {TIMELINE_FILTER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+            className="rounded-xl border border-slate-600 bg-slate-700/50 px-4 py-2 text-white focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all"
+          >
+            <option value="">📋 Any status</option>
+            <option value="active">🎯 Not yet visited</option>
+            {STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.sort}
+            onChange={(e) => setFilters({ ...filters, sort: e.target.value })}
+            className="rounded-xl border border-slate-600 bg-slate-700/50 px-4 py-2 text-white focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 transition-all"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                Sort: {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {filters.country_code && (
+          <div className="mb-4 -mt-2">
+            <button
+              onClick={() => setFilters({ ...filters, country_code: '' })}
+              className="inline-flex items-center gap-2 rounded-full bg-cyan-600/20 border border-cyan-500/40 px-4 py-1.5 text-sm text-cyan-300 hover:bg-cyan-600/30"
+              title="Clear country filter"
+            >
+              🗺️ {filteredCountry?.name ?? filters.country_code} ✕
+            </button>
+          </div>
+        )}
+
         {/* Destinations List */}
         <div className="space-y-4">
-          {destinations.length === 0 ? (
+          {loadError && (
+            <div className="rounded-xl bg-red-500/20 border border-red-500/50 p-4 text-red-300">
+              {loadError}
+            </div>
+          )}
+          {loadError && destinations.length === 0 ? null : destinations.length === 0 && !isRankView ? (
+            <div className="rounded-3xl bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 p-12 text-center">
+              <p className="text-slate-400 mb-6">No destinations match these filters.</p>
+              <button
+                onClick={() => setFilters(DEFAULT_FILTERS)}
+                className="rounded-full border border-slate-600 px-6 py-2 text-slate-300 transition-colors hover:bg-slate-700"
+              >
+                Clear filters
+              </button>
+            </div>
+          ) : destinations.length === 0 ? (
             <div className="rounded-3xl bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 p-12 text-center">
               <div className="text-7xl mb-6">🌏</div>
               <h3 className="text-2xl font-bold text-white mb-2">
@@ -559,12 +1056,13 @@ export default function Home() {
                 {/* Rank Badge */}
                 <div className="absolute top-4 left-4 z-10">
                   <div className={`w-12 h-12 rounded-full flex items-center justify-center font-black text-xl shadow-lg ${
-                    index === 0 ? 'bg-gradient-to-br from-amber-400 to-amber-600 text-amber-900' :
-                    index === 1 ? 'bg-gradient-to-br from-slate-300 to-slate-500 text-slate-800' :
-                    index === 2 ? 'bg-gradient-to-br from-amber-600 to-amber-800 text-amber-100' :
+                    dest.rank === null ? 'bg-emerald-600 text-white' :
+                    dest.rank === 1 ? 'bg-gradient-to-br from-amber-400 to-amber-600 text-amber-900' :
+                    dest.rank === 2 ? 'bg-gradient-to-br from-slate-300 to-slate-500 text-slate-800' :
+                    dest.rank === 3 ? 'bg-gradient-to-br from-amber-600 to-amber-800 text-amber-100' :
                     'bg-slate-700 text-slate-300'
                   }`}>
-                    {index + 1}
+                    {dest.rank ?? '✓'}
                   </div>
                 </div>
 
@@ -597,10 +1095,78 @@ export default function Home() {
                           </p>
                         )}
 
+                        {dest.status === 'visited' && dest.notes && (
+                          <p className="text-emerald-200/80 mb-4 leading-relaxed text-sm whitespace-pre-line">
+                            📓 {dest.notes}
+                          </p>
+                        )}
+
                         <div className="flex flex-wrap gap-3">
-                          <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-indigo-500 text-white">
-                            {getTimelineInfo(dest.timeline).label}
+                          {dest.status !== 'wish' && (
+                            <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium ${
+                              dest.status === 'visited' ? 'bg-emerald-600 text-white' : 'bg-slate-600 text-white'
+                            }`}>
+                              {statusLabel(dest.status)}
+                              {dest.status === 'visited' && dest.visited_start && (
+                                <span className="font-normal">
+                                  {timelineLabel({
+                                    timeline_kind: 'dates',
+                                    timeline_start: dest.visited_start,
+                                    timeline_end: dest.visited_end ?? dest.visited_start,
+                                  })}
+                                </span>
+                              )}
+                            </span>
+                          )}
+                          {dest.status === 'visited' && dest.rating !== null && (
+                            <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm bg-slate-700 text-amber-300" title={`${dest.rating} of 5`}>
+                              {ratingStars(dest.rating)}
+                            </span>
+                          )}
+                          {dest.status !== 'visited' && (
+                            <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-indigo-500 text-white">
+                              {dest.timeline_kind === 'someday' ? '✨' : '🗓️'} {timelineLabel(dest)}
+                            </span>
+                          )}
+                          {isPastDue(dest) && (
+                            <span
+                              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-amber-500/20 text-amber-300 border border-amber-500/40"
+                              title="The planned dates have passed"
+                            >
+                              ⚠️ Past due
+                            </span>
+                          )}
+                          <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm bg-slate-700 text-slate-300">
+                            {budgetLabel(dest.budget)}
+                            {budgetTotal(dest) !== null && (
+                              <span className="font-semibold text-white">
+                                {formatMoney(budgetTotal(dest)!, dest.currency)}
+                                {dest.currency !== listCurrency && (
+                                  <span className="font-normal text-slate-400">
+                                    {' '}
+                                    ≈ {dest.converted_total != null ? formatMoney(dest.converted_total, listCurrency) : `? ${listCurrency}`}
+                                  </span>
+                                )}
+                                {dest.trip_days ? ` · ${dest.trip_days} days` : ''}
+                              </span>
+                            )}
                           </span>
+                          {dest.facts && (
+                            <>
+                              <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm bg-slate-700 text-slate-300">
+                                📏 {formatDistance(dest.facts.distance_km)}
+                              </span>
+                              <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm bg-slate-700 text-slate-300">
+                                ✈️ ~{formatFlightTime(dest.facts.flight_minutes)}
+                              </span>
+                              <span
+                                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm bg-slate-700 text-slate-300"
+                                title={dest.facts.time_zone}
+                              >
+                                🕐 {formatTimeDifference(dest.facts.time_difference_minutes)}
+                              </span>
+                            </>
+                          )}
                         </div>
                       </div>
 
@@ -608,7 +1174,7 @@ export default function Home() {
                       <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
                         <button
                           onClick={() => moveUp(index)}
-                          disabled={index === 0}
+                          disabled={!isRankView || index === 0 || dest.rank === null}
                           className="p-2 rounded-lg bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
                           title="Move up"
                         >
@@ -616,12 +1182,21 @@ export default function Home() {
                         </button>
                         <button
                           onClick={() => moveDown(index)}
-                          disabled={index === destinations.length - 1}
+                          disabled={!isRankView || isLastRanked(index) || dest.rank === null}
                           className="p-2 rounded-lg bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
                           title="Move down"
                         >
                           ↓
                         </button>
+                        {dest.status !== 'visited' && (
+                          <button
+                            onClick={() => handleMarkVisited(dest)}
+                            className="p-2 rounded-lg bg-emerald-600/20 text-emerald-400 hover:bg-emerald-600/30 transition-colors"
+                            title="Mark visited"
+                          >
+                            ✅
+                          </button>
+                        )}
                     <button
                           onClick={() => handleEdit(dest)}
                           className="p-2 rounded-lg bg-cyan-600/20 text-cyan-400 hover:bg-cyan-600/30 transition-colors"
@@ -652,9 +1227,20 @@ export default function Home() {
           )}
         </div>
 
+        {destinations.length < total && (
+          <div className="mt-6 flex justify-center">
+            <button
+              onClick={() => fetchDestinations(destinations.length)}
+              className="rounded-full border border-slate-600 px-6 py-2 text-slate-300 transition-colors hover:bg-slate-700"
+            >
+              Load more ({total - destinations.length} remaining)
+            </button>
+          </div>
+        )}
+
         {/* Footer */}
         <div className="mt-12 text-center text-slate-500 text-sm">
-          <p>✈️ Dreaming from San Francisco • {destinations.length} destination{destinations.length !== 1 ? 's' : ''} on your list</p>
+          <p>✈️ Dreaming from {settings?.home.name ?? 'home'} • {total} destination{total !== 1 ? 's' : ''} on your list</p>
         </div>
       </div>
     </div>
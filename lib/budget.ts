@@ -0,0 +1,48 @@
+// Structured trip budgets. Safe to import client-side.
+
+export const BUDGET_CATEGORIES = ['flights', 'lodging', 'food', 'activities'] as const;
+export type BudgetCategory = (typeof BUDGET_CATEGORIES)[number];
+
+export type BudgetTier = 'budget' | 'moderate' | 'luxury' | 'ultra-luxury';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Upper bounds of daily spend, in USD, for every tier but the last
+const TIER_LIMITS_PER_DAY: [BudgetTier, number][] = [
+  ['budget', 150],
+  ['moderate', 400],
+  ['luxury', 1000],
+];
+
+// The per-category estimates as stored on a destination; null means unknown
+export interface BudgetFields {
+  cost_flights: number | null;
+  cost_lodging: number | null;
+  cost_food: number | null;
+  cost_activities: number | null;
+  trip_days: number | null;
+  currency: string;
+}
+
+// Sum of the categories that have an estimate, or null if none do
+export function budgetTotal(fields: Partial<BudgetFields>): number | null {
+  const amounts = BUDGET_CATEGORIES.map(category => fields[`cost_${category}`]).filter(
+    (amount): amount is number => typeof amount === 'number'
+  );
+  if (amounts.length === 0) return null;
+  return Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100;
+}
+
+// Tier from the average spend per day. totalUsd must already be in USD.
+// Callers only derive a tier once the trip length is known.
+export function deriveBudgetTier(totalUsd: number, tripDays: number): BudgetTier {
+  const perDay = totalUsd / Math.max(1, tripDays);
+  for (const [tier, limit] of TIER_LIMITS_PER_DAY) {
+    if (perDay < limit) return tier;
+  }
+  return 'ultra-luxury';
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+}
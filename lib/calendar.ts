@@ -0,0 +1,110 @@
+import { randomBytes } from 'crypto';
+import type { TravelDestination } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Identifies this app's events; UIDs must stay the same for a destination
+// so subscribed calendars update it rather than adding a copy
+const UID_DOMAIN = 'travel-wishlist';
+
+// Secret for the feed's ?token=: 24 random bytes, base64url-encoded
+export function newCalendarToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// Planned or booked trips with exact dates. A month, season or year is only
+// a rough window, and an all-day event across all of it would block the
+// whole range, so those stay out along with someday plans, wishes and visits.
+export function isCalendarEvent(item: TravelDestination): boolean {
+  return (
+    (item.status === 'planned' || item.status === 'booked') &&
+    item.timeline_kind === 'dates' &&
+    item.timeline_start !== null &&
+    item.timeline_end !== null
+  );
+}
+
+// TEXT values escape backslashes, semicolons, commas and newlines
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space.
+// Folds fall between characters so multi-byte ones stay whole.
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines spend one octet on the leading space
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function dateValue(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+// All-day events end on the day after the last one
+function dayAfter(isoDate: string): string {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10);
+}
+
+// SQLite stores UTC timestamps as "2026-10-19 08:30:00"
+function utcStamp(value: string | null | undefined, fallback: Date): string {
+  const text = value && /^\d{4}-\d\d-\d\d \d\d:\d\d:\d\d$/.test(value) ? `${value.replace(' ', 'T')}Z` : value;
+  const date = text ? new Date(text) : fallback;
+  const valid = Number.isNaN(date.getTime()) ? fallback : date;
+  return valid.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function event(item: TravelDestination, now: Date): string[] {
+  const place = `${item.destination}, ${item.country}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:destination-${item.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${utcStamp(item.updated_at, now)}`,
+    `LAST-MODIFIED:${utcStamp(item.updated_at, now)}`,
+    `DTSTART;VALUE=DATE:${dateValue(item.timeline_start!)}`,
+    `DTEND;VALUE=DATE:${dateValue(dayAfter(item.timeline_end!))}`,
+    `SUMMARY:${escapeText(`✈️ ${place}`)}`,
+    `LOCATION:${escapeText(item.place_name || place)}`,
+    `GEO:${Number(item.latitude)};${Number(item.longitude)}`,
+    `STATUS:${item.status === 'booked' ? 'CONFIRMED' : 'TENTATIVE'}`,
+    // Free time: a trip shouldn't block every meeting invite in its range
+    'TRANSP:TRANSPARENT',
+  ];
+  if (item.reason) {
+    lines.push(`DESCRIPTION:${escapeText(item.reason)}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// An iCalendar (RFC 5545) document with an all-day event per planned or
+// booked trip with exact dates, for calendar apps to subscribe to
+export function calendarFeed(items: TravelDestination[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Travel Wishlist//Trips//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Travel Wishlist',
+    // Ask subscribers to refresh every few hours
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+    ...items.filter(isCalendarEvent).flatMap(item => event(item, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,90 @@
+import countries2 from '@amcharts/amcharts4-geodata/data/countries2';
+
+// Lowercase, strip accents and punctuation: "Côte d'Ivoire" -> "cote divoire"
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Names people actually type that differ from the geodata's official ones
+const ALIASES: Record<string, string> = {
+  usa: 'US',
+  'united states of america': 'US',
+  america: 'US',
+  uk: 'GB',
+  england: 'GB',
+  scotland: 'GB',
+  wales: 'GB',
+  'great britain': 'GB',
+  holland: 'NL',
+  'the netherlands': 'NL',
+  'south korea': 'KR',
+  korea: 'KR',
+  'north korea': 'KP',
+  russia: 'RU',
+  vietnam: 'VN',
+  'czech republic': 'CZ',
+  czechia: 'CZ',
+  uae: 'AE',
+  'ivory coast': 'CI',
+  burma: 'MM',
+  laos: 'LA',
+  bolivia: 'BO',
+  venezuela: 'VE',
+  iran: 'IR',
+  syria: 'SY',
+  tanzania: 'TZ',
+  taiwan: 'TW',
+  'vatican city': 'VA',
+};
+
+let byName: Map<string, string> | null = null;
+
+function nameIndex(): Map<string, string> {
+  if (!byName) {
+    byName = new Map();
+    for (const [code, info] of Object.entries(countries2)) {
+      byName.set(normalizeName(info.country), code);
+    }
+    for (const [alias, code] of Object.entries(ALIASES)) {
+      byName.set(alias, code);
+    }
+  }
+  return byName;
+}
+
+// Every alpha-2 code in the map geodata, territories included
+export function countryCodes(): string[] {
+  return Object.keys(countries2);
+}
+
+// ISO 3166-1 alpha-2 code -> English name, e.g. "JP" -> "Japan"
+export function countryName(code: string): string | undefined {
+  return (countries2 as Record<string, { country: string }>)[code.toUpperCase()]?.country;
+}
+
+// Resolve free-text country input ("Japan", "jp", "USA", "Cote d'Ivoire") to
+// an ISO alpha-2 code. Falls back to a unique name prefix ("Switz" -> "CH").
+export function resolveCountryCode(input: string): string | undefined {
+  const normalized = normalizeName(input);
+  if (!normalized) return undefined;
+
+  if (/^[a-z]{2}$/.test(normalized) && countryName(normalized)) {
+    return normalized.toUpperCase();
+  }
+
+  const index = nameIndex();
+  const exact = index.get(normalized);
+  if (exact) return exact;
+
+  const prefixed = new Set<string>();
+  for (const [name, code] of index) {
+    if (name.startsWith(normalized)) prefixed.add(code);
+  }
+  return prefixed.size === 1 ? [...prefixed][0] : undefined;
+}
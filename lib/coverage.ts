@@ -0,0 +1,41 @@
+import { countryCodes, countryName } from './countries';
+import type { CountryStats, CoverageSummary, TravelDestination } from './types';
+
+// Per-country counts over the whole wishlist, ordered by country name.
+// Entries whose country text never resolved are only counted.
+export function countryCoverage(items: TravelDestination[]): CoverageSummary {
+  const byCode = new Map<string, CountryStats>();
+  let unresolved = 0;
+
+  for (const item of items) {
+    if (!item.country_code) {
+      unresolved++;
+      continue;
+    }
+    let stats = byCode.get(item.country_code);
+    if (!stats) {
+      stats = {
+        code: item.country_code,
+        name: countryName(item.country_code) ?? item.country,
+        count: 0,
+        visited: 0,
+        top_rank: null,
+      };
+      byCode.set(item.country_code, stats);
+    }
+    stats.count++;
+    if (item.status === 'visited') {
+      stats.visited++;
+    } else if (item.rank !== null && (stats.top_rank === null || item.rank < stats.top_rank)) {
+      stats.top_rank = item.rank;
+    }
+  }
+
+  const countries = [...byCode.values()].sort((a, b) => a.name.localeCompare(b.name));
+  return {
+    countries,
+    unresolved,
+    visited_countries: countries.filter(c => c.visited > 0).length,
+    world_countries: countryCodes().length,
+  };
+}
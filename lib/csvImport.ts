@@ -0,0 +1,206 @@
+import { parseCsv } from './csv';
+import { getAll, importWishlist } from './db';
+import { GeocoderUnavailableError, ValidationError, type FieldErrors } from './errors';
+import { geocode } from './geocode';
+import type { CsvColumns, CsvField, CsvImportReport, CsvImportRow, CsvPlace, NewTravelDestination } from './types';
+import { CSV_IMPORT_FIELDS, MAX_IMPORT_DESTINATIONS, validateDestination } from './validation';
+import { destinationKey } from './wishlistExport';
+
+// Geocoder lookups per request. They run one at a time and Nominatim spaces
+// them a second apart, so this keeps each request to about ten seconds; rows
+// past it are reported as pending for the next request. Cache hits are free.
+export const MAX_CSV_LOOKUPS = 10;
+
+// Headers recognised without a mapping, compared lower-case with spaces,
+// dashes and underscores dropped
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  destination: ['destination', 'city', 'place', 'name'],
+  country: ['country', 'nation'],
+  reason: ['reason', 'why', 'description'],
+  timeline: ['timeline', 'when'],
+  budget: ['budget', 'tier'],
+  image_url: ['imageurl', 'image', 'photo', 'picture'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng', 'long'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+// The header each field is read from: the mapping where given, otherwise a
+// header matching one of the field's aliases
+function resolveColumns(headers: string[], mapping: CsvColumns): Record<CsvField, string | null> {
+  const normalized = headers.map(normalizeHeader);
+  const fields: FieldErrors = {};
+  const columns = {} as Record<CsvField, string | null>;
+  for (const field of CSV_IMPORT_FIELDS) {
+    const mapped = mapping[field];
+    if (mapped === undefined) {
+      const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+      columns[field] = index === -1 ? null : headers[index];
+    } else if (mapped !== null && !headers.includes(mapped)) {
+      fields[`columns.${field}`] = `No column named "${mapped}"`;
+    } else {
+      columns[field] = mapped;
+    }
+  }
+  for (const field of ['destination', 'country'] as const) {
+    if (columns[field] === null && !fields[`columns.${field}`]) {
+      fields[`columns.${field}`] = 'Is required; map it to one of the columns';
+    }
+  }
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid column mapping', fields);
+  }
+  return columns;
+}
+
+// A POST body for one row. Cells are trimmed; tiers and timeline options are
+// matched without regard to case.
+function rowInput(cell: (field: CsvField) => string): Record<string, unknown> {
+  const coordinate = (value: string) => (value === '' ? '' : Number(value));
+  return {
+    destination: cell('destination'),
+    country: cell('country'),
+    reason: cell('reason'),
+    timeline: cell('timeline').toLowerCase(),
+    budget: cell('budget').toLowerCase(),
+    image_url: cell('image_url'),
+    latitude: coordinate(cell('latitude')),
+    longitude: coordinate(cell('longitude')),
+  };
+}
+
+function describeFields(fields: FieldErrors): string {
+  return Object.entries(fields).map(([name, message]) => `${name}: ${message}`).join('; ');
+}
+
+// Parse a spreadsheet export and add its rows to the end of the wishlist.
+// Rows already on the wishlist or repeated in the file are skipped, and every
+// row is reported. Rows without coordinates take them from places, found by
+// an earlier request, or else are geocoded from "destination, country" until
+// this request's lookups run out; the rest stay pending and aren't written.
+// With dryRun nothing is written.
+export async function importCsv(
+  csv: string,
+  mapping: CsvColumns,
+  places: Map<number, CsvPlace>,
+  dryRun: boolean
+): Promise<CsvImportReport> {
+  const [headerRow, ...data] = parseCsv(csv);
+  if (!headerRow || data.length === 0) {
+    throw new ValidationError('Invalid CSV import', { csv: 'Needs a header row and at least one row' });
+  }
+  if (data.length > MAX_IMPORT_DESTINATIONS) {
+    throw new ValidationError(`At most ${MAX_IMPORT_DESTINATIONS} rows can be imported at once`);
+  }
+  const headers = headerRow.map(header => header.trim());
+  const columns = resolveColumns(headers, mapping);
+  const positions = new Map(CSV_IMPORT_FIELDS.map(field => [field, columns[field] === null ? -1 : headers.indexOf(columns[field]!)]));
+
+  const stored = new Set((await getAll()).map(destinationKey));
+  const seen = new Set<string>();
+  const creates: NewTravelDestination[] = [];
+  const rows: CsvImportRow[] = [];
+  let lookups = 0;
+
+  for (const [index, cells] of data.entries()) {
+    const input = rowInput(field => (cells[positions.get(field)!] ?? '').trim());
+    const row = index + 1;
+    const report = (
+      result: CsvImportRow['result'],
+      message: string | null,
+      item?: NewTravelDestination,
+      place: CsvPlace | null = null
+    ) => {
+      rows.push({
+        row,
+        destination: String(input.destination),
+        country: String(input.country),
+        result,
+        message,
+        latitude: item?.latitude ?? null,
+        longitude: item?.longitude ?? null,
+        place,
+      });
+    };
+
+    // Stand-in coordinates let other problems show before spending a lookup
+    const needsCoordinates = input.latitude === '' && input.longitude === '';
+    let item: NewTravelDestination;
+    try {
+      item = validateDestination(needsCoordinates ? { ...input, latitude: 0, longitude: 0 } : input);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      report('invalid', describeFields(error.fields) || error.message);
+      continue;
+    }
+
+    const key = destinationKey(item);
+    if (stored.has(key) || seen.has(key)) {
+      report('duplicate', stored.has(key) ? 'Already on the wishlist' : 'Repeats an earlier row');
+      continue;
+    }
+
+    let place: CsvPlace | null = null;
+    if (needsCoordinates) {
+      place = places.get(row) ?? null;
+      if (!place) {
+        if (lookups >= MAX_CSV_LOOKUPS) {
+          // Keep its key so a later row repeating it stays a duplicate
+          seen.add(key);
+          report('pending', 'Not looked up yet; send the places found so far to continue');
+          continue;
+        }
+        lookups++;
+        try {
+          const { candidates, cached } = await geocode(`${item.destination}, ${item.country}`, 1);
+          if (cached) lookups--;
+          const [match] = candidates;
+          if (!match) {
+            report('geocode_failed', 'No match found');
+            continue;
+          }
+          place = {
+            latitude: match.latitude,
+            longitude: match.longitude,
+            place_name: match.displayName,
+            osm_type: match.osmType ?? null,
+            osm_id: match.osmId ?? null,
+          };
+        } catch (error) {
+          if (!(error instanceof GeocoderUnavailableError)) throw error;
+          report('geocode_failed', error.message);
+          continue;
+        }
+      }
+      try {
+        item = validateDestination({ ...input, ...place });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        report('geocode_failed', `Unusable match: ${describeFields(error.fields)}`);
+        continue;
+      }
+    }
+
+    seen.add(key);
+    creates.push(item);
+    report('created', item.place_name ?? null, item, place);
+  }
+
+  if (!dryRun && creates.length > 0) {
+    await importWishlist(creates, 'append', false);
+  }
+  return {
+    dry_run: dryRun,
+    headers,
+    columns,
+    created: creates.length,
+    duplicates: rows.filter(row => row.result === 'duplicate').length,
+    geocode_failed: rows.filter(row => row.result === 'geocode_failed').length,
+    invalid: rows.filter(row => row.result === 'invalid').length,
+    pending: rows.filter(row => row.result === 'pending').length,
+    rows,
+  };
+}
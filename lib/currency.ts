@@ -0,0 +1,70 @@
+import { budgetTotal, type BudgetFields } from './budget';
+import { parseCsv } from './csv';
+import { ValidationError } from './errors';
+import type { ExchangeRate, NewExchangeRate } from './types';
+
+// Every stored rate is units of that currency per one US dollar
+export const BASE_CURRENCY = 'USD';
+
+// Convert between currencies through USD. Null when either currency has no
+// rate, so callers can tell "unknown" apart from zero.
+export type Converter = (amount: number, from: string, to: string) => number | null;
+
+export function createConverter(rates: Pick<ExchangeRate, 'currency' | 'per_usd'>[]): Converter {
+  const perUsd = new Map(rates.map(rate => [rate.currency, rate.per_usd]));
+  perUsd.set(BASE_CURRENCY, 1);
+  return (amount, from, to) => {
+    if (from === to) return amount;
+    const fromRate = perUsd.get(from);
+    const toRate = perUsd.get(to);
+    if (fromRate === undefined || toRate === undefined) return null;
+    return Math.round((amount / fromRate) * toRate * 100) / 100;
+  };
+}
+
+// Rows of "currency,per_usd" as raw objects for validateRates. A header row
+// is optional; when present, its columns may be named currency/code and
+// per_usd/rate in any order.
+export function parseRatesCsv(text: string): Partial<NewExchangeRate>[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+
+  let currencyColumn = 0;
+  let rateColumn = 1;
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = Number.isNaN(Number(rows[0][1]));
+  if (hasHeader) {
+    currencyColumn = header.findIndex(name => name === 'currency' || name === 'code');
+    rateColumn = header.findIndex(name => name === 'per_usd' || name === 'rate');
+    if (currencyColumn === -1 || rateColumn === -1) {
+      throw new ValidationError('CSV header must name a currency column and a per_usd (or rate) column');
+    }
+  }
+
+  return rows.slice(hasHeader ? 1 : 0).map(row => ({
+    currency: row[currencyColumn]?.trim(),
+    per_usd: row[rateColumn]?.trim() ? Number(row[rateColumn]) : undefined,
+  }));
+}
+
+// Parse a request body holding rates, as CSV (text/csv) or JSON
+export async function readRates(request: Request): Promise<unknown> {
+  const type = request.headers.get('content-type') ?? '';
+  const text = await request.text();
+  if (type.includes('csv') || type.startsWith('text/plain')) {
+    return parseRatesCsv(text);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError('Request body must be valid JSON or CSV with a text/csv content type');
+  }
+}
+
+// A destination's budget total in another currency; null when it has no
+// estimates or either currency lacks a rate
+export function convertedBudgetTotal(item: Partial<BudgetFields>, convert: Converter, to: string): number | null {
+  const total = budgetTotal(item);
+  if (total === null) return null;
+  return convert(total, item.currency ?? BASE_CURRENCY, to);
+}
@@ -1,269 +1,323 @@
-import Database from 'better-sqlite3';
-import path from 'path';
-
-export interface TravelDestination {
-  id: number;
-  rank: number;
-  destination: string;
-  country: string;
-  latitude: number;
-  longitude: number;
-  reason: string;
-  budget: string;
-  timeline: string;
-  image_url: string | null;
-  created_at: string;
-  updated_at: string;
-}
+import { DEFAULT_CURRENCY, deriveBudgetTier, type BudgetFields } from './budget';
+import { resolveCountryCode } from './countries';
+import { countryCoverage } from './coverage';
+import { convertedBudgetTotal, createConverter, type Converter } from './currency';
+import { NotFoundError, StorageUnavailableError, ValidationError, type FieldErrors } from './errors';
+import { DEFAULT_HOME } from './geo';
+import type { GeocodeCandidate } from './geocode/types';
+import type { MoveTarget } from './ranks';
+import { travelFacts } from './travelFacts';
+import { planRoute } from './routePlanner';
+import { withTripTotals } from './trips';
+import { exportDocument, planImport, type WishlistExport } from './wishlistExport';
+import { getStore, type WishlistStore } from './store';
+import { toStoreError } from './store/errors';
+import type {
+  CoverageSummary,
+  ExchangeRate,
+  ImportMode,
+  ImportSummary,
+  ListQuery,
+  ListResult,
+  NewExchangeRate,
+  NewTravelDestination,
+  NewTrip,
+  Origin,
+  PlannedRoute,
+  PublicSettings,
+  RankUpdate,
+  Settings,
+  TravelDestination,
+  Trip,
+  TripWithTotals,
+} from './types';
+
+export type {
+  CountryStats,
+  CoverageSummary,
+  ExchangeRate,
+  ImportMode,
+  ImportSummary,
+  ListQuery,
+  ListResult,
+  NewExchangeRate,
+  NewTravelDestination,
+  Origin,
+  PlannedRoute,
+  PublicSettings,
+  RankUpdate,
+  Settings,
+  TravelDestination,
+  Trip,
+  TripStop,
+  TripWithTotals,
+} from './types';
 
-export interface NewTravelDestination {
-  rank: number;
-  destination: string;
-  country: string;
-  latitude: number;
-  longitude: number;
-  reason: string;
-  budget: string;
-  timeline: string;
-  image_url?: string;
+export const DEFAULT_SETTINGS: Settings = {
+  home: DEFAULT_HOME,
+  extra_origins: [],
+  home_currency: DEFAULT_CURRENCY,
+  calendar_token: null,
+};
+
+// Run a store operation, translating driver failures into typed errors from
+// lib/errors. Storage failures are logged here so routes don't have to.
+async function run<T>(operation: string, fn: (store: WishlistStore) => Promise<T>): Promise<T> {
+  try {
+    return await fn(getStore());
+  } catch (error) {
+    const translated = toStoreError(error);
+    if (translated instanceof StorageUnavailableError) {
+      console.error(`Error in ${operation}:`, error);
+    }
+    throw translated;
+  }
 }
 
-// Check if we're in production (Vercel) or local development
-const isProduction = process.env.POSTGRES_URL !== undefined;
-
-// Helper to convert Postgres row to proper types (DECIMAL comes as string)
-function normalizeRow(row: Record<string, unknown>): TravelDestination {
-  return {
-    ...row,
-    latitude: typeof row.latitude === 'string' ? parseFloat(row.latitude) : row.latitude,
-    longitude: typeof row.longitude === 'string' ? parseFloat(row.longitude) : row.longitude,
-    rank: typeof row.rank === 'string' ? parseInt(row.rank, 10) : row.rank,
-    id: typeof row.id === 'string' ? parseInt(row.id, 10) : row.id,
-  } as TravelDestination;
+const BUDGET_FIELDS = ['cost_flights', 'cost_lodging', 'cost_food', 'cost_activities', 'trip_days', 'currency'] as const;
+
+async function loadConverter(store: WishlistStore): Promise<Converter> {
+  return createConverter(await store.getRates());
 }
 
-// SQLite database for local development
-let sqliteDb: Database.Database | null = null;
-
-function getLocalDb(): Database.Database {
-  if (!sqliteDb) {
-    const dbPath = path.join(process.cwd(), 'data', 'travel-wishlist.db');
-    sqliteDb = new Database(dbPath);
-    
-    // Create table if not exists
-    sqliteDb.exec(`
-      CREATE TABLE IF NOT EXISTS travel_destinations (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        rank INTEGER NOT NULL,
-        destination TEXT NOT NULL,
-        country TEXT NOT NULL,
-        latitude REAL NOT NULL,
-        longitude REAL NOT NULL,
-        reason TEXT NOT NULL DEFAULT '',
-        budget TEXT NOT NULL DEFAULT 'moderate',
-        timeline TEXT NOT NULL DEFAULT 'someday',
-        image_url TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-  }
-  return sqliteDb;
+// When a destination has cost estimates and a trip length, its budget tier
+// follows from them rather than from whatever tier the client sent. Totals
+// are converted to USD for the tier limits; without a rate for the currency,
+// or without trip_days, the sent tier stays.
+function withDerivedTier<T extends Partial<NewTravelDestination>>(
+  item: T,
+  convert: Converter,
+  current: Partial<BudgetFields> = {}
+): T {
+  const merged = { ...current, ...item };
+  if (!merged.trip_days) return item;
+  const totalUsd = convertedBudgetTotal(merged, convert, 'USD');
+  if (totalUsd === null) return item;
+  return { ...item, budget: deriveBudgetTier(totalUsd, merged.trip_days) };
 }
 
-// Vercel Postgres for production
-async function getProductionDb() {
-  const { sql } = await import('@vercel/postgres');
-  return sql;
+// The map matches destinations to countries by ISO code, so resolve the
+// free-text country whenever it is saved
+function withCountryCode<T extends Partial<NewTravelDestination>>(item: T): T {
+  if (item.country === undefined) return item;
+  return { ...item, country_code: resolveCountryCode(item.country) ?? null };
 }
 
-async function initProductionDb() {
-  const sql = await getProductionDb();
-  await sql`
-    CREATE TABLE IF NOT EXISTS travel_destinations (
-      id SERIAL PRIMARY KEY,
-      rank INTEGER NOT NULL,
-      destination TEXT NOT NULL,
-      country TEXT NOT NULL,
-      latitude DECIMAL(10, 8) NOT NULL,
-      longitude DECIMAL(11, 8) NOT NULL,
-      reason TEXT NOT NULL DEFAULT '',
-      budget TEXT NOT NULL DEFAULT 'moderate',
-      timeline TEXT NOT NULL DEFAULT 'someday',
-      image_url TEXT,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    )
-  `;
+// Sort keys the database can't compute. Null keys sort last in either order.
+async function sortKey(
+  store: WishlistStore,
+  query: ListQuery
+): Promise<(item: TravelDestination) => number | null> {
+  if (query.sort === 'budget_total') {
+    const convert = await loadConverter(store);
+    return item => convertedBudgetTotal(item, convert, query.currency);
+  }
+  // Hours apart in either direction
+  const now = new Date();
+  return item => Math.abs(travelFacts(item, query.origin, now).time_difference_minutes);
 }
 
 export const getAll = async (): Promise<TravelDestination[]> => {
-  try {
-    if (isProduction) {
-      await initProductionDb();
-      const sql = await getProductionDb();
-      const { rows } = await sql`SELECT * FROM travel_destinations ORDER BY rank ASC`;
-      return rows.map(normalizeRow);
-    } else {
-      const db = getLocalDb();
-      const rows = db.prepare('SELECT * FROM travel_destinations ORDER BY rank ASC').all();
-      return rows as TravelDestination[];
-    }
-  } catch (error) {
-    console.error('Error in getAll:', error);
-    return [];
-  }
+  return run('getAll', store => store.getAll());
 };
 
-export const getById = async (id: number): Promise<TravelDestination | undefined> => {
-  try {
-    if (isProduction) {
-      const sql = await getProductionDb();
-      const { rows } = await sql`SELECT * FROM travel_destinations WHERE id = ${id}`;
-      return rows[0] ? normalizeRow(rows[0]) : undefined;
-    } else {
-      const db = getLocalDb();
-      const row = db.prepare('SELECT * FROM travel_destinations WHERE id = ?').get(id);
-      return row as TravelDestination | undefined;
-    }
-  } catch (error) {
-    console.error('Error in getById:', error);
-    return undefined;
+export const list = async (query: ListQuery): Promise<ListResult> => {
+  // Flight time grows with distance, so the stores can sort it as distance
+  if (query.sort === 'flight_time') {
+    return run('list', store => store.list({ ...query, sort: 'distance' }));
+  }
+  if (query.sort !== 'time_difference' && query.sort !== 'budget_total') {
+    return run('list', store => store.list(query));
   }
+
+  // Time zones and exchange rates aren't in the database: fetch every match,
+  // sort here, then page
+  return run('list', async store => {
+    const { items, total } = await store.list({ ...query, sort: 'distance', order: 'asc', limit: undefined, offset: 0 });
+    const key = await sortKey(store, query);
+    const keys = new Map(items.map(item => [item.id, key(item)]));
+    const direction = query.order === 'desc' ? -1 : 1;
+    // Stable sort keeps nearer destinations first among equal keys
+    const sorted = [...items].sort((a, b) => {
+      const ka = keys.get(a.id) ?? null;
+      const kb = keys.get(b.id) ?? null;
+      if (ka === null || kb === null) return (ka === null ? 1 : 0) - (kb === null ? 1 : 0);
+      return (ka - kb) * direction;
+    });
+    const end = query.limit !== undefined ? query.offset + query.limit : undefined;
+    return { items: sorted.slice(query.offset, end), total };
+  });
+};
+
+export const getById = async (id: number): Promise<TravelDestination> => {
+  const item = await run('getById', store => store.getById(id));
+  if (!item) throw new NotFoundError();
+  return item;
 };
 
 export const create = async (item: NewTravelDestination): Promise<TravelDestination> => {
-  try {
-    if (isProduction) {
-      await initProductionDb();
-      const sql = await getProductionDb();
-      const { rows } = await sql`
-        INSERT INTO travel_destinations (rank, destination, country, latitude, longitude, reason, budget, timeline, image_url)
-        VALUES (${item.rank}, ${item.destination}, ${item.country}, ${item.latitude}, ${item.longitude}, ${item.reason}, ${item.budget}, ${item.timeline}, ${item.image_url || null})
-        RETURNING *
-      `;
-      return normalizeRow(rows[0]);
-    } else {
-      const db = getLocalDb();
-      const stmt = db.prepare(`
-        INSERT INTO travel_destinations (rank, destination, country, latitude, longitude, reason, budget, timeline, image_url)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-      const result = stmt.run(
-        item.rank,
-        item.destination,
-        item.country,
-        item.latitude,
-        item.longitude,
-        item.reason,
-        item.budget,
-        item.timeline,
-        item.image_url || null
-      );
-      const newItem = db.prepare('SELECT * FROM travel_destinations WHERE id = ?').get(result.lastInsertRowid);
-      return newItem as TravelDestination;
-    }
-  } catch (error) {
-    console.error('Error in create:', error);
-    throw error;
-  }
+  return run('create', async store => store.create(withCountryCode(withDerivedTier(item, await loadConverter(store)))));
 };
 
 export const update = async (
   id: number,
   item: Partial<NewTravelDestination>
-): Promise<TravelDestination | undefined> => {
-  try {
-    const existing = await getById(id);
-    if (!existing) return undefined;
-
-    if (isProduction) {
-      const sql = await getProductionDb();
-      const { rows } = await sql`
-        UPDATE travel_destinations
-        SET rank = ${item.rank !== undefined ? item.rank : existing.rank},
-            destination = ${item.destination !== undefined ? item.destination : existing.destination},
-            country = ${item.country !== undefined ? item.country : existing.country},
-            latitude = ${item.latitude !== undefined ? item.latitude : existing.latitude},
-            longitude = ${item.longitude !== undefined ? item.longitude : existing.longitude},
-            reason = ${item.reason !== undefined ? item.reason : existing.reason},
-            budget = ${item.budget !== undefined ? item.budget : existing.budget},
-            timeline = ${item.timeline !== undefined ? item.timeline : existing.timeline},
-            image_url = ${item.image_url !== undefined ? item.image_url : existing.image_url},
-            updated_at = CURRENT_TIMESTAMP
-        WHERE id = ${id}
-        RETURNING *
-      `;
-      return rows[0] ? normalizeRow(rows[0]) : undefined;
-    } else {
-      const db = getLocalDb();
-      db.prepare(`
-        UPDATE travel_destinations
-        SET rank = ?,
-            destination = ?,
-            country = ?,
-            latitude = ?,
-            longitude = ?,
-            reason = ?,
-            budget = ?,
-            timeline = ?,
-            image_url = ?,
-            updated_at = CURRENT_TIMESTAMP
-        WHERE id = ?
-      `).run(
-        item.rank !== undefined ? item.rank : existing.rank,
-        item.destination !== undefined ? item.destination : existing.destination,
-        item.country !== undefined ? item.country : existing.country,
-        item.latitude !== undefined ? item.latitude : existing.latitude,
-        item.longitude !== undefined ? item.longitude : existing.longitude,
-        item.reason !== undefined ? item.reason : existing.reason,
-        item.budget !== undefined ? item.budget : existing.budget,
-        item.timeline !== undefined ? item.timeline : existing.timeline,
-        item.image_url !== undefined ? item.image_url : existing.image_url,
-        id
-      );
-      return await getById(id);
+): Promise<TravelDestination> => {
+  const updated = await run('update', async store => {
+    // A partial update may change only some costs; derive from the full set
+    const touchesBudget = BUDGET_FIELDS.some(field => item[field] !== undefined);
+    const existing = touchesBudget ? await store.getById(id) : undefined;
+    const priced = existing ? withDerivedTier(item, await loadConverter(store), existing) : item;
+    return store.update(id, withCountryCode(priced));
+  });
+  if (!updated) throw new NotFoundError();
+  return updated;
+};
+
+// Per-country counts over every destination, for the map's choropleth
+export const getCoverage = async (): Promise<CoverageSummary> => {
+  return run('getCoverage', async store => countryCoverage(await store.getAll()));
+};
+
+export const remove = async (id: number): Promise<void> => {
+  const removed = await run('remove', store => store.remove(id));
+  if (!removed) throw new NotFoundError();
+};
+
+export const move = async (id: number, target: MoveTarget): Promise<TravelDestination[]> => {
+  const items = await run('move', store => store.move(id, target));
+  if (!items) throw new NotFoundError();
+  return items;
+};
+
+export const updateRanks = async (ranks: RankUpdate[]): Promise<TravelDestination[]> => {
+  return run('updateRanks', store => store.updateRanks(ranks));
+};
+
+export const exportWishlist = async (): Promise<WishlistExport> => {
+  return exportDocument(await run('exportWishlist', store => store.getAll()));
+};
+
+// Items are validated and in append order, as from validateImport. With
+// dryRun nothing is written; the summary says what would happen.
+export const importWishlist = async (
+  items: NewTravelDestination[],
+  mode: ImportMode,
+  dryRun: boolean
+): Promise<ImportSummary> => {
+  return run('importWishlist', async store => {
+    const convert = await loadConverter(store);
+    const prepared = items.map(item => withCountryCode(withDerivedTier(item, convert)));
+    const { plan, summary } = planImport(await store.getAll(), prepared, mode);
+    if (!dryRun) {
+      await store.importDestinations(plan);
     }
-  } catch (error) {
-    console.error('Error in update:', error);
-    return undefined;
-  }
+    return { ...summary, dry_run: dryRun };
+  });
 };
 
-export const remove = async (id: number): Promise<boolean> => {
-  try {
-    if (isProduction) {
-      const sql = await getProductionDb();
-      const result = await sql`DELETE FROM travel_destinations WHERE id = ${id}`;
-      return (result.rowCount ?? 0) > 0;
-    } else {
-      const db = getLocalDb();
-      const result = db.prepare('DELETE FROM travel_destinations WHERE id = ?').run(id);
-      return result.changes > 0;
+export const getCachedGeocode = async (query: string): Promise<GeocodeCandidate[] | undefined> => {
+  return run('getCachedGeocode', store => store.getCachedGeocode(query));
+};
+
+export const putCachedGeocode = async (query: string, results: GeocodeCandidate[]): Promise<void> => {
+  return run('putCachedGeocode', store => store.putCachedGeocode(query, results));
+};
+
+// Stored settings over the defaults; keys that were never saved fall back
+export const getSettings = async (): Promise<Settings> => {
+  const stored = await run('getSettings', store => store.getSettings());
+  return { ...DEFAULT_SETTINGS, ...stored } as Settings;
+};
+
+export const updateSettings = async (settings: Partial<Settings>): Promise<Settings> => {
+  await run('updateSettings', store => store.putSettings(settings));
+  return getSettings();
+};
+
+// Settings for API responses, with the calendar token left out
+export function publicSettings({ calendar_token, ...settings }: Settings): PublicSettings {
+  return { ...settings, calendar_private: calendar_token !== null };
+}
+
+export const getRates = async (): Promise<ExchangeRate[]> => {
+  return run('getRates', store => store.getRates());
+};
+
+// Upsert rates; with replace, rates left out of the list are deleted
+export const putRates = async (rates: NewExchangeRate[], replace: boolean): Promise<ExchangeRate[]> => {
+  await run('putRates', store => store.putRates(rates, replace));
+  return getRates();
+};
+
+export const getConverter = async (): Promise<Converter> => {
+  return run('getConverter', loadConverter);
+};
+
+// Stops must point at destinations that exist; every bad stop is reported
+async function assertStopsExist(store: WishlistStore, trip: NewTrip): Promise<void> {
+  const ids = new Set((await store.getAll()).map(item => item.id));
+  const fields: FieldErrors = {};
+  trip.stops.forEach((stop, index) => {
+    if (!ids.has(stop.destination_id)) {
+      fields[`stops.${index}.destination_id`] = `No destination with id ${stop.destination_id}`;
     }
-  } catch (error) {
-    console.error('Error in remove:', error);
-    return false;
+  });
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid trip', fields);
   }
+}
+
+export const getTrips = async (): Promise<Trip[]> => {
+  return run('getTrips', store => store.getTrips());
 };
 
-export const updateRanks = async (ranks: { id: number; rank: number }[]): Promise<boolean> => {
-  try {
-    if (isProduction) {
-      const sql = await getProductionDb();
-      for (const { id, rank } of ranks) {
-        await sql`UPDATE travel_destinations SET rank = ${rank}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
-      }
-    } else {
-      const db = getLocalDb();
-      const stmt = db.prepare('UPDATE travel_destinations SET rank = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?');
-      for (const { id, rank } of ranks) {
-        stmt.run(rank, id);
-      }
-    }
-    return true;
-  } catch (error) {
-    console.error('Error in updateRanks:', error);
-    return false;
+export const getTrip = async (id: number): Promise<Trip> => {
+  const trip = await run('getTrip', store => store.getTrip(id));
+  if (!trip) throw new NotFoundError('Trip not found');
+  return trip;
+};
+
+export const createTrip = async (trip: NewTrip): Promise<Trip> => {
+  return run('createTrip', async store => {
+    await assertStopsExist(store, trip);
+    return store.createTrip(trip);
+  });
+};
+
+export const updateTrip = async (id: number, trip: NewTrip): Promise<Trip> => {
+  const updated = await run('updateTrip', async store => {
+    await assertStopsExist(store, trip);
+    return store.updateTrip(id, trip);
+  });
+  if (!updated) throw new NotFoundError('Trip not found');
+  return updated;
+};
+
+export const removeTrip = async (id: number): Promise<void> => {
+  const removed = await run('removeTrip', store => store.removeTrip(id));
+  if (!removed) throw new NotFoundError('Trip not found');
+};
+
+// Legs from home and budget totals in the home currency for each trip
+export const addTripTotals = async (trips: Trip[]): Promise<TripWithTotals[]> => {
+  const { home, home_currency } = await getSettings();
+  return run('addTripTotals', async store =>
+    withTripTotals(trips, await store.getAll(), home, await loadConverter(store), home_currency)
+  );
+};
+
+// Suggested order for visiting the given destinations from origin
+export const optimizeRoute = async (ids: number[], origin: Origin, closed: boolean): Promise<PlannedRoute> => {
+  const items = await run('optimizeRoute', store => store.getAll());
+  const byId = new Map(items.map(item => [item.id, item]));
+  const missing = ids.filter(id => !byId.has(id));
+  if (missing.length > 0) {
+    throw new ValidationError('Invalid route query', { ids: `No destination with id ${missing.join(', ')}` });
   }
+  const stops = ids.map(id => {
+    const item = byId.get(id)!;
+    return { id, name: `${item.destination}, ${item.country}`, latitude: Number(item.latitude), longitude: Number(item.longitude) };
+  });
+  return planRoute(origin, stops, closed);
 };
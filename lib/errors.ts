@@ -0,0 +1,48 @@
+// Field name -> human readable problem, e.g. { latitude: 'Must be between -90 and 90' }
+export type FieldErrors = Record<string, string>;
+
+// Bad input from the client. Routes turn this into a 400.
+export class ValidationError extends Error {
+  fields: FieldErrors;
+
+  constructor(message: string, fields: FieldErrors = {}) {
+    super(message);
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+// The requested record doesn't exist. Routes turn this into a 404.
+export class NotFoundError extends Error {
+  constructor(message: string = 'Destination not found') {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// The write clashes with the current state, e.g. a unique constraint or a
+// concurrent reorder. Routes turn this into a 409.
+export class ConflictError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ConflictError';
+  }
+}
+
+// The database couldn't be reached or failed unexpectedly. Routes turn this
+// into a 503 so an outage never looks like an empty list or a missing record.
+export class StorageUnavailableError extends Error {
+  constructor(message: string = 'Storage is unavailable', options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+// The external geocoding service failed or couldn't be reached. Routes turn
+// this into a 502.
+export class GeocoderUnavailableError extends Error {
+  constructor(message: string = 'Geocoder is unavailable', options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'GeocoderUnavailableError';
+  }
+}
@@ -0,0 +1,22 @@
+// Display helpers shared by the page and the map. Safe to import client-side.
+
+export function formatDistance(km: number): string {
+  return `${km.toLocaleString('en-US')} km`;
+}
+
+// 614 -> "10h 14m"; under an hour -> "45m"
+export function formatFlightTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+// 960 -> "+16h", -210 -> "-3h 30m", 0 -> "same time"
+export function formatTimeDifference(minutes: number): string {
+  if (minutes === 0) return 'same time';
+  const sign = minutes > 0 ? '+' : '-';
+  const abs = Math.abs(minutes);
+  const rest = abs % 60;
+  return `${sign}${Math.floor(abs / 60)}h${rest ? ` ${rest}m` : ''}`;
+}
@@ -0,0 +1,87 @@
+import type { Origin } from './types';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export const EARTH_RADIUS_KM = 6371;
+
+// Home until the user configures their own in settings
+export const DEFAULT_HOME: Origin = {
+  name: 'San Francisco, United States',
+  latitude: 37.7749,
+  longitude: -122.4194,
+};
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance between two points in kilometres
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+// Points along the great circle from a to b, roughly every stepKm, including
+// both ends. Longitudes stay in -180..180, so a route across the Pacific
+// jumps from 180 to -180; pass the result to splitAtAntimeridian to draw it.
+export function greatCirclePath(a: GeoPoint, b: GeoPoint, stepKm = 100): GeoPoint[] {
+  const lat1 = toRadians(a.latitude);
+  const lon1 = toRadians(a.longitude);
+  const lat2 = toRadians(b.latitude);
+  const lon2 = toRadians(b.longitude);
+  const angle = haversineKm(a, b) / EARTH_RADIUS_KM;
+  // Same point, or antipodes where every great circle qualifies
+  if (Math.sin(angle) < 1e-9) return [a, b];
+
+  const segments = Math.min(512, Math.max(1, Math.ceil((angle * EARTH_RADIUS_KM) / stepKm)));
+  const points: GeoPoint[] = [];
+  for (let i = 0; i <= segments; i++) {
+    // Spherical linear interpolation between the two unit vectors
+    const f = i / segments;
+    const wa = Math.sin((1 - f) * angle) / Math.sin(angle);
+    const wb = Math.sin(f * angle) / Math.sin(angle);
+    const x = wa * Math.cos(lat1) * Math.cos(lon1) + wb * Math.cos(lat2) * Math.cos(lon2);
+    const y = wa * Math.cos(lat1) * Math.sin(lon1) + wb * Math.cos(lat2) * Math.sin(lon2);
+    const z = wa * Math.sin(lat1) + wb * Math.sin(lat2);
+    points.push({
+      latitude: toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+      longitude: toDegrees(Math.atan2(y, x)),
+    });
+  }
+  return points;
+}
+
+// Break a path wherever it crosses the antimeridian, adding the crossing
+// point to both sides, so a flat map doesn't draw a line across the world.
+export function splitAtAntimeridian(points: GeoPoint[]): GeoPoint[][] {
+  if (points.length === 0) return [];
+  const parts: GeoPoint[][] = [[points[0]]];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i];
+    const current = parts[parts.length - 1];
+    if (Math.abs(next.longitude - prev.longitude) <= 180) {
+      current.push(next);
+      continue;
+    }
+    // Shift next by a full turn so the step is short, then find where it meets ±180
+    const edge = prev.longitude > 0 ? 180 : -180;
+    const unwrapped = next.longitude + (edge > 0 ? 360 : -360);
+    const f = (edge - prev.longitude) / (unwrapped - prev.longitude);
+    const latitude = prev.latitude + f * (next.latitude - prev.latitude);
+    current.push({ latitude, longitude: edge });
+    parts.push([{ latitude, longitude: -edge }, next]);
+  }
+  return parts;
+}
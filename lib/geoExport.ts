@@ -0,0 +1,181 @@
+import { budgetTotal } from './budget';
+import { greatCirclePath, haversineKm, splitAtAntimeridian, type GeoPoint } from './geo';
+import { timelineLabel } from './timeline';
+import type { GeoExportFormat, Origin, TravelDestination } from './types';
+
+interface GeoExportOptions {
+  // Where flight lines start
+  home: Origin;
+  // Add a line from home to every destination
+  flights: boolean;
+  now?: Date;
+}
+
+interface GeoExport {
+  contentType: string;
+  extension: string;
+  serialize: (items: TravelDestination[], options: GeoExportOptions) => string;
+}
+
+// The destination as the API returns it, plus a readable timeline and the
+// budget total in its own currency
+function properties(item: TravelDestination): Record<string, unknown> {
+  return { ...item, timeline_label: timelineLabel(item), budget_total: budgetTotal(item) };
+}
+
+function title(item: TravelDestination): string {
+  return `${item.destination}, ${item.country}`;
+}
+
+// The great-circle flight from home, split where it crosses the date line
+function flightParts(home: Origin, item: TravelDestination): GeoPoint[][] {
+  const to = { latitude: Number(item.latitude), longitude: Number(item.longitude) };
+  return splitAtAntimeridian(greatCirclePath(home, to));
+}
+
+function flightProperties(home: Origin, item: TravelDestination): Record<string, unknown> {
+  return {
+    destination_id: item.id,
+    from: home.name,
+    to: title(item),
+    distance_km: Math.round(haversineKm(home, { latitude: Number(item.latitude), longitude: Number(item.longitude) })),
+  };
+}
+
+// Six decimals is about 10 cm, plenty for a flight path
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function xmlEscape(value: unknown): string {
+  return (value === null || value === undefined ? '' : String(value))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// A FeatureCollection of Points, then LineStrings (MultiLineStrings across
+// the date line) for the flights
+function toGeoJson(items: TravelDestination[], { home, flights }: GeoExportOptions): string {
+  const features: unknown[] = items.map(item => ({
+    type: 'Feature',
+    id: item.id,
+    geometry: { type: 'Point', coordinates: [Number(item.longitude), Number(item.latitude)] },
+    properties: properties(item),
+  }));
+  if (flights) {
+    for (const item of items) {
+      const lines = flightParts(home, item).map(part => part.map(p => [round(p.longitude), round(p.latitude)]));
+      features.push({
+        type: 'Feature',
+        geometry: lines.length === 1
+          ? { type: 'LineString', coordinates: lines[0] }
+          : { type: 'MultiLineString', coordinates: lines },
+        properties: flightProperties(home, item),
+      });
+    }
+  }
+  return JSON.stringify({ type: 'FeatureCollection', features });
+}
+
+function kmlData(values: Record<string, unknown>): string {
+  const data = Object.entries(values)
+    .map(([name, value]) => `<Data name="${xmlEscape(name)}"><value>${xmlEscape(value)}</value></Data>`)
+    .join('');
+  return `<ExtendedData>${data}</ExtendedData>`;
+}
+
+function kmlLine(points: GeoPoint[]): string {
+  const coordinates = points.map(p => `${round(p.longitude)},${round(p.latitude)}`).join(' ');
+  return `<LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString>`;
+}
+
+// Placemarks with every property as ExtendedData, flights in their own folder
+function toKml(items: TravelDestination[], { home, flights }: GeoExportOptions): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    '<name>Travel Wishlist</name>',
+    '<Style id="flight"><LineStyle><color>ffd4b606</color><width>2</width></LineStyle></Style>',
+    '<Folder><name>Destinations</name>',
+  ];
+  for (const item of items) {
+    lines.push(
+      '<Placemark>' +
+        `<name>${xmlEscape(title(item))}</name>` +
+        `<description>${xmlEscape(item.reason)}</description>` +
+        kmlData(properties(item)) +
+        `<Point><coordinates>${Number(item.longitude)},${Number(item.latitude)}</coordinates></Point>` +
+        '</Placemark>'
+    );
+  }
+  lines.push('</Folder>');
+  if (flights) {
+    lines.push(`<Folder><name>Flights from ${xmlEscape(home.name)}</name>`);
+    for (const item of items) {
+      const parts = flightParts(home, item).map(kmlLine);
+      const geometry = parts.length === 1 ? parts[0] : `<MultiGeometry>${parts.join('')}</MultiGeometry>`;
+      lines.push(
+        '<Placemark>' +
+          `<name>${xmlEscape(`${home.name} → ${title(item)}`)}</name>` +
+          '<styleUrl>#flight</styleUrl>' +
+          kmlData(flightProperties(home, item)) +
+          geometry +
+          '</Placemark>'
+      );
+    }
+    lines.push('</Folder>');
+  }
+  lines.push('</Document>', '</kml>', '');
+  return lines.join('\n');
+}
+
+// Property names are already valid XML names (lower case and underscores)
+function gpxExtensions(values: Record<string, unknown>): string {
+  const fields = Object.entries(values).map(([name, value]) => `<tw:${name}>${xmlEscape(value)}</tw:${name}>`);
+  return `<extensions>${fields.join('')}</extensions>`;
+}
+
+// Waypoints, with every property under a travel-wishlist extension, then a
+// track per flight
+function toGpx(items: TravelDestination[], { home, flights, now = new Date() }: GeoExportOptions): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Travel Wishlist" xmlns="http://www.topografix.com/GPX/1/1" xmlns:tw="urn:travel-wishlist">',
+    `<metadata><name>Travel Wishlist</name><time>${now.toISOString()}</time></metadata>`,
+  ];
+  for (const item of items) {
+    const summary = [item.rank === null ? null : `#${item.rank}`, timelineLabel(item), item.budget].filter(Boolean).join(' · ');
+    lines.push(
+      `<wpt lat="${Number(item.latitude)}" lon="${Number(item.longitude)}">` +
+        `<name>${xmlEscape(title(item))}</name>` +
+        `<cmt>${xmlEscape(summary)}</cmt>` +
+        `<desc>${xmlEscape(item.reason)}</desc>` +
+        (item.image_url ? `<link href="${xmlEscape(item.image_url)}"/>` : '') +
+        `<type>${xmlEscape(item.status)}</type>` +
+        gpxExtensions(properties(item)) +
+        '</wpt>'
+    );
+  }
+  if (flights) {
+    for (const item of items) {
+      const segments = flightParts(home, item).map(part =>
+        `<trkseg>${part.map(p => `<trkpt lat="${round(p.latitude)}" lon="${round(p.longitude)}"/>`).join('')}</trkseg>`
+      );
+      lines.push(
+        `<trk><name>${xmlEscape(`${home.name} → ${title(item)}`)}</name><type>flight</type>${segments.join('')}</trk>`
+      );
+    }
+  }
+  lines.push('</gpx>', '');
+  return lines.join('\n');
+}
+
+export const GEO_EXPORTS: Record<GeoExportFormat, GeoExport> = {
+  geojson: { contentType: 'application/geo+json', extension: 'geojson', serialize: toGeoJson },
+  kml: { contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml', serialize: toKml },
+  gpx: { contentType: 'application/gpx+xml', extension: 'gpx', serialize: toGpx },
+};
@@ -0,0 +1,137 @@
+import { countryName, normalizeName, resolveCountryCode } from '../countries';
+import type { GeocodeCandidate, Geocoder } from './types';
+
+// GeoNames "cities15000" cut-off: places with at least this many inhabitants
+export const DEFAULT_MIN_POPULATION = 15000;
+
+export interface GazetteerPlace {
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  population: number;
+}
+
+interface IndexEntry {
+  key: string;
+  place: GazetteerPlace;
+}
+
+// Bundled data: GeoNames cities shipped by the all-the-cities package
+async function loadBundledPlaces(minPopulation: number): Promise<GazetteerPlace[]> {
+  const { default: cities } = await import('all-the-cities');
+  return cities
+    .filter(city => city.population >= minPopulation)
+    .map(city => ({
+      name: city.name,
+      country: city.country,
+      latitude: city.loc.coordinates[1],
+      longitude: city.loc.coordinates[0],
+      population: city.population,
+    }));
+}
+
+// Sorted (normalised name, place) pairs so a prefix lookup is a binary search
+function buildIndex(places: GazetteerPlace[]): IndexEntry[] {
+  return places
+    .map(place => ({ key: normalizeName(place.name), place }))
+    .filter(entry => entry.key)
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+function lowerBound(index: IndexEntry[], prefix: string): number {
+  let lo = 0;
+  let hi = index.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (index[mid].key < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Levenshtein distance, giving up early once it exceeds max
+function withinEditDistance(a: string, b: string, max: number): boolean {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return false;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+}
+
+// "Kyoto, Japan" -> city "kyoto", country "JP". Without a comma the whole
+// query is the city; an unrecognised country is ignored rather than failing.
+function parseQuery(query: string): { city: string; country?: string } {
+  const comma = query.lastIndexOf(',');
+  if (comma === -1) {
+    return { city: normalizeName(query) };
+  }
+  return {
+    city: normalizeName(query.slice(0, comma)),
+    country: resolveCountryCode(query.slice(comma + 1)),
+  };
+}
+
+// Offline geocoder over a city list. Matches on name prefix ("san fr" finds
+// San Francisco), falling back to a small edit distance for typos, then
+// ranks exact names first and larger cities before smaller ones.
+export function createGazetteerGeocoder(
+  loadPlaces: () => Promise<GazetteerPlace[]> = () => loadBundledPlaces(DEFAULT_MIN_POPULATION)
+): Geocoder {
+  let index: Promise<IndexEntry[]> | null = null;
+  const getIndex = () => {
+    if (!index) {
+      index = loadPlaces().then(buildIndex);
+    }
+    return index;
+  };
+
+  return {
+    name: 'gazetteer',
+    cacheable: false,
+
+    async search(query: string, limit: number) {
+      const { city, country } = parseQuery(query);
+      if (!city) return [];
+
+      const entries = await getIndex();
+      const inCountry = (entry: IndexEntry) => !country || entry.place.country === country;
+
+      let matches: IndexEntry[] = [];
+      for (let i = lowerBound(entries, city); i < entries.length && entries[i].key.startsWith(city); i++) {
+        if (inCountry(entries[i])) matches.push(entries[i]);
+      }
+
+      if (matches.length === 0) {
+        const maxEdits = city.length <= 5 ? 1 : 2;
+        matches = entries.filter(entry =>
+          entry.key[0] === city[0] && inCountry(entry) && withinEditDistance(entry.key, city, maxEdits)
+        );
+      }
+
+      return matches
+        .sort((a, b) =>
+          Number(b.key === city) - Number(a.key === city) ||
+          b.place.population - a.place.population
+        )
+        .slice(0, limit)
+        .map(({ place }): GeocodeCandidate => ({
+          latitude: place.latitude,
+          longitude: place.longitude,
+          displayName: `${place.name}, ${countryName(place.country) ?? place.country}`,
+        }));
+    },
+  };
+}
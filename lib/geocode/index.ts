@@ -0,0 +1,124 @@
+import { getCachedGeocode, putCachedGeocode } from '../db';
+import { GeocoderUnavailableError, StorageUnavailableError } from '../errors';
+import { createGazetteerGeocoder } from './gazetteer';
+import { createNominatimGeocoder, DEFAULT_NOMINATIM_URL } from './nominatim';
+import { createStubGeocoder } from './stub';
+import type { GeocodeCandidate, Geocoder } from './types';
+
+export type { GeocodeCandidate, Geocoder } from './types';
+export { createGazetteerGeocoder, createNominatimGeocoder, createStubGeocoder };
+
+export type GeocoderKind = 'nominatim' | 'gazetteer' | 'stub';
+
+// Every lookup asks upstream for this many candidates so one cache entry can
+// serve any smaller limit.
+export const MAX_CANDIDATES = 5;
+
+function parseKind(value: string | undefined): GeocoderKind | undefined {
+  return value === 'nominatim' || value === 'gazetteer' || value === 'stub' ? value : undefined;
+}
+
+export function resolveGeocoderKind(env: NodeJS.ProcessEnv = process.env): GeocoderKind {
+  return parseKind(env.GEOCODER) ?? 'nominatim';
+}
+
+// Used when the primary geocoder is unreachable. Defaults to the offline
+// gazetteer behind Nominatim; GEOCODER_FALLBACK=none turns it off.
+export function resolveFallbackKind(env: NodeJS.ProcessEnv = process.env): GeocoderKind | undefined {
+  if (env.GEOCODER_FALLBACK === 'none') return undefined;
+  const explicit = parseKind(env.GEOCODER_FALLBACK);
+  if (explicit) return explicit;
+  return resolveGeocoderKind(env) === 'nominatim' ? 'gazetteer' : undefined;
+}
+
+export function createGeocoder(kind: GeocoderKind = resolveGeocoderKind()): Geocoder {
+  switch (kind) {
+    case 'stub':
+      return createStubGeocoder();
+    case 'gazetteer':
+      return createGazetteerGeocoder();
+    case 'nominatim':
+      return createNominatimGeocoder(
+        process.env.GEOCODER_URL || DEFAULT_NOMINATIM_URL,
+        process.env.GEOCODER_USER_AGENT || undefined
+      );
+  }
+}
+
+let activeGeocoder: Geocoder | null = null;
+let fallbackGeocoder: Geocoder | null | undefined;
+
+export function getGeocoder(): Geocoder {
+  if (!activeGeocoder) {
+    activeGeocoder = createGeocoder();
+  }
+  return activeGeocoder;
+}
+
+export function getFallbackGeocoder(): Geocoder | null {
+  if (fallbackGeocoder === undefined) {
+    const kind = resolveFallbackKind();
+    fallbackGeocoder = kind ? createGeocoder(kind) : null;
+  }
+  return fallbackGeocoder;
+}
+
+// Swap the active geocoders, e.g. to createStubGeocoder() in tests
+export function setGeocoder(geocoder: Geocoder | null, fallback: Geocoder | null = null): void {
+  activeGeocoder = geocoder;
+  fallbackGeocoder = fallback;
+}
+
+// "  Paris ,France " and "paris, france" share a cache entry
+export function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export interface GeocodeResult {
+  query: string;
+  candidates: GeocodeCandidate[];
+  cached: boolean;
+  // Name of the geocoder that answered, e.g. "gazetteer" after a fallback
+  source: string;
+}
+
+// Look a place up, answering from the cache when possible and from the
+// fallback geocoder when the primary one is unreachable. A broken cache only
+// costs us the cache: lookups still go upstream.
+export async function geocode(query: string, limit: number = MAX_CANDIDATES): Promise<GeocodeResult> {
+  const geocoder = getGeocoder();
+  const normalized = normalizeQuery(query);
+  const key = `${geocoder.name}:${normalized}`;
+
+  if (geocoder.cacheable) {
+    const cached = await getCachedGeocode(key).catch(ignoreStorageError);
+    if (cached) {
+      return { query: normalized, candidates: cached.slice(0, limit), cached: true, source: geocoder.name };
+    }
+  }
+
+  let candidates: GeocodeCandidate[];
+  try {
+    candidates = await geocoder.search(normalized, MAX_CANDIDATES);
+  } catch (error) {
+    const fallback = getFallbackGeocoder();
+    if (!(error instanceof GeocoderUnavailableError) || !fallback) throw error;
+    console.warn(`Geocoder ${geocoder.name} unavailable, using ${fallback.name}:`, error.message);
+    const fallbackCandidates = await fallback.search(normalized, limit);
+    return { query: normalized, candidates: fallbackCandidates, cached: false, source: fallback.name };
+  }
+
+  if (geocoder.cacheable) {
+    await putCachedGeocode(key, candidates).catch(ignoreStorageError);
+  }
+  return { query: normalized, candidates: candidates.slice(0, limit), cached: false, source: geocoder.name };
+}
+
+function ignoreStorageError(error: unknown): undefined {
+  if (error instanceof StorageUnavailableError) return undefined;
+  throw error;
+}
@@ -0,0 +1,86 @@
+import { GeocoderUnavailableError } from '../errors';
+import { createThrottle } from './throttle';
+import type { GeocodeCandidate, Geocoder } from './types';
+
+export const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  osm_type?: string;
+  osm_id?: number;
+}
+
+function isNominatimResult(value: unknown): value is NominatimResult {
+  const result = value as Partial<NominatimResult> | null;
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    Number.isFinite(parseFloat(result.lat as string)) &&
+    Number.isFinite(parseFloat(result.lon as string)) &&
+    typeof result.display_name === 'string'
+  );
+}
+
+// Nominatim (or anything speaking its /search API). Requests from this process
+// are spaced at least a second apart, as the public instance's policy requires.
+// A request that takes longer than timeoutMs is abandoned so a hung upstream
+// can't hold up the queue behind it.
+export function createNominatimGeocoder(
+  baseUrl: string = DEFAULT_NOMINATIM_URL,
+  userAgent: string = 'TravelWishlistApp/1.0',
+  intervalMs: number = 1000,
+  timeoutMs: number = 10_000
+): Geocoder {
+  const schedule = createThrottle(intervalMs);
+
+  return {
+    name: 'nominatim',
+    cacheable: true,
+
+    async search(query: string, limit: number) {
+      const url = new URL('search', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+      url.searchParams.set('format', 'jsonv2');
+      url.searchParams.set('q', query);
+      url.searchParams.set('limit', String(limit));
+
+      const data = await schedule(async () => {
+        let response: Response;
+        try {
+          response = await fetch(url, {
+            headers: { 'User-Agent': userAgent },
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+        } catch (error) {
+          if (error instanceof DOMException && error.name === 'TimeoutError') {
+            throw new GeocoderUnavailableError('Geocoder timed out', { cause: error });
+          }
+          throw new GeocoderUnavailableError(undefined, { cause: error });
+        }
+        if (!response.ok) {
+          throw new GeocoderUnavailableError(`Geocoder responded with ${response.status}`);
+        }
+        // A captive portal or proxy can answer 200 with an HTML page
+        let body: unknown;
+        try {
+          body = await response.json();
+        } catch (error) {
+          throw new GeocoderUnavailableError('Geocoder sent a response that is not JSON', { cause: error });
+        }
+        if (!Array.isArray(body) || !body.every(isNominatimResult)) {
+          throw new GeocoderUnavailableError('Geocoder sent an unexpected response');
+        }
+        return body;
+      });
+
+      return data.map((result): GeocodeCandidate => ({
+        latitude: parseFloat(result.lat),
+        longitude: parseFloat(result.lon),
+        displayName: result.display_name,
+        osmType: result.osm_type,
+        osmId: result.osm_id,
+      }));
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import type { GeocodeCandidate, Geocoder } from './types';
+
+// A handful of fixed places so tests and offline demos get deterministic answers
+export const STUB_PLACES: GeocodeCandidate[] = [
+  { latitude: 35.6762, longitude: 139.6503, displayName: 'Tokyo, Japan' },
+  { latitude: 35.0116, longitude: 135.7681, displayName: 'Kyoto, Japan' },
+  { latitude: 34.6937, longitude: 135.5023, displayName: 'Osaka, Japan' },
+  { latitude: 48.8566, longitude: 2.3522, displayName: 'Paris, France' },
+  { latitude: 33.6609, longitude: -95.5555, displayName: 'Paris, Texas, United States' },
+  { latitude: 51.5074, longitude: -0.1278, displayName: 'London, United Kingdom' },
+  { latitude: 41.9028, longitude: 12.4964, displayName: 'Rome, Italy' },
+  { latitude: 40.7128, longitude: -74.006, displayName: 'New York, United States' },
+  { latitude: 37.7749, longitude: -122.4194, displayName: 'San Francisco, United States' },
+  { latitude: -33.8688, longitude: 151.2093, displayName: 'Sydney, Australia' },
+  { latitude: -13.1631, longitude: -72.545, displayName: 'Machu Picchu, Peru' },
+  { latitude: 64.1466, longitude: -21.9426, displayName: 'Reykjavik, Iceland' },
+];
+
+// Matches when every word of the query appears in the place's display name
+export function createStubGeocoder(places: GeocodeCandidate[] = STUB_PLACES): Geocoder {
+  return {
+    name: 'stub',
+    cacheable: true,
+
+    async search(query: string, limit: number) {
+      const words = query.toLowerCase().split(/[\s,]+/).filter(Boolean);
+      return places
+        .filter(place => words.every(word => place.displayName.toLowerCase().includes(word)))
+        .slice(0, limit)
+        .map(place => ({ ...place }));
+    },
+  };
+}
@@ -0,0 +1,20 @@
+// Serialise calls so that each one starts at least intervalMs after the
+// previous one started. Used to honour Nominatim's one-request-per-second rule.
+export function createThrottle(intervalMs: number) {
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastStart = 0;
+
+  return function schedule<T>(fn: () => Promise<T>): Promise<T> {
+    const run = queue.then(async () => {
+      const wait = lastStart + intervalMs - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      lastStart = Date.now();
+      return fn();
+    });
+    // Keep the chain alive even if this call fails
+    queue = run.catch(() => undefined);
+    return run;
+  };
+}
@@ -0,0 +1,17 @@
+export interface GeocodeCandidate {
+  latitude: number;
+  longitude: number;
+  displayName: string;
+  // OpenStreetMap object, when the geocoder knows it (e.g. "relation", 71525)
+  osmType?: string;
+  osmId?: number;
+}
+
+export interface Geocoder {
+  name: string;
+  // Whether answers are worth keeping in geocode_cache (not for local lookups)
+  cacheable: boolean;
+  // Up to `limit` candidates, best match first. Throws GeocoderUnavailableError
+  // if the upstream service can't be reached.
+  search(query: string, limit: number): Promise<GeocodeCandidate[]>;
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import {
+  ConflictError,
+  GeocoderUnavailableError,
+  NotFoundError,
+  StorageUnavailableError,
+  ValidationError,
+  type FieldErrors,
+} from './errors';
+
+// Every error response from the API has this shape
+export interface ErrorBody {
+  error: string;
+  fields?: FieldErrors;
+}
+
+export function jsonError(status: number, message: string, fields?: FieldErrors) {
+  const body: ErrorBody = { error: message };
+  if (fields && Object.keys(fields).length > 0) {
+    body.fields = fields;
+  }
+  return NextResponse.json(body, { status });
+}
+
+// Map an error thrown inside a route handler to a response. Anything we don't
+// recognise is logged and reported as a 500 with the given message.
+export function handleRouteError(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return jsonError(400, error.message, error.fields);
+  }
+  if (error instanceof NotFoundError) {
+    return jsonError(404, error.message);
+  }
+  if (error instanceof ConflictError) {
+    return jsonError(409, error.message);
+  }
+  if (error instanceof GeocoderUnavailableError) {
+    console.error(`${message}:`, error);
+    return jsonError(502, error.message);
+  }
+  if (error instanceof StorageUnavailableError) {
+    // Already logged by lib/db.ts
+    return jsonError(503, `${message}: ${error.message.toLowerCase()}`);
+  }
+  console.error(`${message}:`, error);
+  return jsonError(500, message);
+}
+
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+}
@@ -0,0 +1,93 @@
+// Groups map markers that would overlap on screen. Works on pixel positions
+// at the current zoom, so the result changes as the map zooms. Safe to
+// import client-side.
+
+export interface ScreenPoint {
+  id: number;
+  x: number;
+  y: number;
+}
+
+// A marker drawn on its own. Markers at (nearly) the same spot are fanned
+// out around it, dx/dy pixels from their true position.
+export interface PlacedMarker extends ScreenPoint {
+  dx: number;
+  dy: number;
+}
+
+// Markers that zooming in would separate, drawn as one count bubble at the
+// centre of its members
+export interface MarkerCluster {
+  ids: number[];
+  x: number;
+  y: number;
+}
+
+export interface MarkerLayout {
+  markers: PlacedMarker[];
+  clusters: MarkerCluster[];
+}
+
+interface LayoutOptions {
+  // Markers whose centres are closer than this many pixels overlap
+  radius: number;
+  // How much further the map can zoom in, e.g. 4 at a quarter of max zoom
+  maxScale: number;
+}
+
+function distance(a: ScreenPoint, b: ScreenPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// Greedy grouping in input order: each point joins the first group whose
+// first point is within radius, so earlier (higher-ranked) points anchor
+function groupNear(points: ScreenPoint[], radius: number): ScreenPoint[][] {
+  const groups: ScreenPoint[][] = [];
+  for (const point of points) {
+    const group = groups.find(g => distance(g[0], point) < radius);
+    if (group) {
+      group.push(point);
+    } else {
+      groups.push([point]);
+    }
+  }
+  return groups;
+}
+
+// Offsets that place count markers on a ring around a point, starting at
+// the top and going clockwise, spaced so neighbours don't touch
+export function fanOffsets(count: number, spacing: number): { dx: number; dy: number }[] {
+  if (count < 2) return [{ dx: 0, dy: 0 }];
+  const ring = Math.max(spacing, (count * spacing) / (2 * Math.PI));
+  return Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / count;
+    return { dx: Math.round(ring * Math.cos(angle)), dy: Math.round(ring * Math.sin(angle)) };
+  });
+}
+
+// Points that would still overlap at max zoom are one stack and get fanned
+// out; stacks that overlap now but not at max zoom form a cluster.
+export function layoutMarkers(points: ScreenPoint[], { radius, maxScale }: LayoutOptions): MarkerLayout {
+  const layout: MarkerLayout = { markers: [], clusters: [] };
+  const stacks = groupNear(points, radius / Math.max(1, maxScale));
+  const anchors = new Map(stacks.map(stack => [stack[0], stack]));
+
+  for (const group of groupNear(stacks.map(stack => stack[0]), radius)) {
+    const members = group.flatMap(anchor => anchors.get(anchor)!);
+    if (group.length === 1) {
+      // Ring around the stack's first point rather than around each point
+      const [anchor] = group;
+      fanOffsets(members.length, radius).forEach(({ dx, dy }, i) => {
+        const point = members[i];
+        layout.markers.push({ ...point, dx: anchor.x - point.x + dx, dy: anchor.y - point.y + dy });
+      });
+    } else {
+      layout.clusters.push({
+        ids: members.map(point => point.id),
+        x: members.reduce((sum, point) => sum + point.x, 0) / members.length,
+        y: members.reduce((sum, point) => sum + point.y, 0) / members.length,
+      });
+    }
+  }
+  return layout;
+}
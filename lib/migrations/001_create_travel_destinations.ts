@@ -0,0 +1,42 @@
+import type { Migration } from './types';
+
+// IF NOT EXISTS so databases created before migrations existed adopt this
+// version without error.
+const migration: Migration = {
+  version: 1,
+  name: 'create_travel_destinations',
+  sqlite: `
+    CREATE TABLE IF NOT EXISTS travel_destinations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      rank INTEGER NOT NULL,
+      destination TEXT NOT NULL,
+      country TEXT NOT NULL,
+      latitude REAL NOT NULL,
+      longitude REAL NOT NULL,
+      reason TEXT NOT NULL DEFAULT '',
+      budget TEXT NOT NULL DEFAULT 'moderate',
+      timeline TEXT NOT NULL DEFAULT 'someday',
+      image_url TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+  postgres: `
+    CREATE TABLE IF NOT EXISTS travel_destinations (
+      id SERIAL PRIMARY KEY,
+      rank INTEGER NOT NULL,
+      destination TEXT NOT NULL,
+      country TEXT NOT NULL,
+      latitude DECIMAL(10, 8) NOT NULL,
+      longitude DECIMAL(11, 8) NOT NULL,
+      reason TEXT NOT NULL DEFAULT '',
+      budget TEXT NOT NULL DEFAULT 'moderate',
+      timeline TEXT NOT NULL DEFAULT 'someday',
+      image_url TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import type { Migration } from './types';
+
+// Older builds left gaps in rank when a destination was deleted. Renumber
+// everything 1..N, keeping the current order (ties broken by id).
+const renumber = `
+  UPDATE travel_destinations
+  SET rank = ordered.n
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY rank ASC, id ASC) AS n
+    FROM travel_destinations
+  ) AS ordered
+  WHERE travel_destinations.id = ordered.id
+    AND travel_destinations.rank != ordered.n
+`;
+
+const migration: Migration = {
+  version: 2,
+  name: 'densify_ranks',
+  sqlite: renumber,
+  postgres: renumber,
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import type { Migration } from './types';
+
+// Geocoder answers keyed on the normalised query; results is a JSON array of
+// GeocodeCandidate.
+const migration: Migration = {
+  version: 3,
+  name: 'create_geocode_cache',
+  sqlite: `
+    CREATE TABLE geocode_cache (
+      query TEXT PRIMARY KEY,
+      results TEXT NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+  postgres: `
+    CREATE TABLE geocode_cache (
+      query TEXT PRIMARY KEY,
+      results TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+};
+
+export default migration;
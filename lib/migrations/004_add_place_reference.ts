@@ -0,0 +1,20 @@
+import type { Migration } from './types';
+
+// The geocoder candidate a destination was placed from, so "Paris, US" stays
+// the Paris that was picked. All null for manually dropped pins.
+const migration: Migration = {
+  version: 4,
+  name: 'add_place_reference',
+  sqlite: `
+    ALTER TABLE travel_destinations ADD COLUMN place_name TEXT;
+    ALTER TABLE travel_destinations ADD COLUMN osm_type TEXT;
+    ALTER TABLE travel_destinations ADD COLUMN osm_id INTEGER;
+  `,
+  postgres: `
+    ALTER TABLE travel_destinations ADD COLUMN place_name TEXT;
+    ALTER TABLE travel_destinations ADD COLUMN osm_type TEXT;
+    ALTER TABLE travel_destinations ADD COLUMN osm_id BIGINT;
+  `,
+};
+
+export default migration;
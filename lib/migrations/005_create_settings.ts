@@ -0,0 +1,23 @@
+import type { Migration } from './types';
+
+// Key/value settings; value is the JSON-encoded setting
+const migration: Migration = {
+  version: 5,
+  name: 'create_settings',
+  sqlite: `
+    CREATE TABLE settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+  postgres: `
+    CREATE TABLE settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import type { Migration } from './types';
+
+// Per-category cost estimates, trip length and currency. budget stays as the
+// tier, now derived from these when any cost is set; older rows that saved
+// an empty or unknown tier are reset to moderate.
+const migration: Migration = {
+  version: 6,
+  name: 'add_budget_details',
+  sqlite: `
+    ALTER TABLE travel_destinations ADD COLUMN cost_flights REAL;
+    ALTER TABLE travel_destinations ADD COLUMN cost_lodging REAL;
+    ALTER TABLE travel_destinations ADD COLUMN cost_food REAL;
+    ALTER TABLE travel_destinations ADD COLUMN cost_activities REAL;
+    ALTER TABLE travel_destinations ADD COLUMN trip_days INTEGER;
+    ALTER TABLE travel_destinations ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+    UPDATE travel_destinations SET budget = 'moderate'
+    WHERE budget IS NULL OR budget NOT IN ('budget', 'moderate', 'luxury', 'ultra-luxury');
+  `,
+  postgres: `
+    ALTER TABLE travel_destinations ADD COLUMN cost_flights NUMERIC(12, 2);
+    ALTER TABLE travel_destinations ADD COLUMN cost_lodging NUMERIC(12, 2);
+    ALTER TABLE travel_destinations ADD COLUMN cost_food NUMERIC(12, 2);
+    ALTER TABLE travel_destinations ADD COLUMN cost_activities NUMERIC(12, 2);
+    ALTER TABLE travel_destinations ADD COLUMN trip_days INTEGER;
+    ALTER TABLE travel_destinations ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+    UPDATE travel_destinations SET budget = 'moderate'
+    WHERE budget IS NULL OR budget NOT IN ('budget', 'moderate', 'luxury', 'ultra-luxury');
+  `,
+};
+
+export default migration;
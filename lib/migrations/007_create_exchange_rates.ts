@@ -0,0 +1,24 @@
+import type { Migration } from './types';
+
+// Offline exchange rates, as units of currency per US dollar. USD itself is
+// implied and never stored.
+const migration: Migration = {
+  version: 7,
+  name: 'create_exchange_rates',
+  sqlite: `
+    CREATE TABLE exchange_rates (
+      currency TEXT PRIMARY KEY,
+      per_usd REAL NOT NULL,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+  postgres: `
+    CREATE TABLE exchange_rates (
+      currency TEXT PRIMARY KEY,
+      per_usd DOUBLE PRECISION NOT NULL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+};
+
+export default migration;
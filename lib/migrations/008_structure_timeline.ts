@@ -0,0 +1,66 @@
+import type { Migration } from './types';
+
+// Replace the fixed timeline strings ("2025-q1".."2025-q4", a bare year,
+// "someday") with a kind plus an inclusive ISO date range. Quarters become
+// month ranges; anything unrecognised becomes someday. The conversion is
+// written out here rather than imported so this migration never changes.
+
+type Converted = { kind: string; start: string | null; end: string | null };
+
+const QUARTER_DATES: Record<string, [string, string]> = {
+  '1': ['01-01', '03-31'],
+  '2': ['04-01', '06-30'],
+  '3': ['07-01', '09-30'],
+  '4': ['10-01', '12-31'],
+};
+
+function convert(value: string): Converted {
+  const quarter = value.match(/^(\d{4})-q([1-4])$/);
+  if (quarter) {
+    const [start, end] = QUARTER_DATES[quarter[2]];
+    return { kind: 'month', start: `${quarter[1]}-${start}`, end: `${quarter[1]}-${end}` };
+  }
+  if (/^\d{4}$/.test(value)) {
+    return { kind: 'year', start: `${value}-01-01`, end: `${value}-12-31` };
+  }
+  return { kind: 'someday', start: null, end: null };
+}
+
+const migration: Migration = {
+  version: 8,
+  name: 'structure_timeline',
+  sqlite: db => {
+    db.exec(`
+      ALTER TABLE travel_destinations ADD COLUMN timeline_kind TEXT NOT NULL DEFAULT 'someday';
+      ALTER TABLE travel_destinations ADD COLUMN timeline_start TEXT;
+      ALTER TABLE travel_destinations ADD COLUMN timeline_end TEXT;
+    `);
+    const rows = db.prepare('SELECT id, timeline FROM travel_destinations').all() as { id: number; timeline: string }[];
+    const update = db.prepare(
+      'UPDATE travel_destinations SET timeline_kind = ?, timeline_start = ?, timeline_end = ? WHERE id = ?'
+    );
+    for (const row of rows) {
+      const { kind, start, end } = convert(row.timeline);
+      update.run(kind, start, end, row.id);
+    }
+    db.exec('ALTER TABLE travel_destinations DROP COLUMN timeline');
+  },
+  postgres: async client => {
+    await client.query(`
+      ALTER TABLE travel_destinations ADD COLUMN timeline_kind TEXT NOT NULL DEFAULT 'someday';
+      ALTER TABLE travel_destinations ADD COLUMN timeline_start TEXT;
+      ALTER TABLE travel_destinations ADD COLUMN timeline_end TEXT;
+    `);
+    const { rows } = await client.query<{ id: number; timeline: string }>('SELECT id, timeline FROM travel_destinations');
+    for (const row of rows) {
+      const { kind, start, end } = convert(row.timeline);
+      await client.query(
+        'UPDATE travel_destinations SET timeline_kind = $1, timeline_start = $2, timeline_end = $3 WHERE id = $4',
+        [kind, start, end, row.id]
+      );
+    }
+    await client.query('ALTER TABLE travel_destinations DROP COLUMN timeline');
+  },
+};
+
+export default migration;
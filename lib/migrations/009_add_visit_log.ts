@@ -0,0 +1,65 @@
+import type { Migration } from './types';
+
+// Status lifecycle (wish, planned, booked, visited) and a log of the actual
+// trip. Visited items leave the ranking, so rank becomes nullable; SQLite
+// can't drop NOT NULL in place, so its table is rebuilt with the same columns.
+const migration: Migration = {
+  version: 9,
+  name: 'add_visit_log',
+  sqlite: `
+    CREATE TABLE travel_destinations_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      rank INTEGER,
+      destination TEXT NOT NULL,
+      country TEXT NOT NULL,
+      latitude REAL NOT NULL,
+      longitude REAL NOT NULL,
+      reason TEXT NOT NULL DEFAULT '',
+      budget TEXT NOT NULL DEFAULT 'moderate',
+      image_url TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      place_name TEXT,
+      osm_type TEXT,
+      osm_id INTEGER,
+      cost_flights REAL,
+      cost_lodging REAL,
+      cost_food REAL,
+      cost_activities REAL,
+      trip_days INTEGER,
+      currency TEXT NOT NULL DEFAULT 'USD',
+      timeline_kind TEXT NOT NULL DEFAULT 'someday',
+      timeline_start TEXT,
+      timeline_end TEXT,
+      status TEXT NOT NULL DEFAULT 'wish',
+      visited_start TEXT,
+      visited_end TEXT,
+      rating INTEGER,
+      notes TEXT NOT NULL DEFAULT ''
+    );
+    INSERT INTO travel_destinations_new (
+      id, rank, destination, country, latitude, longitude, reason, budget, image_url,
+      created_at, updated_at, place_name, osm_type, osm_id,
+      cost_flights, cost_lodging, cost_food, cost_activities, trip_days, currency,
+      timeline_kind, timeline_start, timeline_end
+    )
+    SELECT
+      id, rank, destination, country, latitude, longitude, reason, budget, image_url,
+      created_at, updated_at, place_name, osm_type, osm_id,
+      cost_flights, cost_lodging, cost_food, cost_activities, trip_days, currency,
+      timeline_kind, timeline_start, timeline_end
+    FROM travel_destinations;
+    DROP TABLE travel_destinations;
+    ALTER TABLE travel_destinations_new RENAME TO travel_destinations;
+  `,
+  postgres: `
+    ALTER TABLE travel_destinations ALTER COLUMN rank DROP NOT NULL;
+    ALTER TABLE travel_destinations ADD COLUMN status TEXT NOT NULL DEFAULT 'wish';
+    ALTER TABLE travel_destinations ADD COLUMN visited_start TEXT;
+    ALTER TABLE travel_destinations ADD COLUMN visited_end TEXT;
+    ALTER TABLE travel_destinations ADD COLUMN rating INTEGER;
+    ALTER TABLE travel_destinations ADD COLUMN notes TEXT NOT NULL DEFAULT '';
+  `,
+};
+
+export default migration;
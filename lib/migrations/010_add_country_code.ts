@@ -0,0 +1,324 @@
+import type { Migration } from './types';
+
+// ISO 3166-1 alpha-2 code resolved from the free-text country, so rows can be
+// matched to the map's country polygons. Null when the text doesn't resolve.
+// The resolver as it stood when this shipped is written out here rather than
+// imported from lib/countries, so this migration never changes; later
+// improvements to the resolver only apply to rows saved after them.
+
+// Normalised country names and aliases by code, from the map geodata
+const NAMES: Record<string, string[]> = {
+  AD: ['andorra'],
+  AE: ['united arab emirates', 'uae'],
+  AF: ['afghanistan'],
+  AG: ['antigua and barbuda'],
+  AI: ['anguilla'],
+  AL: ['albania'],
+  AM: ['armenia'],
+  AO: ['angola'],
+  AQ: ['antarctica'],
+  AR: ['argentina'],
+  AS: ['american samoa'],
+  AT: ['austria'],
+  AU: ['australia'],
+  AW: ['aruba'],
+  AX: ['aland islands'],
+  AZ: ['azerbaijan'],
+  BA: ['bosnia and herzegovina'],
+  BB: ['barbados'],
+  BD: ['bangladesh'],
+  BE: ['belgium'],
+  BF: ['burkina faso'],
+  BG: ['bulgaria'],
+  BH: ['bahrain'],
+  BI: ['burundi'],
+  BJ: ['benin'],
+  BL: ['saint barthelemy'],
+  BM: ['bermuda'],
+  BN: ['brunei darussalam'],
+  BO: ['bolivia plurinational state of', 'bolivia'],
+  BQ: ['bonaire sint eustatius and saba'],
+  BR: ['brazil'],
+  BS: ['bahamas'],
+  BT: ['bhutan'],
+  BV: ['bouvet island'],
+  BW: ['botswana'],
+  BY: ['belarus'],
+  BZ: ['belize'],
+  CA: ['canada'],
+  CC: ['cocos keeling islands'],
+  CD: ['congo the democratic republic of the'],
+  CF: ['central african republic'],
+  CG: ['congo'],
+  CH: ['switzerland'],
+  CI: ['cote divoire', 'ivory coast'],
+  CK: ['cook islands'],
+  CL: ['chile'],
+  CM: ['cameroon'],
+  CN: ['china'],
+  CO: ['colombia'],
+  CR: ['costa rica'],
+  CU: ['cuba'],
+  CV: ['cape verde'],
+  CW: ['curacao'],
+  CX: ['christmas island'],
+  CY: ['cyprus'],
+  CZ: ['czech republic', 'czechia'],
+  DE: ['germany'],
+  DJ: ['djibouti'],
+  DK: ['denmark'],
+  DM: ['dominica'],
+  DO: ['dominican republic'],
+  DZ: ['algeria'],
+  EC: ['ecuador'],
+  EE: ['estonia'],
+  EG: ['egypt'],
+  EH: ['western sahara'],
+  ER: ['eritrea'],
+  ES: ['spain'],
+  ET: ['ethiopia'],
+  FI: ['finland'],
+  FJ: ['fiji'],
+  FK: ['falkland islands malvinas'],
+  FM: ['micronesia federated states of'],
+  FO: ['faroe islands'],
+  FR: ['france'],
+  GA: ['gabon'],
+  GB: ['united kingdom', 'uk', 'england', 'scotland', 'wales', 'great britain'],
+  'GB-CHA': ['channel islands'],
+  GD: ['grenada'],
+  GE: ['georgia'],
+  GF: ['french guiana'],
+  GG: ['guernsey'],
+  GH: ['ghana'],
+  GI: ['gibraltar'],
+  GL: ['greenland'],
+  GM: ['gambia'],
+  GN: ['guinea'],
+  GP: ['guadeloupe'],
+  GQ: ['equatorial guinea'],
+  GR: ['greece'],
+  GS: ['south georgia and the south sandwich islands'],
+  GT: ['guatemala'],
+  GU: ['guam'],
+  GW: ['guinea bissau'],
+  GY: ['guyana'],
+  HK: ['hong kong'],
+  HM: ['heard island and mcdonald islands'],
+  HN: ['honduras'],
+  HR: ['croatia'],
+  HT: ['haiti'],
+  HU: ['hungary'],
+  ID: ['indonesia'],
+  IE: ['ireland'],
+  IL: ['israel'],
+  IM: ['isle of man'],
+  IN: ['india'],
+  IO: ['british indian ocean territory'],
+  IQ: ['iraq'],
+  IR: ['iran islamic republic of', 'iran'],
+  IS: ['iceland'],
+  IT: ['italy'],
+  JE: ['jersey'],
+  JM: ['jamaica'],
+  JO: ['jordan'],
+  JP: ['japan'],
+  KE: ['kenya'],
+  KG: ['kyrgyzstan'],
+  KH: ['cambodia'],
+  KI: ['kiribati'],
+  KM: ['comoros'],
+  KN: ['saint kitts and nevis'],
+  KP: ['korea democratic peoples republic of', 'north korea'],
+  KR: ['korea republic of', 'south korea', 'korea'],
+  KW: ['kuwait'],
+  KY: ['cayman islands'],
+  KZ: ['kazakhstan'],
+  LA: ['lao peoples democratic republic', 'laos'],
+  LB: ['lebanon'],
+  LC: ['saint lucia'],
+  LI: ['liechtenstein'],
+  LK: ['sri lanka'],
+  LR: ['liberia'],
+  LS: ['lesotho'],
+  LT: ['lithuania'],
+  LU: ['luxembourg'],
+  LV: ['latvia'],
+  LY: ['libya'],
+  MA: ['morocco'],
+  MC: ['monaco'],
+  MD: ['moldova republic of'],
+  ME: ['montenegro'],
+  MF: ['saint martin french part'],
+  MG: ['madagascar'],
+  MH: ['marshall islands'],
+  MK: ['north macedonia'],
+  ML: ['mali'],
+  MM: ['myanmar', 'burma'],
+  MN: ['mongolia'],
+  MO: ['macao'],
+  MP: ['northern mariana islands'],
+  MQ: ['martinique'],
+  MR: ['mauritania'],
+  MS: ['montserrat'],
+  MT: ['malta'],
+  MU: ['mauritius'],
+  MV: ['maldives'],
+  MW: ['malawi'],
+  MX: ['mexico'],
+  MY: ['malaysia'],
+  MZ: ['mozambique'],
+  NA: ['namibia'],
+  NC: ['new caledonia'],
+  NE: ['niger'],
+  NF: ['norfolk island'],
+  NG: ['nigeria'],
+  NI: ['nicaragua'],
+  NL: ['netherlands', 'holland', 'the netherlands'],
+  NO: ['norway'],
+  NP: ['nepal'],
+  NR: ['nauru'],
+  NU: ['niue'],
+  NZ: ['new zealand'],
+  OM: ['oman'],
+  PA: ['panama'],
+  PE: ['peru'],
+  PF: ['french polynesia'],
+  PG: ['papua new guinea'],
+  PH: ['philippines'],
+  PK: ['pakistan'],
+  PL: ['poland'],
+  PM: ['saint pierre and miquelon'],
+  PN: ['pitcairn'],
+  PR: ['puerto rico'],
+  PS: ['palestinian state of'],
+  PT: ['portugal'],
+  PW: ['palau'],
+  PY: ['paraguay'],
+  QA: ['qatar'],
+  RE: ['reunion'],
+  RO: ['romania'],
+  RS: ['serbia'],
+  RU: ['russian federation', 'russia'],
+  RW: ['rwanda'],
+  SA: ['saudi arabia'],
+  SB: ['solomon islands'],
+  SC: ['seychelles'],
+  SD: ['sudan'],
+  SE: ['sweden'],
+  SG: ['singapore'],
+  SH: ['saint helena ascension and tristan da cunha'],
+  SI: ['slovenia'],
+  SJ: ['svalbard and jan mayen'],
+  SK: ['slovakia'],
+  SL: ['sierra leone'],
+  SM: ['san marino'],
+  SN: ['senegal'],
+  SO: ['somalia'],
+  SR: ['suriname'],
+  SS: ['south sudan'],
+  ST: ['sao tome and principe'],
+  SV: ['el salvador'],
+  SX: ['sint maarten dutch part'],
+  SY: ['syrian arab republic', 'syria'],
+  SZ: ['swaziland'],
+  TC: ['turks and caicos islands'],
+  TD: ['chad'],
+  TF: ['french southern territories'],
+  TG: ['togo'],
+  TH: ['thailand'],
+  TJ: ['tajikistan'],
+  TK: ['tokelau'],
+  TL: ['timor leste'],
+  TM: ['turkmenistan'],
+  TN: ['tunisia'],
+  TO: ['tonga'],
+  TR: ['turkiye'],
+  TT: ['trinidad and tobago'],
+  TV: ['tuvalu'],
+  TW: ['taiwan'],
+  TZ: ['tanzania united republic of', 'tanzania'],
+  UA: ['ukraine'],
+  UG: ['uganda'],
+  UM: ['united states minor outlying islands'],
+  US: ['united states', 'usa', 'united states of america', 'america'],
+  UY: ['uruguay'],
+  UZ: ['uzbekistan'],
+  VA: ['holy see vatican city state', 'vatican city'],
+  VC: ['saint vincent and the grenadines'],
+  VE: ['venezuela bolivarian republic of', 'venezuela'],
+  VG: ['virgin islands british'],
+  VI: ['virgin islands us'],
+  VN: ['viet nam', 'vietnam'],
+  VU: ['vanuatu'],
+  WF: ['wallis and futuna'],
+  WS: ['samoa'],
+  XK: ['kosovo'],
+  YE: ['yemen'],
+  YT: ['mayotte'],
+  ZA: ['south africa'],
+  ZM: ['zambia'],
+  ZW: ['zimbabwe'],
+};
+
+let byName: Map<string, string> | null = null;
+
+function nameIndex(): Map<string, string> {
+  if (!byName) {
+    byName = new Map(Object.entries(NAMES).flatMap(([code, names]) => names.map(name => [name, code] as const)));
+  }
+  return byName;
+}
+
+// Lowercase, strip accents and punctuation: "Côte d'Ivoire" -> "cote divoire"
+function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// A code, an exact name or alias, or a unique name prefix ("Switz" -> "CH")
+function resolveCountryCode(input: string): string | null {
+  const normalized = normalizeName(input);
+  if (!normalized) return null;
+  if (/^[a-z]{2}$/.test(normalized) && NAMES[normalized.toUpperCase()]) {
+    return normalized.toUpperCase();
+  }
+  const index = nameIndex();
+  const exact = index.get(normalized);
+  if (exact) return exact;
+  const prefixed = new Set<string>();
+  for (const [name, code] of index) {
+    if (name.startsWith(normalized)) prefixed.add(code);
+  }
+  return prefixed.size === 1 ? [...prefixed][0] : null;
+}
+
+const migration: Migration = {
+  version: 10,
+  name: 'add_country_code',
+  sqlite: db => {
+    db.exec('ALTER TABLE travel_destinations ADD COLUMN country_code TEXT');
+    const rows = db.prepare('SELECT id, country FROM travel_destinations').all() as { id: number; country: string }[];
+    const update = db.prepare('UPDATE travel_destinations SET country_code = ? WHERE id = ?');
+    for (const row of rows) {
+      update.run(resolveCountryCode(row.country), row.id);
+    }
+  },
+  postgres: async client => {
+    await client.query('ALTER TABLE travel_destinations ADD COLUMN country_code TEXT');
+    const { rows } = await client.query<{ id: number; country: string }>('SELECT id, country FROM travel_destinations');
+    for (const row of rows) {
+      await client.query('UPDATE travel_destinations SET country_code = $1 WHERE id = $2', [
+        resolveCountryCode(row.country),
+        row.id,
+      ]);
+    }
+  },
+};
+
+export default migration;
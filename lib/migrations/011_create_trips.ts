@@ -0,0 +1,47 @@
+import type { Migration } from './types';
+
+// Multi-stop trips. Stops reference destinations in travel order; position
+// only orders them, so gaps left by a deleted destination are harmless. The
+// stores delete stops themselves, as the SQLite schema has no foreign keys.
+const migration: Migration = {
+  version: 11,
+  name: 'create_trips',
+  sqlite: `
+    CREATE TABLE trips (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      notes TEXT NOT NULL DEFAULT '',
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE trip_stops (
+      trip_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      destination_id INTEGER NOT NULL,
+      arrive_on TEXT,
+      depart_on TEXT,
+      PRIMARY KEY (trip_id, position)
+    );
+    CREATE INDEX trip_stops_destination ON trip_stops (destination_id);
+  `,
+  postgres: `
+    CREATE TABLE trips (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL,
+      notes TEXT NOT NULL DEFAULT '',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE trip_stops (
+      trip_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      destination_id INTEGER NOT NULL,
+      arrive_on TEXT,
+      depart_on TEXT,
+      PRIMARY KEY (trip_id, position)
+    );
+    CREATE INDEX trip_stops_destination ON trip_stops (destination_id);
+  `,
+};
+
+export default migration;
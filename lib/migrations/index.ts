@@ -0,0 +1,29 @@
+import type { Migration } from './types';
+import m001 from './001_create_travel_destinations';
+import m002 from './002_densify_ranks';
+import m003 from './003_create_geocode_cache';
+import m004 from './004_add_place_reference';
+import m005 from './005_create_settings';
+import m006 from './006_add_budget_details';
+import m007 from './007_create_exchange_rates';
+import m008 from './008_structure_timeline';
+import m009 from './009_add_visit_log';
+import m010 from './010_add_country_code';
+import m011 from './011_create_trips';
+
+export type { Migration } from './types';
+
+// Append new migrations here, in order. Never edit one that has shipped.
+export const migrations: Migration[] = [
+  m001,
+  m002,
+  m003,
+  m004,
+  m005,
+  m006,
+  m007,
+  m008,
+  m009,
+  m010,
+  m011,
+];
@@ -0,0 +1,83 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from './types';
+
+// Arbitrary key for pg_advisory_lock so concurrent cold starts don't race
+const POSTGRES_LOCK_KEY = 421_337;
+
+function pending(all: Migration[], applied: Set<number>): Migration[] {
+  return [...all]
+    .sort((a, b) => a.version - b.version)
+    .filter(m => !applied.has(m.version));
+}
+
+// Apply any pending migrations to a SQLite database. Returns the versions applied.
+export function migrateSqlite(db: Database.Database, all: Migration[]): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const rows = db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[];
+  const todo = pending(all, new Set(rows.map(r => r.version)));
+  const record = db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+
+  for (const migration of todo) {
+    db.transaction(() => {
+      if (typeof migration.sqlite === 'string') {
+        db.exec(migration.sqlite);
+      } else {
+        migration.sqlite(db);
+      }
+      record.run(migration.version, migration.name);
+    })();
+  }
+
+  return todo.map(m => m.version);
+}
+
+// Apply any pending migrations to Vercel Postgres. Returns the versions applied.
+export async function migratePostgres(all: Migration[]): Promise<number[]> {
+  const { db } = await import('@vercel/postgres');
+  const client = await db.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [POSTGRES_LOCK_KEY]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    const { rows } = await client.query<{ version: number }>('SELECT version FROM schema_migrations');
+    const todo = pending(all, new Set(rows.map(r => Number(r.version))));
+
+    for (const migration of todo) {
+      await client.query('BEGIN');
+      try {
+        if (typeof migration.postgres === 'string') {
+          await client.query(migration.postgres);
+        } else {
+          await migration.postgres(client);
+        }
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    }
+
+    return todo.map(m => m.version);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [POSTGRES_LOCK_KEY]).catch(() => undefined);
+    client.release();
+  }
+}
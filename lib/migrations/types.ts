@@ -0,0 +1,11 @@
+import type Database from 'better-sqlite3';
+import type { VercelPoolClient } from '@vercel/postgres';
+
+// A single schema change. Each backend gets either a SQL string or a function
+// for changes that need to transform data; both run inside a transaction.
+export interface Migration {
+  version: number;
+  name: string;
+  sqlite: string | ((db: Database.Database) => void);
+  postgres: string | ((client: VercelPoolClient) => Promise<void>);
+}
@@ -0,0 +1,119 @@
+import { ValidationError } from './errors';
+import type { RankUpdate } from './types';
+
+export class RankValidationError extends ValidationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RankValidationError';
+  }
+}
+
+// Check the shape of a PATCH /api/wishlist `ranks` payload
+export function parseRanks(value: unknown): RankUpdate[] {
+  if (!Array.isArray(value)) {
+    throw new RankValidationError('Ranks array is required');
+  }
+
+  return value.map((entry, index) => {
+    const { id, rank } = (entry ?? {}) as Record<string, unknown>;
+    if (!Number.isInteger(id) || !Number.isInteger(rank)) {
+      throw new RankValidationError(`ranks[${index}] must have integer "id" and "rank"`);
+    }
+    return { id: id as number, rank: rank as number };
+  });
+}
+
+// A reorder must mention every destination exactly once and assign ranks
+// 1..N with no gaps or duplicates.
+export function assertRankPermutation(ranks: RankUpdate[], existingIds: number[]): void {
+  const existing = new Set(existingIds);
+  const seenIds = new Set<number>();
+  const seenRanks = new Set<number>();
+
+  for (const { id, rank } of ranks) {
+    if (!existing.has(id)) {
+      throw new RankValidationError(`Destination ${id} does not exist`);
+    }
+    if (seenIds.has(id)) {
+      throw new RankValidationError(`Destination ${id} appears more than once`);
+    }
+    if (rank < 1 || rank > existingIds.length) {
+      throw new RankValidationError(`Rank ${rank} is out of range 1..${existingIds.length}`);
+    }
+    if (seenRanks.has(rank)) {
+      throw new RankValidationError(`Rank ${rank} is assigned more than once`);
+    }
+    seenIds.add(id);
+    seenRanks.add(rank);
+  }
+
+  const missing = existingIds.filter(id => !seenIds.has(id));
+  if (missing.length > 0) {
+    throw new RankValidationError(`Missing destinations: ${missing.join(', ')}`);
+  }
+}
+
+export type MoveTarget = { position: number } | { before: number } | { after: number };
+
+// Check the shape of a POST /api/wishlist/:id/move payload
+export function parseMoveTarget(body: unknown): MoveTarget {
+  const { position, before, after } = (body ?? {}) as Record<string, unknown>;
+  const given = [position, before, after].filter(v => v !== undefined);
+
+  if (given.length !== 1) {
+    throw new RankValidationError('Provide exactly one of "position", "before" or "after"');
+  }
+  if (position !== undefined) {
+    if (!Number.isInteger(position)) {
+      throw new RankValidationError('"position" must be an integer');
+    }
+    return { position: position as number };
+  }
+  if (before !== undefined) {
+    if (!Number.isInteger(before)) {
+      throw new RankValidationError('"before" must be a destination id');
+    }
+    return { before: before as number };
+  }
+  if (!Number.isInteger(after)) {
+    throw new RankValidationError('"after" must be a destination id');
+  }
+  return { after: after as number };
+}
+
+// Return orderedIds with id moved to the target slot. Positions are 1-based.
+export function applyMove(orderedIds: number[], id: number, target: MoveTarget): number[] {
+  const rest = orderedIds.filter(other => other !== id);
+  let index: number;
+
+  if ('position' in target) {
+    if (target.position < 1 || target.position > orderedIds.length) {
+      throw new RankValidationError(`Position ${target.position} is out of range 1..${orderedIds.length}`);
+    }
+    index = target.position - 1;
+  } else {
+    const anchor = 'before' in target ? target.before : target.after;
+    if (anchor === id) {
+      throw new RankValidationError('Cannot move a destination relative to itself');
+    }
+    const anchorIndex = rest.indexOf(anchor);
+    if (anchorIndex === -1) {
+      throw new RankValidationError(`Destination ${anchor} does not exist`);
+    }
+    index = 'before' in target ? anchorIndex : anchorIndex + 1;
+  }
+
+  rest.splice(index, 0, id);
+  return rest;
+}
+
+// Insert a new id at the given 1-based rank, clamped to the ends of the list.
+// Without a rank the id is appended.
+export function insertAt(orderedIds: number[], id: number, rank?: number): number[] {
+  const rest = orderedIds.filter(other => other !== id);
+  const index = rank === undefined
+    ? rest.length
+    : Math.min(Math.max(rank, 1), rest.length + 1) - 1;
+  rest.splice(index, 0, id);
+  return rest;
+}
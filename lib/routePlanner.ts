@@ -0,0 +1,75 @@
+import { haversineKm } from './geo';
+import { tripLeg } from './trips';
+import type { Origin, PlannedRoute } from './types';
+
+export interface RouteStop extends Origin {
+  id: number;
+}
+
+// Flights along points in order; a closed tour adds the way back
+function legsFor(points: Origin[], closed: boolean) {
+  const route = closed && points.length > 1 ? [...points, points[0]] : points;
+  return route.slice(1).map((point, index) => tripLeg(route[index], point));
+}
+
+// Greedy start: from the origin, always fly to the closest unvisited stop
+function nearestNeighbour(count: number, dist: number[][]): number[] {
+  const path = [0];
+  const left = new Set(Array.from({ length: count - 1 }, (_, i) => i + 1));
+  while (left.size > 0) {
+    const from = path[path.length - 1];
+    let best = -1;
+    for (const to of left) {
+      if (best === -1 || dist[from][to] < dist[from][best]) best = to;
+    }
+    path.push(best);
+    left.delete(best);
+  }
+  return path;
+}
+
+// Reverse any stretch of the path that makes it shorter, until none does.
+// The origin stays first; an open path has no edge after its last stop.
+function twoOpt(path: number[], dist: number[][], closed: boolean): number[] {
+  const result = [...path];
+  const n = result.length;
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < n - 1; i++) {
+      for (let k = i + 1; k < n; k++) {
+        const a = result[i - 1];
+        const b = result[i];
+        const c = result[k];
+        const next = k + 1 < n ? result[k + 1] : closed ? result[0] : undefined;
+        const before = dist[a][b] + (next === undefined ? 0 : dist[c][next]);
+        const after = dist[a][c] + (next === undefined ? 0 : dist[b][next]);
+        if (after < before - 1e-9) {
+          result.splice(i, k - i + 1, ...result.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+  return result;
+}
+
+// Suggest the order to visit stops from origin over great-circle distances.
+// Nearest neighbour then 2-opt: not always optimal, but close for trip-sized
+// inputs and fast enough to run on every request.
+export function planRoute(origin: Origin, stops: RouteStop[], closed: boolean): PlannedRoute {
+  const points: Origin[] = [origin, ...stops];
+  const dist = points.map(a => points.map(b => haversineKm(a, b)));
+  const path = twoOpt(nearestNeighbour(points.length, dist), dist, closed);
+
+  const legs = legsFor(path.map(index => points[index]), closed);
+
+  return {
+    closed,
+    order: path.slice(1).map(index => stops[index - 1].id),
+    legs,
+    distance_km: legs.reduce((sum, leg) => sum + leg.distance_km, 0),
+    flight_minutes: legs.reduce((sum, leg) => sum + leg.flight_minutes, 0),
+    given_distance_km: legsFor(points, closed).reduce((sum, leg) => sum + leg.distance_km, 0),
+  };
+}
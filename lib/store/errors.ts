@@ -0,0 +1,51 @@
+import {
+  ConflictError,
+  NotFoundError,
+  StorageUnavailableError,
+  ValidationError,
+} from '../errors';
+
+// Postgres SQLSTATEs that mean "your write clashed", not "the database is broken":
+// unique_violation, foreign_key_violation, serialization_failure, deadlock_detected
+const POSTGRES_CONFLICT_CODES = new Set(['23505', '23503', '40001', '40P01']);
+
+// Error classes the drivers throw: better-sqlite3, @vercel/postgres and the
+// Neon client underneath it
+const DRIVER_ERROR_NAMES = new Set(['SqliteError', 'VercelPostgresError', 'NeonDbError']);
+
+// Whether error came from the database or the connection to it rather than
+// from our own code. Drivers tag their errors with a code: SQLITE_* from
+// better-sqlite3, a five-character SQLSTATE from Postgres, or a system code
+// like ECONNREFUSED from the network.
+function isDriverError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (DRIVER_ERROR_NAMES.has(error.name)) return true;
+  const { code, syscall } = error as { code?: unknown; syscall?: unknown };
+  if (typeof code !== 'string') return false;
+  return code.startsWith('SQLITE_') || /^[0-9A-Z]{5}$/.test(code) || (typeof syscall === 'string' && /^E[A-Z]+$/.test(code));
+}
+
+// Translate a raw driver error into one of the typed errors from lib/errors.
+// Typed errors pass through untouched, and so does anything that isn't a
+// driver error: a bug should surface as a 500, not pass for an outage.
+export function toStoreError(error: unknown): unknown {
+  if (
+    error instanceof ValidationError ||
+    error instanceof NotFoundError ||
+    error instanceof ConflictError ||
+    error instanceof StorageUnavailableError ||
+    !isDriverError(error)
+  ) {
+    return error;
+  }
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === 'string') {
+    // better-sqlite3 reports e.g. SQLITE_CONSTRAINT_UNIQUE
+    if (code.startsWith('SQLITE_CONSTRAINT') || POSTGRES_CONFLICT_CODES.has(code)) {
+      return new ConflictError('The change conflicts with existing data', { cause: error });
+    }
+  }
+
+  return new StorageUnavailableError(undefined, { cause: error });
+}
@@ -0,0 +1,48 @@
+import { createMemoryStore } from './memory';
+import { createPostgresStore } from './postgres';
+import { createSqliteStore } from './sqlite';
+import type { WishlistStore } from './types';
+
+export type { WishlistStore } from './types';
+export { createMemoryStore, createPostgresStore, createSqliteStore };
+
+export type StoreKind = 'postgres' | 'sqlite' | 'memory';
+
+// WISHLIST_STORE wins if set; otherwise Postgres when Vercel provides
+// POSTGRES_URL (production) and SQLite for local development.
+export function resolveStoreKind(env: NodeJS.ProcessEnv = process.env): StoreKind {
+  const explicit = env.WISHLIST_STORE;
+  if (explicit === 'postgres' || explicit === 'sqlite' || explicit === 'memory') {
+    return explicit;
+  }
+  return env.POSTGRES_URL !== undefined ? 'postgres' : 'sqlite';
+}
+
+// Stores run pending migrations on first use unless AUTO_MIGRATE=false
+export function createStore(
+  kind: StoreKind = resolveStoreKind(),
+  autoMigrate: boolean = process.env.AUTO_MIGRATE !== 'false'
+): WishlistStore {
+  switch (kind) {
+    case 'postgres':
+      return createPostgresStore(autoMigrate);
+    case 'memory':
+      return createMemoryStore();
+    case 'sqlite':
+      return createSqliteStore(process.env.SQLITE_PATH || undefined, autoMigrate);
+  }
+}
+
+let activeStore: WishlistStore | null = null;
+
+export function getStore(): WishlistStore {
+  if (!activeStore) {
+    activeStore = createStore();
+  }
+  return activeStore;
+}
+
+// Swap the active store, e.g. to run the API routes against createMemoryStore()
+export function setStore(store: WishlistStore | null): void {
+  activeStore = store;
+}
@@ -0,0 +1,111 @@
+import { haversineKm } from '../geo';
+import { isPastDue, todayIso } from '../timeline';
+import type { ListQuery, TravelDestination } from '../types';
+
+// Escape LIKE wildcards so a search for "100%" matches literally
+function likePattern(q: string): string {
+  return `%${q.toLowerCase().replace(/[\\%_]/g, ch => `\\${ch}`)}%`;
+}
+
+// WHERE clause shared by the SQL stores. `placeholder` renders the nth
+// parameter (1-based) in the driver's syntax: "?" for SQLite, "$n" for Postgres.
+export function buildListFilters(
+  query: ListQuery,
+  placeholder: (index: number) => string
+): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const next = (value: unknown) => {
+    params.push(value);
+    return placeholder(params.length);
+  };
+
+  if (query.country) {
+    conditions.push(`LOWER(country) = LOWER(${next(query.country)})`);
+  }
+  if (query.country_code) {
+    conditions.push(`country_code = ${next(query.country_code)}`);
+  }
+  if (query.timeline === 'someday') {
+    conditions.push(`timeline_kind = 'someday'`);
+  } else if (query.timeline === 'past_due') {
+    conditions.push(`timeline_end < ${next(todayIso())} AND status <> 'visited'`);
+  } else if (query.timeline === 'upcoming') {
+    conditions.push(`timeline_end >= ${next(todayIso())}`);
+  } else if (query.timeline) {
+    // A year: the planned window overlaps it
+    conditions.push(`timeline_start <= ${next(`${query.timeline}-12-31`)} AND timeline_end >= ${next(`${query.timeline}-01-01`)}`);
+  }
+  if (query.budget) {
+    conditions.push(`budget = ${next(query.budget)}`);
+  }
+  if (query.status === 'active') {
+    conditions.push(`status != 'visited'`);
+  } else if (query.status) {
+    conditions.push(`status = ${next(query.status)}`);
+  }
+  if (query.q) {
+    const pattern = likePattern(query.q);
+    conditions.push(
+      `(LOWER(destination) LIKE ${next(pattern)} ESCAPE '\\'` +
+      ` OR LOWER(country) LIKE ${next(pattern)} ESCAPE '\\'` +
+      ` OR LOWER(reason) LIKE ${next(pattern)} ESCAPE '\\')`
+    );
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+function matchesTimeline(row: TravelDestination, filter: string | undefined): boolean {
+  if (!filter) return true;
+  if (filter === 'someday') return row.timeline_kind === 'someday';
+  if (filter === 'past_due') return isPastDue(row);
+  if (filter === 'upcoming') return row.timeline_end !== null && row.timeline_end >= todayIso();
+  return row.timeline_start !== null && row.timeline_end !== null &&
+    row.timeline_start <= `${filter}-12-31` && row.timeline_end >= `${filter}-01-01`;
+}
+
+// The same query applied to rows in memory, for the in-memory store
+export function applyListQuery(rows: TravelDestination[], query: ListQuery): { items: TravelDestination[]; total: number } {
+  const q = query.q?.toLowerCase();
+  const matches = rows.filter(row =>
+    (!query.country || row.country.toLowerCase() === query.country.toLowerCase()) &&
+    (!query.country_code || row.country_code === query.country_code) &&
+    matchesTimeline(row, query.timeline) &&
+    (!query.budget || row.budget === query.budget) &&
+    (!query.status || (query.status === 'active' ? row.status !== 'visited' : row.status === query.status)) &&
+    (!q || [row.destination, row.country, row.reason].some(field => field.toLowerCase().includes(q)))
+  );
+
+  // Null keys (the rank of a visited item) sort last in either order
+  const key = (row: TravelDestination): number | string | null => {
+    switch (query.sort) {
+      case 'distance':
+        return haversineKm(query.origin, row);
+      case 'created_at':
+      case 'updated_at':
+        return row[query.sort];
+      default:
+        return row.rank;
+    }
+  };
+  const direction = query.order === 'desc' ? -1 : 1;
+  matches.sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    if (ka === null || kb === null) {
+      if (ka !== kb) return ka === null ? 1 : -1;
+    } else if (ka < kb) {
+      return -direction;
+    } else if (ka > kb) {
+      return direction;
+    }
+    return (a.id - b.id) * direction;
+  });
+
+  const end = query.limit !== undefined ? query.offset + query.limit : undefined;
+  return { items: matches.slice(query.offset, end), total: matches.length };
+}
@@ -0,0 +1,282 @@
+import { DEFAULT_CURRENCY } from '../budget';
+import type { GeocodeCandidate } from '../geocode/types';
+import { applyMove, assertRankPermutation, insertAt, RankValidationError, type MoveTarget } from '../ranks';
+import type {
+  ExchangeRate,
+  ImportPlan,
+  ListQuery,
+  NewExchangeRate,
+  NewTravelDestination,
+  NewTrip,
+  RankUpdate,
+  TravelDestination,
+  Trip,
+} from '../types';
+import { applyListQuery } from './listQuery';
+import { mergeDestination, rankChange, type WishlistStore } from './types';
+
+// Same shape SQLite's CURRENT_TIMESTAMP produces, e.g. "2026-10-19 08:30:00"
+function timestamp(): string {
+  return new Date().toISOString().replace('T', ' ').slice(0, 19);
+}
+
+// In-memory store for tests and throwaway environments. Nothing is persisted.
+export function createMemoryStore(seed: TravelDestination[] = []): WishlistStore {
+  let rows: TravelDestination[] = seed.map(row => ({ ...row }));
+  let nextId = rows.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+  const geocodeCache = new Map<string, GeocodeCandidate[]>();
+  // Stored as JSON so callers never share references with the store
+  const settings = new Map<string, string>();
+  const rates = new Map<string, ExchangeRate>();
+  let trips: Trip[] = [];
+  let nextTripId = 1;
+
+  // Rank order; visited items have no rank and come last
+  function ordered(): TravelDestination[] {
+    return [...rows].sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || a.id - b.id);
+  }
+
+  // The active ranking: everything not yet visited
+  function orderedIds(): number[] {
+    return ordered().filter(r => r.status !== 'visited').map(r => r.id);
+  }
+
+  // Rewrite ranks as 1..N in the given order, touching only rows that change
+  function writeOrder(ids: number[]): void {
+    const now = timestamp();
+    ids.forEach((id, index) => {
+      const row = rows.find(r => r.id === id)!;
+      if (row.rank !== index + 1) {
+        row.rank = index + 1;
+        row.updated_at = now;
+      }
+    });
+  }
+
+  function newRow(item: NewTravelDestination, rank: number | null, now: string): TravelDestination {
+    return {
+      id: nextId++,
+      rank,
+      destination: item.destination,
+      country: item.country,
+      country_code: item.country_code ?? null,
+      latitude: item.latitude,
+      longitude: item.longitude,
+      reason: item.reason,
+      budget: item.budget,
+      timeline_kind: item.timeline_kind,
+      timeline_start: item.timeline_start,
+      timeline_end: item.timeline_end,
+      image_url: item.image_url || null,
+      place_name: item.place_name ?? null,
+      osm_type: item.osm_type ?? null,
+      osm_id: item.osm_id ?? null,
+      cost_flights: item.cost_flights ?? null,
+      cost_lodging: item.cost_lodging ?? null,
+      cost_food: item.cost_food ?? null,
+      cost_activities: item.cost_activities ?? null,
+      trip_days: item.trip_days ?? null,
+      currency: item.currency ?? DEFAULT_CURRENCY,
+      status: item.status,
+      visited_start: item.visited_start ?? null,
+      visited_end: item.visited_end ?? null,
+      rating: item.rating ?? null,
+      notes: item.notes,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  const getAll = async (): Promise<TravelDestination[]> => {
+    return ordered().map(row => ({ ...row }));
+  };
+
+  const getById = async (id: number): Promise<TravelDestination | undefined> => {
+    const row = rows.find(r => r.id === id);
+    return row ? { ...row } : undefined;
+  };
+
+  function copyTrip(trip: Trip): Trip {
+    return { ...trip, stops: trip.stops.map(stop => ({ ...stop })) };
+  }
+
+  return {
+    async migrate() {
+      return [];
+    },
+
+    getAll,
+
+    async list(query: ListQuery) {
+      const { items, total } = applyListQuery(rows, query);
+      return { items: items.map(row => ({ ...row })), total };
+    },
+
+    getById,
+
+    async create(item: NewTravelDestination) {
+      const now = timestamp();
+      const before = orderedIds();
+      const row = newRow(item, item.status === 'visited' ? null : before.length + 1, now);
+      rows.push(row);
+      if (row.rank !== null) {
+        writeOrder(insertAt(before, row.id, item.rank));
+      }
+      return { ...row };
+    },
+
+    async update(id: number, item: Partial<NewTravelDestination>) {
+      const index = rows.findIndex(r => r.id === id);
+      if (index === -1) return undefined;
+
+      const existing = rows[index];
+      rows[index] = {
+        ...existing,
+        ...mergeDestination(existing, item),
+        updated_at: timestamp(),
+      };
+      const change = rankChange(existing, item);
+      if (change === 'leave') {
+        rows[index].rank = null;
+        writeOrder(orderedIds());
+      } else if (change === 'insert') {
+        writeOrder(insertAt(orderedIds(), id, item.rank));
+      }
+      return { ...rows[index] };
+    },
+
+    async remove(id: number) {
+      const before = rows.length;
+      rows = rows.filter(r => r.id !== id);
+      if (rows.length === before) return false;
+      writeOrder(orderedIds());
+      for (const trip of trips) {
+        trip.stops = trip.stops.filter(stop => stop.destination_id !== id);
+      }
+      return true;
+    },
+
+    async move(id: number, target: MoveTarget) {
+      const ids = orderedIds();
+      if (!ids.includes(id)) {
+        if (rows.some(r => r.id === id)) throw new RankValidationError('Visited destinations are not ranked');
+        return undefined;
+      }
+      writeOrder(applyMove(ids, id, target));
+      return getAll();
+    },
+
+    async updateRanks(ranks: RankUpdate[]) {
+      // Validate before touching anything so a bad payload changes nothing
+      assertRankPermutation(ranks, orderedIds());
+      const now = timestamp();
+      for (const { id, rank } of ranks) {
+        const row = rows.find(r => r.id === id)!;
+        row.rank = rank;
+        row.updated_at = now;
+      }
+      return getAll();
+    },
+
+    async importDestinations(plan: ImportPlan) {
+      const now = timestamp();
+      if (plan.replace) {
+        rows = [];
+        for (const trip of trips) {
+          trip.stops = [];
+        }
+      }
+      // Rows that join the ranking get no rank, which sorts them after the
+      // ranked ones in id order until writeOrder numbers them
+      for (const { id, item } of plan.updates) {
+        const index = rows.findIndex(r => r.id === id);
+        if (index === -1) continue;
+        const existing = rows[index];
+        rows[index] = { ...existing, ...mergeDestination(existing, item), updated_at: now };
+        if (rankChange(existing, item) !== 'none') {
+          rows[index].rank = null;
+        }
+      }
+      for (const item of plan.creates) {
+        rows.push(newRow(item, null, now));
+      }
+      writeOrder(orderedIds());
+      return getAll();
+    },
+
+    async getCachedGeocode(query: string) {
+      const results = geocodeCache.get(query);
+      return results ? results.map(r => ({ ...r })) : undefined;
+    },
+
+    async putCachedGeocode(query: string, results: GeocodeCandidate[]) {
+      geocodeCache.set(query, results.map(r => ({ ...r })));
+    },
+
+    async getSettings() {
+      return Object.fromEntries([...settings].map(([key, value]) => [key, JSON.parse(value)]));
+    },
+
+    async putSettings(values: Record<string, unknown>) {
+      for (const [key, value] of Object.entries(values)) {
+        settings.set(key, JSON.stringify(value));
+      }
+    },
+
+    async getRates() {
+      return [...rates.values()]
+        .sort((a, b) => a.currency.localeCompare(b.currency))
+        .map(rate => ({ ...rate }));
+    },
+
+    async putRates(newRates: NewExchangeRate[], replace: boolean) {
+      if (replace) rates.clear();
+      const now = timestamp();
+      for (const rate of newRates) {
+        rates.set(rate.currency, { currency: rate.currency, per_usd: rate.per_usd, updated_at: now });
+      }
+    },
+
+    async getTrips() {
+      return trips.map(copyTrip);
+    },
+
+    async getTrip(id: number) {
+      const trip = trips.find(t => t.id === id);
+      return trip ? copyTrip(trip) : undefined;
+    },
+
+    async createTrip(trip: NewTrip) {
+      const now = timestamp();
+      const created: Trip = {
+        id: nextTripId++,
+        name: trip.name,
+        notes: trip.notes,
+        stops: trip.stops.map(stop => ({ ...stop })),
+        created_at: now,
+        updated_at: now,
+      };
+      trips.push(created);
+      return copyTrip(created);
+    },
+
+    async updateTrip(id: number, trip: NewTrip) {
+      const index = trips.findIndex(t => t.id === id);
+      if (index === -1) return undefined;
+      trips[index] = {
+        ...trips[index],
+        name: trip.name,
+        notes: trip.notes,
+        stops: trip.stops.map(stop => ({ ...stop })),
+        updated_at: timestamp(),
+      };
+      return copyTrip(trips[index]);
+    },
+
+    async removeTrip(id: number) {
+      const before = trips.length;
+      trips = trips.filter(t => t.id !== id);
+      return trips.length !== before;
+    },
+  };
+}
@@ -0,0 +1,432 @@
+import type { VercelPoolClient } from '@vercel/postgres';
+import { DEFAULT_CURRENCY } from '../budget';
+import { EARTH_RADIUS_KM } from '../geo';
+import type { GeocodeCandidate } from '../geocode/types';
+import { migrations } from '../migrations';
+import { migratePostgres } from '../migrations/runner';
+import { applyMove, assertRankPermutation, insertAt, RankValidationError, type MoveTarget } from '../ranks';
+import type {
+  ExchangeRate,
+  ImportPlan,
+  ListQuery,
+  NewExchangeRate,
+  NewTravelDestination,
+  NewTrip,
+  RankUpdate,
+  TravelDestination,
+  Trip,
+  TripStop,
+} from '../types';
+import { buildListFilters } from './listQuery';
+import { attachStops, mergeDestination, rankChange, type WishlistStore } from './types';
+
+// Arbitrary key for the transaction-scoped lock every rank write takes;
+// differs from the migration runner's
+const RANKING_LOCK_KEY = 421_338;
+
+// Helper to convert Postgres row to proper types (DECIMAL comes as string)
+export function normalizeRow(row: Record<string, unknown>): TravelDestination {
+  return {
+    ...row,
+    latitude: typeof row.latitude === 'string' ? parseFloat(row.latitude) : row.latitude,
+    longitude: typeof row.longitude === 'string' ? parseFloat(row.longitude) : row.longitude,
+    rank: typeof row.rank === 'string' ? parseInt(row.rank, 10) : row.rank ?? null,
+    id: typeof row.id === 'string' ? parseInt(row.id, 10) : row.id,
+    // BIGINT comes back as a string too
+    osm_id: typeof row.osm_id === 'string' ? parseInt(row.osm_id, 10) : row.osm_id,
+    // NUMERIC too
+    cost_flights: typeof row.cost_flights === 'string' ? parseFloat(row.cost_flights) : row.cost_flights,
+    cost_lodging: typeof row.cost_lodging === 'string' ? parseFloat(row.cost_lodging) : row.cost_lodging,
+    cost_food: typeof row.cost_food === 'string' ? parseFloat(row.cost_food) : row.cost_food,
+    cost_activities: typeof row.cost_activities === 'string' ? parseFloat(row.cost_activities) : row.cost_activities,
+  } as TravelDestination;
+}
+
+// Vercel Postgres store for production. Pending migrations run once per
+// process, on first use, unless autoMigrate is false.
+export function createPostgresStore(autoMigrate: boolean = true): WishlistStore {
+  let migrated: Promise<number[]> | null = null;
+
+  const migrate = (): Promise<number[]> => {
+    if (!migrated) {
+      migrated = migratePostgres(migrations).catch(error => {
+        migrated = null;
+        throw error;
+      });
+    }
+    return migrated;
+  };
+
+  async function getSql() {
+    if (autoMigrate) {
+      await migrate();
+    }
+    const { sql } = await import('@vercel/postgres');
+    return sql;
+  }
+
+  // Run fn on a dedicated pooled connection inside BEGIN/COMMIT
+  async function withTransaction<T>(fn: (client: VercelPoolClient) => Promise<T>): Promise<T> {
+    if (autoMigrate) {
+      await migrate();
+    }
+    const { db } = await import('@vercel/postgres');
+    const client = await db.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Ids of the active ranking (not yet visited) in rank order. Every row is
+  // locked, visited or not, so concurrent reorders can't interleave. Row
+  // locks can't cover rows that don't exist yet, so the transaction also
+  // holds the ranking lock: two creates can't both append at the same rank.
+  async function lockedIds(client: VercelPoolClient): Promise<number[]> {
+    await client.query('SELECT pg_advisory_xact_lock($1)', [RANKING_LOCK_KEY]);
+    const { rows } = await client.sql`
+      SELECT id, status FROM travel_destinations ORDER BY rank ASC NULLS LAST, id ASC FOR UPDATE
+    `;
+    return rows.filter(r => r.status !== 'visited').map(r => Number(r.id));
+  }
+
+  async function selectAll(client: VercelPoolClient): Promise<TravelDestination[]> {
+    const { rows } = await client.sql`SELECT * FROM travel_destinations ORDER BY rank ASC NULLS LAST, id ASC`;
+    return rows.map(normalizeRow);
+  }
+
+  // Rewrite ranks as 1..N in the given order, touching only rows that change
+  async function writeOrder(client: VercelPoolClient, ids: number[]): Promise<void> {
+    await client.query(
+      `UPDATE travel_destinations AS t
+       SET rank = v.rank, updated_at = CURRENT_TIMESTAMP
+       FROM unnest($1::int[]) WITH ORDINALITY AS v(id, rank)
+       WHERE t.id = v.id AND t.rank IS DISTINCT FROM v.rank`,
+      [ids]
+    );
+  }
+
+  async function insertRow(client: VercelPoolClient, item: NewTravelDestination, rank: number | null): Promise<number> {
+    const { rows } = await client.sql`
+      INSERT INTO travel_destinations (
+        rank, destination, country, latitude, longitude, reason, budget, image_url,
+        place_name, osm_type, osm_id,
+        cost_flights, cost_lodging, cost_food, cost_activities, trip_days, currency,
+        timeline_kind, timeline_start, timeline_end,
+        status, visited_start, visited_end, rating, notes, country_code
+      )
+      VALUES (
+        ${rank}, ${item.destination}, ${item.country}, ${item.latitude}, ${item.longitude}, ${item.reason}, ${item.budget}, ${item.image_url || null},
+        ${item.place_name ?? null}, ${item.osm_type ?? null}, ${item.osm_id ?? null},
+        ${item.cost_flights ?? null}, ${item.cost_lodging ?? null}, ${item.cost_food ?? null}, ${item.cost_activities ?? null}, ${item.trip_days ?? null}, ${item.currency ?? DEFAULT_CURRENCY},
+        ${item.timeline_kind}, ${item.timeline_start}, ${item.timeline_end},
+        ${item.status}, ${item.visited_start ?? null}, ${item.visited_end ?? null}, ${item.rating ?? null}, ${item.notes}, ${item.country_code ?? null}
+      )
+      RETURNING id
+    `;
+    return Number(rows[0].id);
+  }
+
+  async function updateRow(
+    client: VercelPoolClient,
+    id: number,
+    merged: ReturnType<typeof mergeDestination>
+  ): Promise<void> {
+    await client.sql`
+      UPDATE travel_destinations
+      SET destination = ${merged.destination},
+          country = ${merged.country},
+          latitude = ${merged.latitude},
+          longitude = ${merged.longitude},
+          reason = ${merged.reason},
+          budget = ${merged.budget},
+          image_url = ${merged.image_url},
+          place_name = ${merged.place_name},
+          osm_type = ${merged.osm_type},
+          osm_id = ${merged.osm_id},
+          cost_flights = ${merged.cost_flights},
+          cost_lodging = ${merged.cost_lodging},
+          cost_food = ${merged.cost_food},
+          cost_activities = ${merged.cost_activities},
+          trip_days = ${merged.trip_days},
+          currency = ${merged.currency},
+          timeline_kind = ${merged.timeline_kind},
+          timeline_start = ${merged.timeline_start},
+          timeline_end = ${merged.timeline_end},
+          status = ${merged.status},
+          visited_start = ${merged.visited_start},
+          visited_end = ${merged.visited_end},
+          rating = ${merged.rating},
+          notes = ${merged.notes},
+          country_code = ${merged.country_code},
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${id}
+    `;
+  }
+
+  // Every trip, or just the one with id, with its stops. db is the pool or a
+  // transaction's client.
+  async function selectTrips(db: Pick<VercelPoolClient, 'query'>, id?: number): Promise<Trip[]> {
+    const params = id === undefined ? [] : [id];
+    const { rows: trips } = await db.query(
+      `SELECT * FROM trips ${id === undefined ? '' : 'WHERE id = $1'} ORDER BY id`,
+      params
+    );
+    const { rows: stops } = await db.query(
+      `SELECT trip_id, destination_id, arrive_on, depart_on FROM trip_stops
+       ${id === undefined ? '' : 'WHERE trip_id = $1'} ORDER BY trip_id, position`,
+      params
+    );
+    return attachStops(trips as Omit<Trip, 'stops'>[], stops as (TripStop & { trip_id: number })[]);
+  }
+
+  async function writeStops(client: VercelPoolClient, tripId: number, stops: TripStop[]): Promise<void> {
+    await client.sql`DELETE FROM trip_stops WHERE trip_id = ${tripId}`;
+    await client.query(
+      `INSERT INTO trip_stops (trip_id, position, destination_id, arrive_on, depart_on)
+       SELECT $1, v.position, v.destination_id, v.arrive_on, v.depart_on
+       FROM unnest($2::int[], $3::text[], $4::text[]) WITH ORDINALITY AS v(destination_id, arrive_on, depart_on, position)`,
+      [tripId, stops.map(s => s.destination_id), stops.map(s => s.arrive_on), stops.map(s => s.depart_on)]
+    );
+  }
+
+  return {
+    migrate,
+
+    async getAll() {
+      const sql = await getSql();
+      const { rows } = await sql`SELECT * FROM travel_destinations ORDER BY rank ASC NULLS LAST, id ASC`;
+      return rows.map(normalizeRow);
+    },
+
+    async list(query: ListQuery) {
+      const sql = await getSql();
+      const { where, params } = buildListFilters(query, index => `$${index}`);
+      const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+      const orderParams: unknown[] = [];
+      let orderBy: string;
+      if (query.sort === 'distance') {
+        const lat = `$${params.length + 1}`;
+        const lon = `$${params.length + 2}`;
+        orderBy = `${EARTH_RADIUS_KM} * 2 * ASIN(LEAST(1, SQRT(
+          POWER(SIN(RADIANS(latitude - ${lat}::float8) / 2), 2) +
+          COS(RADIANS(${lat}::float8)) * COS(RADIANS(latitude)) * POWER(SIN(RADIANS(longitude - ${lon}::float8) / 2), 2)
+        ))) ${direction}`;
+        orderParams.push(query.origin.latitude, query.origin.longitude);
+      } else {
+        // Visited items have no rank and stay last either way
+        orderBy = query.sort === 'rank' ? `rank ${direction} NULLS LAST` : `${query.sort} ${direction}`;
+      }
+      const limitIndex = params.length + orderParams.length + 1;
+
+      const { rows: counted } = await sql.query(`SELECT COUNT(*) AS total FROM travel_destinations ${where}`, params);
+      const { rows } = await sql.query(
+        `SELECT * FROM travel_destinations ${where}
+         ORDER BY ${orderBy}, id ${direction}
+         LIMIT $${limitIndex} OFFSET $${limitIndex + 1}`,
+        [...params, ...orderParams, query.limit ?? null, query.offset]
+      );
+      return { items: rows.map(normalizeRow), total: Number(counted[0].total) };
+    },
+
+    async getById(id: number) {
+      const sql = await getSql();
+      const { rows } = await sql`SELECT * FROM travel_destinations WHERE id = ${id}`;
+      return rows[0] ? normalizeRow(rows[0]) : undefined;
+    },
+
+    async create(item: NewTravelDestination) {
+      return withTransaction(async client => {
+        const before = await lockedIds(client);
+        const visited = item.status === 'visited';
+        const id = await insertRow(client, item, visited ? null : before.length + 1);
+        if (!visited) {
+          await writeOrder(client, insertAt(before, id, item.rank));
+        }
+        const { rows: created } = await client.sql`SELECT * FROM travel_destinations WHERE id = ${id}`;
+        return normalizeRow(created[0]);
+      });
+    },
+
+    async update(id: number, item: Partial<NewTravelDestination>) {
+      return withTransaction(async client => {
+        const ids = await lockedIds(client);
+        const { rows: found } = await client.sql`SELECT * FROM travel_destinations WHERE id = ${id}`;
+        if (!found[0]) return undefined;
+
+        const existing = normalizeRow(found[0]);
+        await updateRow(client, id, mergeDestination(existing, item));
+        const change = rankChange(existing, item);
+        if (change === 'leave') {
+          await client.sql`UPDATE travel_destinations SET rank = NULL WHERE id = ${id}`;
+          await writeOrder(client, ids.filter(other => other !== id));
+        } else if (change === 'insert') {
+          await writeOrder(client, insertAt(ids, id, item.rank));
+        }
+        const { rows } = await client.sql`SELECT * FROM travel_destinations WHERE id = ${id}`;
+        return normalizeRow(rows[0]);
+      });
+    },
+
+    async remove(id: number) {
+      return withTransaction(async client => {
+        const ids = await lockedIds(client);
+        const { rowCount } = await client.sql`DELETE FROM travel_destinations WHERE id = ${id}`;
+        if (!rowCount) return false;
+        await writeOrder(client, ids.filter(other => other !== id));
+        await client.sql`DELETE FROM trip_stops WHERE destination_id = ${id}`;
+        return true;
+      });
+    },
+
+    async move(id: number, target: MoveTarget) {
+      return withTransaction(async client => {
+        const ids = await lockedIds(client);
+        if (!ids.includes(id)) {
+          const { rows } = await client.sql`SELECT id FROM travel_destinations WHERE id = ${id}`;
+          if (rows[0]) throw new RankValidationError('Visited destinations are not ranked');
+          return undefined;
+        }
+        await writeOrder(client, applyMove(ids, id, target));
+        return selectAll(client);
+      });
+    },
+
+    async updateRanks(ranks: RankUpdate[]) {
+      return withTransaction(async client => {
+        assertRankPermutation(ranks, await lockedIds(client));
+        await client.query(
+          `UPDATE travel_destinations AS t
+           SET rank = v.rank, updated_at = CURRENT_TIMESTAMP
+           FROM unnest($1::int[], $2::int[]) AS v(id, rank)
+           WHERE t.id = v.id`,
+          [ranks.map(r => r.id), ranks.map(r => r.rank)]
+        );
+        return selectAll(client);
+      });
+    },
+
+    async importDestinations(plan: ImportPlan) {
+      return withTransaction(async client => {
+        // Lock every row first so a concurrent reorder can't interleave
+        await lockedIds(client);
+        if (plan.replace) {
+          await client.sql`DELETE FROM travel_destinations`;
+          await client.sql`DELETE FROM trip_stops`;
+        }
+        // Rows that join the ranking get no rank, which sorts them after
+        // the ranked ones in id order until writeOrder numbers them
+        for (const { id, item } of plan.updates) {
+          const { rows } = await client.sql`SELECT * FROM travel_destinations WHERE id = ${id}`;
+          if (!rows[0]) continue;
+          const existing = normalizeRow(rows[0]);
+          await updateRow(client, id, mergeDestination(existing, item));
+          if (rankChange(existing, item) !== 'none') {
+            await client.sql`UPDATE travel_destinations SET rank = NULL WHERE id = ${id}`;
+          }
+        }
+        for (const item of plan.creates) {
+          await insertRow(client, item, null);
+        }
+        await writeOrder(client, await lockedIds(client));
+        return selectAll(client);
+      });
+    },
+
+    async getCachedGeocode(query: string) {
+      const sql = await getSql();
+      const { rows } = await sql`SELECT results FROM geocode_cache WHERE query = ${query}`;
+      return rows[0] ? (JSON.parse(rows[0].results) as GeocodeCandidate[]) : undefined;
+    },
+
+    async putCachedGeocode(query: string, results: GeocodeCandidate[]) {
+      const sql = await getSql();
+      await sql`
+        INSERT INTO geocode_cache (query, results) VALUES (${query}, ${JSON.stringify(results)})
+        ON CONFLICT (query) DO UPDATE SET results = EXCLUDED.results, created_at = CURRENT_TIMESTAMP
+      `;
+    },
+
+    async getSettings() {
+      const sql = await getSql();
+      const { rows } = await sql`SELECT key, value FROM settings`;
+      return Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value)]));
+    },
+
+    async putSettings(values: Record<string, unknown>) {
+      await withTransaction(async client => {
+        for (const [key, value] of Object.entries(values)) {
+          await client.sql`
+            INSERT INTO settings (key, value) VALUES (${key}, ${JSON.stringify(value)})
+            ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = CURRENT_TIMESTAMP
+          `;
+        }
+      });
+    },
+
+    async getRates() {
+      const sql = await getSql();
+      const { rows } = await sql`SELECT currency, per_usd, updated_at FROM exchange_rates ORDER BY currency`;
+      return rows as ExchangeRate[];
+    },
+
+    async putRates(rates: NewExchangeRate[], replace: boolean) {
+      await withTransaction(async client => {
+        if (replace) {
+          await client.sql`DELETE FROM exchange_rates`;
+        }
+        for (const rate of rates) {
+          await client.sql`
+            INSERT INTO exchange_rates (currency, per_usd) VALUES (${rate.currency}, ${rate.per_usd})
+            ON CONFLICT (currency) DO UPDATE SET per_usd = EXCLUDED.per_usd, updated_at = CURRENT_TIMESTAMP
+          `;
+        }
+      });
+    },
+
+    async getTrips() {
+      return selectTrips(await getSql());
+    },
+
+    async getTrip(id: number) {
+      return (await selectTrips(await getSql(), id))[0];
+    },
+
+    async createTrip(trip: NewTrip) {
+      return withTransaction(async client => {
+        const { rows } = await client.sql`
+          INSERT INTO trips (name, notes) VALUES (${trip.name}, ${trip.notes}) RETURNING id
+        `;
+        const id = Number(rows[0].id);
+        await writeStops(client, id, trip.stops);
+        return (await selectTrips(client, id))[0];
+      });
+    },
+
+    async updateTrip(id: number, trip: NewTrip) {
+      return withTransaction(async client => {
+        const { rowCount } = await client.sql`
+          UPDATE trips SET name = ${trip.name}, notes = ${trip.notes}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}
+        `;
+        if (!rowCount) return undefined;
+        await writeStops(client, id, trip.stops);
+        return (await selectTrips(client, id))[0];
+      });
+    },
+
+    async removeTrip(id: number) {
+      return withTransaction(async client => {
+        const { rowCount } = await client.sql`DELETE FROM trips WHERE id = ${id}`;
+        await client.sql`DELETE FROM trip_stops WHERE trip_id = ${id}`;
+        return Boolean(rowCount);
+      });
+    },
+  };
+}
@@ -0,0 +1,418 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { haversineKm } from '../geo';
+import { DEFAULT_CURRENCY } from '../budget';
+import type { GeocodeCandidate } from '../geocode/types';
+import { migrations } from '../migrations';
+import { migrateSqlite } from '../migrations/runner';
+import { applyMove, assertRankPermutation, insertAt, RankValidationError, type MoveTarget } from '../ranks';
+import type {
+  ExchangeRate,
+  ImportPlan,
+  ListQuery,
+  NewExchangeRate,
+  NewTravelDestination,
+  NewTrip,
+  RankUpdate,
+  TravelDestination,
+  Trip,
+  TripStop,
+} from '../types';
+import { buildListFilters } from './listQuery';
+import { attachStops, mergeDestination, rankChange, type WishlistStore } from './types';
+
+export function defaultSqlitePath(): string {
+  return path.join(process.cwd(), 'data', 'travel-wishlist.db');
+}
+
+// SQLite store for local development. Pending migrations run when the
+// database is first opened unless autoMigrate is false.
+export function createSqliteStore(
+  dbPath: string = defaultSqlitePath(),
+  autoMigrate: boolean = true
+): WishlistStore {
+  let db: Database.Database | null = null;
+
+  function getDb(): Database.Database {
+    if (!db) {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+      db = new Database(dbPath);
+      db.function('haversine_km', { deterministic: true }, (lat1, lon1, lat2, lon2) =>
+        haversineKm(
+          { latitude: Number(lat1), longitude: Number(lon1) },
+          { latitude: Number(lat2), longitude: Number(lon2) }
+        )
+      );
+
+      if (autoMigrate) {
+        migrateSqlite(db, migrations);
+      }
+    }
+    return db;
+  }
+
+  // The active ranking: everything not yet visited
+  function orderedIds(): number[] {
+    const rows = getDb().prepare(`
+      SELECT id FROM travel_destinations WHERE status != 'visited' ORDER BY rank ASC NULLS LAST, id ASC
+    `).all() as { id: number }[];
+    return rows.map(r => r.id);
+  }
+
+  function selectAll(): TravelDestination[] {
+    return getDb().prepare('SELECT * FROM travel_destinations ORDER BY rank ASC NULLS LAST, id ASC').all() as TravelDestination[];
+  }
+
+  function selectById(id: number | bigint): TravelDestination | undefined {
+    return getDb().prepare('SELECT * FROM travel_destinations WHERE id = ?').get(id) as TravelDestination | undefined;
+  }
+
+  // Rewrite ranks as 1..N in the given order, touching only rows that change
+  function writeOrder(ids: number[]): void {
+    const stmt = getDb().prepare(
+      'UPDATE travel_destinations SET rank = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND rank IS NOT ?'
+    );
+    ids.forEach((id, index) => stmt.run(index + 1, id, index + 1));
+  }
+
+  function insertRow(item: NewTravelDestination, rank: number | null): number {
+    const result = getDb().prepare(`
+      INSERT INTO travel_destinations (
+        rank, destination, country, latitude, longitude, reason, budget, image_url,
+        place_name, osm_type, osm_id,
+        cost_flights, cost_lodging, cost_food, cost_activities, trip_days, currency,
+        timeline_kind, timeline_start, timeline_end,
+        status, visited_start, visited_end, rating, notes, country_code
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      rank,
+      item.destination,
+      item.country,
+      item.latitude,
+      item.longitude,
+      item.reason,
+      item.budget,
+      item.image_url || null,
+      item.place_name ?? null,
+      item.osm_type ?? null,
+      item.osm_id ?? null,
+      item.cost_flights ?? null,
+      item.cost_lodging ?? null,
+      item.cost_food ?? null,
+      item.cost_activities ?? null,
+      item.trip_days ?? null,
+      item.currency ?? DEFAULT_CURRENCY,
+      item.timeline_kind,
+      item.timeline_start,
+      item.timeline_end,
+      item.status,
+      item.visited_start ?? null,
+      item.visited_end ?? null,
+      item.rating ?? null,
+      item.notes,
+      item.country_code ?? null
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  function updateRow(id: number, merged: ReturnType<typeof mergeDestination>): void {
+    getDb().prepare(`
+      UPDATE travel_destinations
+      SET destination = ?,
+          country = ?,
+          latitude = ?,
+          longitude = ?,
+          reason = ?,
+          budget = ?,
+          image_url = ?,
+          place_name = ?,
+          osm_type = ?,
+          osm_id = ?,
+          cost_flights = ?,
+          cost_lodging = ?,
+          cost_food = ?,
+          cost_activities = ?,
+          trip_days = ?,
+          currency = ?,
+          timeline_kind = ?,
+          timeline_start = ?,
+          timeline_end = ?,
+          status = ?,
+          visited_start = ?,
+          visited_end = ?,
+          rating = ?,
+          notes = ?,
+          country_code = ?,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(
+      merged.destination,
+      merged.country,
+      merged.latitude,
+      merged.longitude,
+      merged.reason,
+      merged.budget,
+      merged.image_url,
+      merged.place_name,
+      merged.osm_type,
+      merged.osm_id,
+      merged.cost_flights,
+      merged.cost_lodging,
+      merged.cost_food,
+      merged.cost_activities,
+      merged.trip_days,
+      merged.currency,
+      merged.timeline_kind,
+      merged.timeline_start,
+      merged.timeline_end,
+      merged.status,
+      merged.visited_start,
+      merged.visited_end,
+      merged.rating,
+      merged.notes,
+      merged.country_code,
+      id
+    );
+  }
+
+  // Every trip, or just the one with id, with its stops
+  function selectTrips(id?: number | bigint): Trip[] {
+    const db = getDb();
+    const where = id === undefined ? '' : 'WHERE id = ?';
+    const stopsWhere = id === undefined ? '' : 'WHERE trip_id = ?';
+    const params = id === undefined ? [] : [id];
+    const trips = db.prepare(`SELECT * FROM trips ${where} ORDER BY id`).all(...params) as Omit<Trip, 'stops'>[];
+    const stops = db.prepare(`
+      SELECT trip_id, destination_id, arrive_on, depart_on FROM trip_stops ${stopsWhere} ORDER BY trip_id, position
+    `).all(...params) as (TripStop & { trip_id: number })[];
+    return attachStops(trips, stops);
+  }
+
+  function writeStops(tripId: number | bigint, stops: TripStop[]): void {
+    const db = getDb();
+    db.prepare('DELETE FROM trip_stops WHERE trip_id = ?').run(tripId);
+    const insert = db.prepare(`
+      INSERT INTO trip_stops (trip_id, position, destination_id, arrive_on, depart_on) VALUES (?, ?, ?, ?, ?)
+    `);
+    stops.forEach((stop, index) => insert.run(tripId, index + 1, stop.destination_id, stop.arrive_on, stop.depart_on));
+  }
+
+  return {
+    async migrate() {
+      return migrateSqlite(getDb(), migrations);
+    },
+
+    async getAll() {
+      return selectAll();
+    },
+
+    async list(query: ListQuery) {
+      const db = getDb();
+      const { where, params } = buildListFilters(query, () => '?');
+      const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+      const orderParams: unknown[] = [];
+      let orderBy: string;
+      if (query.sort === 'distance') {
+        orderBy = `haversine_km(latitude, longitude, ?, ?) ${direction}`;
+        orderParams.push(query.origin.latitude, query.origin.longitude);
+      } else {
+        // Visited items have no rank and stay last either way
+        orderBy = query.sort === 'rank' ? `rank ${direction} NULLS LAST` : `${query.sort} ${direction}`;
+      }
+
+      const { total } = db.prepare(`SELECT COUNT(*) AS total FROM travel_destinations ${where}`).get(...params) as { total: number };
+      const items = db.prepare(`
+        SELECT * FROM travel_destinations ${where}
+        ORDER BY ${orderBy}, id ${direction}
+        LIMIT ? OFFSET ?
+      `).all(...params, ...orderParams, query.limit ?? -1, query.offset) as TravelDestination[];
+      return { items, total };
+    },
+
+    async getById(id: number) {
+      return selectById(id);
+    },
+
+    async create(item: NewTravelDestination) {
+      const db = getDb();
+      return db.transaction(() => {
+        const before = orderedIds();
+        const visited = item.status === 'visited';
+        const id = insertRow(item, visited ? null : before.length + 1);
+        if (!visited) {
+          writeOrder(insertAt(before, id, item.rank));
+        }
+        return selectById(id) as TravelDestination;
+      })();
+    },
+
+    async update(id: number, item: Partial<NewTravelDestination>) {
+      const db = getDb();
+      return db.transaction(() => {
+        const existing = selectById(id);
+        if (!existing) return undefined;
+
+        updateRow(id, mergeDestination(existing, item));
+        const change = rankChange(existing, item);
+        if (change === 'leave') {
+          db.prepare('UPDATE travel_destinations SET rank = NULL WHERE id = ?').run(id);
+          writeOrder(orderedIds());
+        } else if (change === 'insert') {
+          writeOrder(insertAt(orderedIds(), id, item.rank));
+        }
+        return selectById(id);
+      })();
+    },
+
+    async remove(id: number) {
+      const db = getDb();
+      return db.transaction(() => {
+        const result = db.prepare('DELETE FROM travel_destinations WHERE id = ?').run(id);
+        if (result.changes === 0) return false;
+        writeOrder(orderedIds());
+        db.prepare('DELETE FROM trip_stops WHERE destination_id = ?').run(id);
+        return true;
+      })();
+    },
+
+    async move(id: number, target: MoveTarget) {
+      const db = getDb();
+      return db.transaction(() => {
+        const ids = orderedIds();
+        if (!ids.includes(id)) {
+          if (selectById(id)) throw new RankValidationError('Visited destinations are not ranked');
+          return undefined;
+        }
+        writeOrder(applyMove(ids, id, target));
+        return selectAll();
+      })();
+    },
+
+    async updateRanks(ranks: RankUpdate[]) {
+      const db = getDb();
+      const stmt = db.prepare('UPDATE travel_destinations SET rank = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?');
+      return db.transaction(() => {
+        assertRankPermutation(ranks, orderedIds());
+        for (const { id, rank } of ranks) {
+          stmt.run(rank, id);
+        }
+        return selectAll();
+      })();
+    },
+
+    async importDestinations(plan: ImportPlan) {
+      const db = getDb();
+      return db.transaction(() => {
+        if (plan.replace) {
+          db.prepare('DELETE FROM travel_destinations').run();
+          db.prepare('DELETE FROM trip_stops').run();
+        }
+        // Rows that join the ranking get no rank, which sorts them after
+        // the ranked ones in id order until writeOrder numbers them
+        for (const { id, item } of plan.updates) {
+          const existing = selectById(id);
+          if (!existing) continue;
+          updateRow(id, mergeDestination(existing, item));
+          if (rankChange(existing, item) !== 'none') {
+            db.prepare('UPDATE travel_destinations SET rank = NULL WHERE id = ?').run(id);
+          }
+        }
+        for (const item of plan.creates) {
+          insertRow(item, null);
+        }
+        writeOrder(orderedIds());
+        return selectAll();
+      })();
+    },
+
+    async getCachedGeocode(query: string) {
+      const row = getDb().prepare('SELECT results FROM geocode_cache WHERE query = ?').get(query) as { results: string } | undefined;
+      return row ? (JSON.parse(row.results) as GeocodeCandidate[]) : undefined;
+    },
+
+    async putCachedGeocode(query: string, results: GeocodeCandidate[]) {
+      getDb().prepare(`
+        INSERT INTO geocode_cache (query, results) VALUES (?, ?)
+        ON CONFLICT (query) DO UPDATE SET results = excluded.results, created_at = CURRENT_TIMESTAMP
+      `).run(query, JSON.stringify(results));
+    },
+
+    async getSettings() {
+      const rows = getDb().prepare('SELECT key, value FROM settings').all() as { key: string; value: string }[];
+      return Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value)]));
+    },
+
+    async putSettings(values: Record<string, unknown>) {
+      const db = getDb();
+      const upsert = db.prepare(`
+        INSERT INTO settings (key, value) VALUES (?, ?)
+        ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+      `);
+      db.transaction(() => {
+        for (const [key, value] of Object.entries(values)) {
+          upsert.run(key, JSON.stringify(value));
+        }
+      })();
+    },
+
+    async getRates() {
+      return getDb().prepare('SELECT currency, per_usd, updated_at FROM exchange_rates ORDER BY currency').all() as ExchangeRate[];
+    },
+
+    async putRates(rates: NewExchangeRate[], replace: boolean) {
+      const db = getDb();
+      const upsert = db.prepare(`
+        INSERT INTO exchange_rates (currency, per_usd) VALUES (?, ?)
+        ON CONFLICT (currency) DO UPDATE SET per_usd = excluded.per_usd, updated_at = CURRENT_TIMESTAMP
+      `);
+      db.transaction(() => {
+        if (replace) {
+          db.prepare('DELETE FROM exchange_rates').run();
+        }
+        for (const rate of rates) {
+          upsert.run(rate.currency, rate.per_usd);
+        }
+      })();
+    },
+
+    async getTrips() {
+      return selectTrips();
+    },
+
+    async getTrip(id: number) {
+      return selectTrips(id)[0];
+    },
+
+    async createTrip(trip: NewTrip) {
+      const db = getDb();
+      return db.transaction(() => {
+        const result = db.prepare('INSERT INTO trips (name, notes) VALUES (?, ?)').run(trip.name, trip.notes);
+        writeStops(result.lastInsertRowid, trip.stops);
+        return selectTrips(result.lastInsertRowid)[0];
+      })();
+    },
+
+    async updateTrip(id: number, trip: NewTrip) {
+      const db = getDb();
+      return db.transaction(() => {
+        const result = db.prepare(`
+          UPDATE trips SET name = ?, notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+        `).run(trip.name, trip.notes, id);
+        if (result.changes === 0) return undefined;
+        writeStops(id, trip.stops);
+        return selectTrips(id)[0];
+      })();
+    },
+
+    async removeTrip(id: number) {
+      const db = getDb();
+      return db.transaction(() => {
+        const result = db.prepare('DELETE FROM trips WHERE id = ?').run(id);
+        db.prepare('DELETE FROM trip_stops WHERE trip_id = ?').run(id);
+        return result.changes > 0;
+      })();
+    },
+  };
+}
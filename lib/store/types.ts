@@ -0,0 +1,129 @@
+import type { GeocodeCandidate } from '../geocode/types';
+import type { MoveTarget } from '../ranks';
+import type {
+  ExchangeRate,
+  ImportPlan,
+  ListQuery,
+  ListResult,
+  NewExchangeRate,
+  NewTravelDestination,
+  NewTrip,
+  RankUpdate,
+  TravelDestination,
+  Trip,
+  TripStop,
+} from '../types';
+
+// A storage backend for the wishlist. Each implementation owns its own SQL (or
+// lack of it); lib/db.ts picks one at startup and delegates to it.
+export interface WishlistStore {
+  // Apply pending schema migrations; returns the versions that ran
+  migrate(): Promise<number[]>;
+  getAll(): Promise<TravelDestination[]>;
+  // query.sort is never flight_time or time_difference; lib/db.ts handles those
+  list(query: ListQuery): Promise<ListResult>;
+  getById(id: number): Promise<TravelDestination | undefined>;
+  // create, update and remove keep ranks dense (1..N) over the items not yet
+  // visited; visited items have a null rank and sort last. A rank on create
+  // or update inserts at that position and shifts the rest; none appends.
+  create(item: NewTravelDestination): Promise<TravelDestination>;
+  update(id: number, item: Partial<NewTravelDestination>): Promise<TravelDestination | undefined>;
+  // Also drops the destination from any trip it was a stop on
+  remove(id: number): Promise<boolean>;
+  // Move one destination and renumber; undefined if id doesn't exist.
+  // Throws RankValidationError for a visited destination.
+  move(id: number, target: MoveTarget): Promise<TravelDestination[] | undefined>;
+  // Atomically apply a full reorder and return the list in its new order.
+  // Throws RankValidationError if ranks isn't a 1..N permutation of every
+  // unvisited id.
+  updateRanks(ranks: RankUpdate[]): Promise<TravelDestination[]>;
+  // Apply an import atomically and return the list in its new order. Ranks
+  // are renumbered 1..N afterwards; updated items keep their place and
+  // created ones follow in plan order.
+  importDestinations(plan: ImportPlan): Promise<TravelDestination[]>;
+
+  // Geocoder cache, keyed on the normalised query
+  getCachedGeocode(query: string): Promise<GeocodeCandidate[] | undefined>;
+  putCachedGeocode(query: string, results: GeocodeCandidate[]): Promise<void>;
+
+  // Settings as decoded JSON values keyed by setting name. putSettings
+  // upserts the given keys in one transaction and leaves the rest alone.
+  getSettings(): Promise<Record<string, unknown>>;
+  putSettings(values: Record<string, unknown>): Promise<void>;
+
+  // Exchange rates, ordered by currency. putRates upserts; with replace it
+  // first deletes every rate not in the list, all in one transaction.
+  getRates(): Promise<ExchangeRate[]>;
+  putRates(rates: NewExchangeRate[], replace: boolean): Promise<void>;
+
+  // Trips, oldest first, each with its stops in travel order. updateTrip
+  // replaces the name, notes and every stop; undefined if id doesn't exist.
+  getTrips(): Promise<Trip[]>;
+  getTrip(id: number): Promise<Trip | undefined>;
+  createTrip(trip: NewTrip): Promise<Trip>;
+  updateTrip(id: number, trip: NewTrip): Promise<Trip | undefined>;
+  removeTrip(id: number): Promise<boolean>;
+}
+
+// Fill in any fields missing from a partial update with the existing values.
+// Rank is left out: stores reposition through insertAt so ranks stay dense.
+export function mergeDestination(
+  existing: TravelDestination,
+  item: Partial<NewTravelDestination>
+): Omit<TravelDestination, 'id' | 'rank' | 'created_at' | 'updated_at'> {
+  return {
+    destination: item.destination !== undefined ? item.destination : existing.destination,
+    country: item.country !== undefined ? item.country : existing.country,
+    country_code: item.country_code !== undefined ? item.country_code : existing.country_code,
+    latitude: item.latitude !== undefined ? item.latitude : existing.latitude,
+    longitude: item.longitude !== undefined ? item.longitude : existing.longitude,
+    reason: item.reason !== undefined ? item.reason : existing.reason,
+    budget: item.budget !== undefined ? item.budget : existing.budget,
+    timeline_kind: item.timeline_kind !== undefined ? item.timeline_kind : existing.timeline_kind,
+    timeline_start: item.timeline_start !== undefined ? item.timeline_start : existing.timeline_start,
+    timeline_end: item.timeline_end !== undefined ? item.timeline_end : existing.timeline_end,
+    image_url: item.image_url !== undefined ? item.image_url : existing.image_url,
+    place_name: item.place_name !== undefined ? item.place_name : existing.place_name,
+    osm_type: item.osm_type !== undefined ? item.osm_type : existing.osm_type,
+    osm_id: item.osm_id !== undefined ? item.osm_id : existing.osm_id,
+    cost_flights: item.cost_flights !== undefined ? item.cost_flights : existing.cost_flights,
+    cost_lodging: item.cost_lodging !== undefined ? item.cost_lodging : existing.cost_lodging,
+    cost_food: item.cost_food !== undefined ? item.cost_food : existing.cost_food,
+    cost_activities: item.cost_activities !== undefined ? item.cost_activities : existing.cost_activities,
+    trip_days: item.trip_days !== undefined ? item.trip_days : existing.trip_days,
+    currency: item.currency !== undefined ? item.currency : existing.currency,
+    status: item.status !== undefined ? item.status : existing.status,
+    visited_start: item.visited_start !== undefined ? item.visited_start : existing.visited_start,
+    visited_end: item.visited_end !== undefined ? item.visited_end : existing.visited_end,
+    rating: item.rating !== undefined ? item.rating : existing.rating,
+    notes: item.notes !== undefined ? item.notes : existing.notes,
+  };
+}
+
+// How an update moves a destination within the active ranking. Marking it
+// visited takes it out; bringing it back from visited puts it at item.rank,
+// or at the end without one.
+export function rankChange(
+  existing: TravelDestination,
+  item: Partial<NewTravelDestination>
+): 'leave' | 'insert' | 'none' {
+  const status = item.status ?? existing.status;
+  if (status === 'visited') {
+    return existing.status === 'visited' ? 'none' : 'leave';
+  }
+  if (existing.status === 'visited') return 'insert';
+  return item.rank !== undefined && item.rank !== existing.rank ? 'insert' : 'none';
+}
+
+// Put stop rows, already in position order, onto their trips
+export function attachStops(
+  trips: Omit<Trip, 'stops'>[],
+  stops: (TripStop & { trip_id: number })[]
+): Trip[] {
+  return trips.map(trip => ({
+    ...trip,
+    stops: stops
+      .filter(stop => stop.trip_id === trip.id)
+      .map(stop => ({ destination_id: stop.destination_id, arrive_on: stop.arrive_on, depart_on: stop.depart_on })),
+  }));
+}
@@ -0,0 +1,211 @@
+// When a trip is planned. Stored as a kind plus an inclusive date range, so
+// filtering and past-due checks work the same for exact dates and for
+// flexible plans like "summer 2027". Safe to import client-side.
+
+export const TIMELINE_KINDS = ['dates', 'month', 'season', 'year', 'someday'] as const;
+export type TimelineKind = (typeof TIMELINE_KINDS)[number];
+
+// Meteorological seasons, northern hemisphere; winter runs December to February
+export const SEASONS = ['spring', 'summer', 'autumn', 'winter'] as const;
+export type Season = (typeof SEASONS)[number];
+const SEASON_START_MONTH: Record<Season, number> = { spring: 3, summer: 6, autumn: 9, winter: 12 };
+
+export interface TimelineFields {
+  timeline_kind: TimelineKind;
+  // ISO dates (YYYY-MM-DD), both null for someday
+  timeline_start: string | null;
+  timeline_end: string | null;
+}
+
+// The shapes a client may send. month accepts "YYYY-MM" (or a full date in
+// that month) and an optional end month; dates without an end is one day.
+export type TimelineSpec =
+  | { kind: 'dates'; start: string; end?: string }
+  | { kind: 'month'; start: string; end?: string }
+  | { kind: 'season'; season: Season; year: number }
+  | { kind: 'year'; year: number }
+  | { kind: 'someday' };
+
+export const SOMEDAY: TimelineFields = { timeline_kind: 'someday', timeline_start: null, timeline_end: null };
+
+// A spec that can't be resolved; the message is meant for the user
+export class TimelineError extends Error {}
+
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2200;
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function checkYear(year: unknown): number {
+  if (!Number.isInteger(year) || (year as number) < MIN_YEAR || (year as number) > MAX_YEAR) {
+    throw new TimelineError(`Year must be between ${MIN_YEAR} and ${MAX_YEAR}`);
+  }
+  return year as number;
+}
+
+// "YYYY-MM-DD" -> [year, month, day], rejecting impossible dates like Feb 30
+function parseDate(value: unknown): [number, number, number] {
+  const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  if (!match) throw new TimelineError('Dates must look like YYYY-MM-DD');
+  const [year, month, day] = match.slice(1).map(Number);
+  checkYear(year);
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    throw new TimelineError(`${value} is not a real date`);
+  }
+  return [year, month, day];
+}
+
+// "YYYY-MM" or any date in the month -> [year, month]
+function parseMonth(value: unknown): [number, number] {
+  if (typeof value === 'string' && /^\d{4}-\d{2}$/.test(value)) {
+    const [year, month] = value.split('-').map(Number);
+    checkYear(year);
+    if (month < 1 || month > 12) throw new TimelineError(`${value} is not a real month`);
+    return [year, month];
+  }
+  const [year, month] = parseDate(value);
+  return [year, month];
+}
+
+function ordered(start: string, end: string): void {
+  if (end < start) throw new TimelineError('End must not be before start');
+}
+
+// Turn a client spec into stored fields. Throws TimelineError on bad input.
+export function resolveTimeline(spec: TimelineSpec): TimelineFields {
+  switch (spec.kind) {
+    case 'dates': {
+      const start = isoDate(...parseDate(spec.start));
+      const end = spec.end === undefined ? start : isoDate(...parseDate(spec.end));
+      ordered(start, end);
+      return { timeline_kind: 'dates', timeline_start: start, timeline_end: end };
+    }
+    case 'month': {
+      const [startYear, startMonth] = parseMonth(spec.start);
+      const [endYear, endMonth] = spec.end === undefined ? [startYear, startMonth] : parseMonth(spec.end);
+      const start = isoDate(startYear, startMonth, 1);
+      const end = isoDate(endYear, endMonth, daysInMonth(endYear, endMonth));
+      ordered(start, end);
+      return { timeline_kind: 'month', timeline_start: start, timeline_end: end };
+    }
+    case 'season': {
+      if (!SEASONS.includes(spec.season)) {
+        throw new TimelineError(`Season must be one of: ${SEASONS.join(', ')}`);
+      }
+      const year = checkYear(spec.year);
+      const startMonth = SEASON_START_MONTH[spec.season];
+      // Winter starts in December and ends in February of the next year
+      const endYear = spec.season === 'winter' ? year + 1 : year;
+      const endMonth = spec.season === 'winter' ? 2 : startMonth + 2;
+      return {
+        timeline_kind: 'season',
+        timeline_start: isoDate(year, startMonth, 1),
+        timeline_end: isoDate(endYear, endMonth, daysInMonth(endYear, endMonth)),
+      };
+    }
+    case 'year': {
+      const year = checkYear(spec.year);
+      return { timeline_kind: 'year', timeline_start: isoDate(year, 1, 1), timeline_end: isoDate(year, 12, 31) };
+    }
+    case 'someday':
+      return SOMEDAY;
+    default:
+      throw new TimelineError(`Kind must be one of: ${TIMELINE_KINDS.join(', ')}`);
+  }
+}
+
+// The spec that reproduces stored fields, e.g. for an edit form or to
+// re-validate fields sent back by a client
+export function timelineSpec(fields: TimelineFields): TimelineSpec {
+  const { timeline_kind: kind, timeline_start: start, timeline_end: end } = fields;
+  if (kind === 'someday') return { kind: 'someday' };
+  if (!start || !end) throw new TimelineError(`A ${kind} timeline needs a start and an end date`);
+  const [year, month] = start.split('-').map(Number);
+  switch (kind) {
+    case 'dates':
+      return { kind, start, end };
+    case 'month':
+      return { kind, start: start.slice(0, 7), end: end.slice(0, 7) };
+    case 'season': {
+      const season = SEASONS.find(s => SEASON_START_MONTH[s] === month);
+      if (!season) throw new TimelineError('A season must start in March, June, September or December');
+      return { kind, season, year };
+    }
+    case 'year':
+      return { kind, year };
+    default:
+      throw new TimelineError(`Kind must be one of: ${TIMELINE_KINDS.join(', ')}`);
+  }
+}
+
+// The fixed options older versions stored: "2025-q1".."2025-q4", a bare
+// year, or "someday". Quarters become month ranges. Undefined if unknown.
+export function legacyTimeline(value: string): TimelineFields | undefined {
+  const quarter = value.match(/^(\d{4})-q([1-4])$/);
+  if (quarter) {
+    const year = Number(quarter[1]);
+    const firstMonth = (Number(quarter[2]) - 1) * 3 + 1;
+    return resolveTimeline({ kind: 'month', start: `${year}-${pad(firstMonth)}`, end: `${year}-${pad(firstMonth + 2)}` });
+  }
+  if (/^\d{4}$/.test(value)) return resolveTimeline({ kind: 'year', year: Number(value) });
+  if (value === 'someday') return SOMEDAY;
+  return undefined;
+}
+
+function formatDay(date: string, withYear: boolean): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return `${day} ${MONTH_NAMES[month - 1]}${withYear ? ` ${year}` : ''}`;
+}
+
+function formatMonth(date: string, withYear: boolean): string {
+  const [year, month] = date.split('-').map(Number);
+  return `${MONTH_NAMES[month - 1]}${withYear ? ` ${year}` : ''}`;
+}
+
+// Human label, e.g. "10 – 20 Mar 2027", "May – Jun 2027", "Winter 2026–27"
+export function timelineLabel(fields: TimelineFields): string {
+  const { timeline_kind: kind, timeline_start: start, timeline_end: end } = fields;
+  if (kind === 'someday' || !start || !end) return 'Someday';
+  const sameYear = start.slice(0, 4) === end.slice(0, 4);
+
+  switch (kind) {
+    case 'dates':
+      if (start === end) return formatDay(start, true);
+      if (start.slice(0, 7) === end.slice(0, 7)) return `${Number(start.slice(8))} – ${formatDay(end, true)}`;
+      return `${formatDay(start, !sameYear)} – ${formatDay(end, true)}`;
+    case 'month':
+      if (start.slice(0, 7) === end.slice(0, 7)) return formatMonth(start, true);
+      return `${formatMonth(start, !sameYear)} – ${formatMonth(end, true)}`;
+    case 'season': {
+      const spec = timelineSpec(fields) as { season: Season; year: number };
+      const name = spec.season[0].toUpperCase() + spec.season.slice(1);
+      return spec.season === 'winter' ? `${name} ${spec.year}–${String(spec.year + 1).slice(2)}` : `${name} ${spec.year}`;
+    }
+    case 'year':
+      return start.slice(0, 4);
+    default:
+      return 'Someday';
+  }
+}
+
+// Today as YYYY-MM-DD in the local time zone
+export function todayIso(now: Date = new Date()): string {
+  return isoDate(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+// The whole planned window is behind us and the trip hasn't happened.
+// A visited destination is never past due.
+export function isPastDue(fields: TimelineFields & { status?: string }, today: string = todayIso()): boolean {
+  return fields.status !== 'visited' && fields.timeline_end !== null && fields.timeline_end < today;
+}
@@ -0,0 +1,54 @@
+import tzLookup from '@photostructure/tz-lookup';
+import { haversineKm, type GeoPoint } from './geo';
+import type { TravelDestination, TravelFacts, TravelDestinationWithFacts } from './types';
+
+// Typical airliner cruise speed, plus a fixed allowance for taxi, climb and descent
+const CRUISE_SPEED_KMH = 850;
+const FLIGHT_OVERHEAD_MINUTES = 30;
+
+// Nonstop flight time estimate in whole minutes. Real routes are rarely
+// perfect great circles, so this is a lower bound rather than a schedule.
+export function estimateFlightMinutes(distanceKm: number): number {
+  if (distanceKm === 0) return 0;
+  return Math.round(FLIGHT_OVERHEAD_MINUTES + (distanceKm / CRUISE_SPEED_KMH) * 60);
+}
+
+// IANA time zone at a point, from the boundary data bundled with
+// @photostructure/tz-lookup. Open ocean resolves to an Etc/GMT zone.
+export function timeZoneAt(point: GeoPoint): string {
+  return tzLookup(point.latitude, point.longitude);
+}
+
+// Minutes ahead of UTC in a time zone at the given moment, so DST counts
+export function utcOffsetMinutes(timeZone: string, at: Date = new Date()): number {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(at)
+    .find(part => part.type === 'timeZoneName')?.value;
+  // "GMT+05:30", "GMT-08:00", or plain "GMT" for UTC itself
+  const match = name?.match(/^GMT([+-])(\d{2}):(\d{2})$/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+// Distance, flight time and time zone of a destination as seen from origin
+export function travelFacts(point: GeoPoint, origin: GeoPoint, at: Date = new Date()): TravelFacts {
+  const distanceKm = haversineKm(origin, point);
+  const timeZone = timeZoneAt(point);
+  const utcOffset = utcOffsetMinutes(timeZone, at);
+  return {
+    distance_km: Math.round(distanceKm),
+    flight_minutes: estimateFlightMinutes(distanceKm),
+    time_zone: timeZone,
+    utc_offset_minutes: utcOffset,
+    time_difference_minutes: utcOffset - utcOffsetMinutes(timeZoneAt(origin), at),
+  };
+}
+
+export function withTravelFacts(
+  items: TravelDestination[],
+  origin: GeoPoint,
+  at: Date = new Date()
+): TravelDestinationWithFacts[] {
+  return items.map(item => ({ ...item, facts: travelFacts(item, origin, at) }));
+}
@@ -0,0 +1,76 @@
+import { convertedBudgetTotal, type Converter } from './currency';
+import { haversineKm } from './geo';
+import { estimateFlightMinutes } from './travelFacts';
+import type { Origin, TravelDestination, Trip, TripLeg, TripTotals, TripWithTotals } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One flight between two points, great-circle distance
+export function tripLeg(from: Origin, to: Origin): TripLeg {
+  const distanceKm = haversineKm(from, to);
+  return {
+    from,
+    to,
+    distance_km: Math.round(distanceKm),
+    flight_minutes: estimateFlightMinutes(distanceKm),
+  };
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / DAY_MS) + 1;
+}
+
+// Legs from origin through every stop and back, with distance, flight time
+// and budget added up. Stops whose destination is missing are skipped.
+export function tripTotals(
+  trip: Trip,
+  destinations: Map<number, TravelDestination>,
+  origin: Origin,
+  convert: Converter,
+  currency: string
+): TripTotals {
+  const stops = trip.stops.filter(stop => destinations.has(stop.destination_id));
+  const places = stops.map(stop => destinations.get(stop.destination_id)!);
+  const points: Origin[] = places.map(d => ({
+    name: `${d.destination}, ${d.country}`,
+    latitude: Number(d.latitude),
+    longitude: Number(d.longitude),
+  }));
+  const route = points.length > 0 ? [origin, ...points, origin] : [];
+  const legs = route.slice(1).map((point, index) => tripLeg(route[index], point));
+
+  // A destination visited twice on one trip is only paid for once
+  let budgetTotal: number | null = null;
+  let unpriced = 0;
+  for (const place of new Set(places)) {
+    const total = convertedBudgetTotal(place, convert, currency);
+    if (total === null) {
+      unpriced++;
+    } else {
+      budgetTotal = (budgetTotal ?? 0) + total;
+    }
+  }
+
+  const start = stops[0]?.arrive_on;
+  const end = stops[stops.length - 1]?.depart_on;
+  return {
+    legs,
+    distance_km: legs.reduce((sum, l) => sum + l.distance_km, 0),
+    flight_minutes: legs.reduce((sum, l) => sum + l.flight_minutes, 0),
+    budget_total: budgetTotal === null ? null : Math.round(budgetTotal * 100) / 100,
+    currency,
+    unpriced_stops: unpriced,
+    days: start && end ? daysBetween(start, end) : null,
+  };
+}
+
+export function withTripTotals(
+  trips: Trip[],
+  destinations: TravelDestination[],
+  origin: Origin,
+  convert: Converter,
+  currency: string
+): TripWithTotals[] {
+  const byId = new Map(destinations.map(d => [d.id, d]));
+  return trips.map(trip => ({ ...trip, totals: tripTotals(trip, byId, origin, convert, currency) }));
+}
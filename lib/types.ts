@@ -0,0 +1,338 @@
+import type { TimelineKind } from './timeline';
+
+// wish -> planned -> booked -> visited. Visited items leave the ranking.
+export type DestinationStatus = 'wish' | 'planned' | 'booked' | 'visited';
+
+export interface TravelDestination {
+  id: number;
+  // Position in the active ranking; null once visited
+  rank: number | null;
+  destination: string;
+  country: string;
+  // ISO 3166-1 alpha-2, resolved from country on save; null if unrecognised
+  country_code: string | null;
+  latitude: number;
+  longitude: number;
+  reason: string;
+  budget: string;
+  // Planned window as an inclusive date range; see lib/timeline.ts
+  timeline_kind: TimelineKind;
+  timeline_start: string | null;
+  timeline_end: string | null;
+  image_url: string | null;
+  // Geocoder candidate the coordinates came from; null for a hand-placed pin
+  place_name: string | null;
+  osm_type: string | null;
+  osm_id: number | null;
+  // Estimated costs per category in currency; null where unknown
+  cost_flights: number | null;
+  cost_lodging: number | null;
+  cost_food: number | null;
+  cost_activities: number | null;
+  trip_days: number | null;
+  // ISO 4217 code, e.g. "USD"
+  currency: string;
+  status: DestinationStatus;
+  // The actual trip: ISO dates, a 1-5 rating and free-form notes
+  visited_start: string | null;
+  visited_end: string | null;
+  rating: number | null;
+  notes: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewTravelDestination {
+  // Position to insert at; omitted means append to the end of the list.
+  // Ignored for visited items.
+  rank?: number;
+  destination: string;
+  country: string;
+  // Set by lib/db.ts from country; clients can't send it
+  country_code?: string | null;
+  latitude: number;
+  longitude: number;
+  reason: string;
+  // Tier; derived from the costs when any are set (see lib/budget.ts)
+  budget: string;
+  timeline_kind: TimelineKind;
+  timeline_start: string | null;
+  timeline_end: string | null;
+  image_url?: string;
+  place_name?: string | null;
+  osm_type?: string | null;
+  osm_id?: number | null;
+  cost_flights?: number | null;
+  cost_lodging?: number | null;
+  cost_food?: number | null;
+  cost_activities?: number | null;
+  trip_days?: number | null;
+  currency?: string;
+  status: DestinationStatus;
+  visited_start?: string | null;
+  visited_end?: string | null;
+  rating?: number | null;
+  notes: string;
+}
+
+// replace: the file becomes the whole wishlist; append: everything in it is
+// added; merge: entries matching an existing (destination, country) update it
+export type ImportMode = 'replace' | 'append' | 'merge';
+
+export interface ImportChange {
+  action: 'create' | 'update' | 'delete';
+  // The stored destination's id; null for creates
+  id: number | null;
+  destination: string;
+  country: string;
+}
+
+// What an import did, or with dry_run would do
+export interface ImportSummary {
+  mode: ImportMode;
+  dry_run: boolean;
+  created: number;
+  updated: number;
+  // Merge matches whose fields are already the same
+  unchanged: number;
+  deleted: number;
+  changes: ImportChange[];
+}
+
+// GET /api/wishlist/export/:format, for GIS and GPS apps
+export type GeoExportFormat = 'geojson' | 'kml' | 'gpx';
+
+// Destination fields a CSV import column can be mapped to
+export type CsvField =
+  | 'destination'
+  | 'country'
+  | 'reason'
+  | 'timeline'
+  | 'budget'
+  | 'image_url'
+  | 'latitude'
+  | 'longitude';
+
+// Header to read each field from; null leaves the field unmapped
+export type CsvColumns = Partial<Record<CsvField, string | null>>;
+
+// Where the geocoder placed a row without coordinates. Clients send these
+// back as `places` so later requests for the same file skip the lookup.
+export interface CsvPlace {
+  latitude: number;
+  longitude: number;
+  place_name: string | null;
+  osm_type: string | null;
+  osm_id: number | null;
+}
+
+export interface CsvImportRow {
+  // 1 is the first row after the header
+  row: number;
+  destination: string;
+  country: string;
+  // pending: needs a lookup that didn't fit in this request
+  result: 'created' | 'duplicate' | 'geocode_failed' | 'invalid' | 'pending';
+  // Why a row was skipped, or the geocoder's match for a created one
+  message: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  // Set when the coordinates came from the geocoder rather than the file
+  place: CsvPlace | null;
+}
+
+// POST /api/wishlist/import/csv. With dry_run, "created" means would be.
+export interface CsvImportReport {
+  dry_run: boolean;
+  headers: string[];
+  // The header each field was read from, after guessing unmapped ones
+  columns: Record<CsvField, string | null>;
+  created: number;
+  duplicates: number;
+  geocode_failed: number;
+  invalid: number;
+  pending: number;
+  rows: CsvImportRow[];
+}
+
+// The writes of one POST /api/wishlist/import, applied in a single transaction
+export interface ImportPlan {
+  // Delete every destination, and so every trip stop, first
+  replace: boolean;
+  // Matched destinations to overwrite; rank is never set
+  updates: { id: number; item: NewTravelDestination }[];
+  // Appended after the current ranking, in order
+  creates: NewTravelDestination[];
+}
+
+export interface RankUpdate {
+  id: number;
+  rank: number;
+}
+
+export type SortField =
+  | 'rank'
+  | 'created_at'
+  | 'updated_at'
+  | 'distance'
+  | 'flight_time'
+  | 'time_difference'
+  | 'budget_total';
+export type SortOrder = 'asc' | 'desc';
+
+// Filters, sort and paging for GET /api/wishlist. All filters are optional.
+export interface ListQuery {
+  country?: string;
+  // ISO alpha-2, matching country_code
+  country_code?: string;
+  // 'someday', 'past_due', 'upcoming', or a year the planned window overlaps
+  timeline?: string;
+  budget?: string;
+  // A status, or 'active' for everything not yet visited
+  status?: string;
+  // Case-insensitive substring match over destination, country and reason
+  q?: string;
+  sort: SortField;
+  order: SortOrder;
+  // Point that distance, flight time and time difference are measured from
+  origin: { latitude: number; longitude: number };
+  // Currency that budget totals are converted into
+  currency: string;
+  // Omitted means no limit
+  limit?: number;
+  offset: number;
+}
+
+export interface ListResult {
+  items: TravelDestination[];
+  // Number of rows matching the filters, ignoring limit/offset
+  total: number;
+}
+
+// Derived from a destination's coordinates relative to an origin; never stored
+export interface TravelFacts {
+  distance_km: number;
+  // Estimated nonstop flight time
+  flight_minutes: number;
+  // IANA name, e.g. "Asia/Tokyo"
+  time_zone: string;
+  utc_offset_minutes: number;
+  // Destination's UTC offset minus the origin's, right now
+  time_difference_minutes: number;
+}
+
+export interface TravelDestinationWithFacts extends TravelDestination {
+  facts: TravelFacts;
+}
+
+// Wishlist entries in one country, for the map's choropleth
+export interface CountryStats {
+  code: string;
+  name: string;
+  count: number;
+  visited: number;
+  // Best (lowest) rank among entries not yet visited; null if all visited
+  top_rank: number | null;
+}
+
+export interface CoverageSummary {
+  countries: CountryStats[];
+  // Entries whose country text didn't resolve to a code
+  unresolved: number;
+  visited_countries: number;
+  // Countries and territories in the map's geodata
+  world_countries: number;
+}
+
+// One stop on a trip. Leg dates are optional ISO dates; depart_on is when
+// the next leg starts.
+export interface TripStop {
+  destination_id: number;
+  arrive_on: string | null;
+  depart_on: string | null;
+}
+
+export interface NewTrip {
+  name: string;
+  notes: string;
+  // In travel order; the same destination may appear more than once
+  stops: TripStop[];
+}
+
+export interface Trip extends NewTrip {
+  id: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// One flight of a trip, between two named points
+export interface TripLeg {
+  from: Origin;
+  to: Origin;
+  distance_km: number;
+  flight_minutes: number;
+}
+
+// Derived from a trip's stops relative to an origin; never stored
+export interface TripTotals {
+  // Origin -> each stop in order -> back to the origin
+  legs: TripLeg[];
+  distance_km: number;
+  flight_minutes: number;
+  // Sum of the stops' budget totals in currency; null if none could be priced
+  budget_total: number | null;
+  currency: string;
+  // Stops left out of budget_total: no estimates or no exchange rate
+  unpriced_stops: number;
+  // First arrival to last departure, inclusive; null without both dates
+  days: number | null;
+}
+
+export interface TripWithTotals extends Trip {
+  totals: TripTotals;
+}
+
+// A suggested visiting order from GET /api/trips/optimize
+export interface PlannedRoute {
+  // Closed tours end back at the origin; open ones end at the last stop
+  closed: boolean;
+  // Destination ids in the suggested order
+  order: number[];
+  legs: TripLeg[];
+  distance_km: number;
+  flight_minutes: number;
+  // Length of the same tour in the order the ids were given, for comparison
+  given_distance_km: number;
+}
+
+// A named place that distances and flight paths are measured from
+export interface Origin {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+// App-wide preferences, persisted in the settings table one key per field
+export interface Settings {
+  home: Origin;
+  // Other airports or cities the user sometimes flies out of
+  extra_origins: Origin[];
+  // Budgets are converted into this for totals and comparison
+  home_currency: string;
+  // When set, /api/wishlist/calendar.ics only answers with ?token=<this>
+  calendar_token: string | null;
+}
+
+// Settings as the API returns them. The calendar token is never sent back,
+// only whether one is set; POST /api/settings/calendar-token shows a new one once.
+export type PublicSettings = Omit<Settings, 'calendar_token'> & { calendar_private: boolean };
+
+// Units of currency per one US dollar, e.g. { currency: 'EUR', per_usd: 0.92 }
+export interface NewExchangeRate {
+  currency: string;
+  per_usd: number;
+}
+
+export interface ExchangeRate extends NewExchangeRate {
+  updated_at: string;
+}
@@ -0,0 +1,885 @@
+import { DEFAULT_CURRENCY } from './budget';
+import { ValidationError, type FieldErrors } from './errors';
+import type { GeoPoint } from './geo';
+import {
+  SOMEDAY,
+  TIMELINE_KINDS,
+  TimelineError,
+  legacyTimeline,
+  resolveTimeline,
+  timelineSpec,
+  type TimelineFields,
+  type TimelineSpec,
+} from './timeline';
+import type {
+  CsvColumns,
+  CsvField,
+  CsvPlace,
+  DestinationStatus,
+  GeoExportFormat,
+  ImportMode,
+  ListQuery,
+  NewExchangeRate,
+  NewTravelDestination,
+  NewTrip,
+  Origin,
+  Settings,
+  SortField,
+  SortOrder,
+  TripStop,
+} from './types';
+import { EXPORT_FORMAT, EXPORT_VERSION } from './wishlistExport';
+
+export const BUDGET_VALUES = ['budget', 'moderate', 'luxury', 'ultra-luxury'] as const;
+export const STATUS_VALUES: readonly DestinationStatus[] = ['wish', 'planned', 'booked', 'visited'];
+export const IMPORT_MODES: readonly ImportMode[] = ['replace', 'append', 'merge'];
+export const GEO_EXPORT_FORMATS: readonly GeoExportFormat[] = ['geojson', 'kml', 'gpx'];
+// List filters besides a four-digit year
+export const TIMELINE_FILTERS = ['someday', 'past_due', 'upcoming'] as const;
+
+export const SORT_FIELDS: readonly SortField[] = [
+  'rank',
+  'created_at',
+  'updated_at',
+  'distance',
+  'flight_time',
+  'time_difference',
+  'budget_total',
+];
+export const MAX_PAGE_SIZE = 100;
+
+export const MAX_LENGTHS = {
+  destination: 200,
+  country: 100,
+  reason: 2000,
+  image_url: 2048,
+  place_name: 500,
+  origin_name: 200,
+  notes: 5000,
+  trip_name: 200,
+};
+
+export const MAX_EXTRA_ORIGINS = 10;
+export const MAX_RATES = 300;
+export const MAX_TRIP_STOPS = 50;
+export const MAX_IMPORT_DESTINATIONS = 1000;
+export const MAX_CSV_IMPORT_LENGTH = 2_000_000;
+
+export const CSV_IMPORT_FIELDS: readonly CsvField[] = [
+  'destination',
+  'country',
+  'reason',
+  'timeline',
+  'budget',
+  'image_url',
+  'latitude',
+  'longitude',
+];
+
+export const OSM_TYPES = ['node', 'way', 'relation'] as const;
+
+export const MAX_COST = 10_000_000;
+export const MAX_TRIP_DAYS = 365;
+
+// Thrown by a field parser; collected into ValidationError.fields, under
+// `field` when the parser covers more than one
+class FieldIssue extends Error {
+  constructor(message: string, readonly field?: string) {
+    super(message);
+  }
+}
+
+interface FieldSpec<T> {
+  parse: (value: unknown) => T;
+  required?: boolean;
+  // Used when the field is missing (undefined, null or '')
+  fallback?: T;
+  // Used instead of fallback when the field is present but null or ''
+  blank?: T;
+}
+
+function text(max: number) {
+  return (value: unknown): string => {
+    if (typeof value !== 'string') throw new FieldIssue('Must be a string');
+    const trimmed = value.trim();
+    if (trimmed.length > max) throw new FieldIssue(`Must be at most ${max} characters`);
+    return trimmed;
+  };
+}
+
+function numberBetween(min: number, max: number) {
+  return (value: unknown): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new FieldIssue('Must be a number');
+    if (value < min || value > max) throw new FieldIssue(`Must be between ${min} and ${max}`);
+    return value;
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]) {
+  return (value: unknown): T => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      throw new FieldIssue(`Must be one of: ${values.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+function positiveInteger(value: unknown): number {
+  if (!Number.isInteger(value) || (value as number) < 1) throw new FieldIssue('Must be a positive integer');
+  return value as number;
+}
+
+function integerBetween(min: number, max: number) {
+  return (value: unknown): number => {
+    if (!Number.isInteger(value)) throw new FieldIssue('Must be a whole number');
+    return numberBetween(min, max)(value);
+  };
+}
+
+// ISO 4217 code that Intl knows how to format; lower case is accepted
+function currencyCode(value: unknown): string {
+  if (typeof value !== 'string' || !/^[a-zA-Z]{3}$/.test(value.trim())) {
+    throw new FieldIssue('Must be a three-letter ISO 4217 currency code');
+  }
+  const code = value.trim().toUpperCase();
+  if (!Intl.supportedValuesOf('currency').includes(code)) {
+    throw new FieldIssue(`Unknown currency ${code}`);
+  }
+  return code;
+}
+
+// "YYYY-MM-DD", rejecting impossible dates like Feb 30
+function isoDate(value: unknown): string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new FieldIssue('Must be a date like YYYY-MM-DD');
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== value) {
+    throw new FieldIssue('Must be a real date');
+  }
+  return value;
+}
+
+function httpUrl(value: unknown): string {
+  const raw = text(MAX_LENGTHS.image_url)(value);
+  let parsed: URL;
+  try {
+    parsed = new URL(raw);
+  } catch {
+    throw new FieldIssue('Must be a valid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FieldIssue('Must be an http or https URL');
+  }
+  return raw;
+}
+
+// Timeline fields are parsed together by parseTimeline, not field by field;
+// country_code is derived on the server
+type SchemaFields = Omit<NewTravelDestination, keyof TimelineFields | 'country_code'>;
+
+const destinationSchema: { [K in keyof Required<SchemaFields>]: FieldSpec<SchemaFields[K]> } = {
+  rank: { parse: positiveInteger },
+  destination: { parse: text(MAX_LENGTHS.destination), required: true },
+  country: { parse: text(MAX_LENGTHS.country), required: true },
+  latitude: { parse: numberBetween(-90, 90), required: true },
+  longitude: { parse: numberBetween(-180, 180), required: true },
+  reason: { parse: text(MAX_LENGTHS.reason), fallback: '' },
+  budget: { parse: oneOf(BUDGET_VALUES), fallback: 'moderate' },
+  // '' clears the image; leaving the field out keeps whatever is stored
+  image_url: { parse: httpUrl, blank: '' },
+  // null clears the place reference, e.g. after dropping a pin by hand
+  place_name: { parse: text(MAX_LENGTHS.place_name), blank: null },
+  osm_type: { parse: oneOf(OSM_TYPES), blank: null },
+  osm_id: { parse: positiveInteger, blank: null },
+  // Amounts are in currency; null clears an estimate
+  cost_flights: { parse: numberBetween(0, MAX_COST), blank: null },
+  cost_lodging: { parse: numberBetween(0, MAX_COST), blank: null },
+  cost_food: { parse: numberBetween(0, MAX_COST), blank: null },
+  cost_activities: { parse: numberBetween(0, MAX_COST), blank: null },
+  trip_days: { parse: integerBetween(1, MAX_TRIP_DAYS), blank: null },
+  currency: { parse: currencyCode, fallback: DEFAULT_CURRENCY },
+  status: { parse: oneOf(STATUS_VALUES), fallback: 'wish' },
+  // The trip as it happened; null clears a date or the rating
+  visited_start: { parse: isoDate, blank: null },
+  visited_end: { parse: isoDate, blank: null },
+  rating: { parse: integerBetween(1, 5), blank: null },
+  notes: { parse: text(MAX_LENGTHS.notes), fallback: '' },
+};
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+// The planned window. Accepts a `timeline` shorthand, either a spec object
+// like {kind: 'season', season: 'summer', year: 2027} or a legacy option
+// string like "2025-q3", or else the stored timeline_kind/start/end fields
+// as returned by GET. Missing means someday.
+function parseTimeline(input: Record<string, unknown>): TimelineFields {
+  const shorthand = input.timeline;
+  try {
+    if (typeof shorthand === 'string' && shorthand.trim()) {
+      const legacy = legacyTimeline(shorthand.trim());
+      if (!legacy) throw new FieldIssue('Must be a timeline object or one of the legacy options');
+      return legacy;
+    }
+    if (typeof shorthand === 'object' && shorthand !== null && !Array.isArray(shorthand)) {
+      return resolveTimeline(shorthand as TimelineSpec);
+    }
+    if (!isMissing(shorthand)) {
+      throw new FieldIssue('Must be a timeline object');
+    }
+    if (isMissing(input.timeline_kind)) return SOMEDAY;
+    const kind = oneOf(TIMELINE_KINDS)(input.timeline_kind);
+    if (kind === 'someday') return SOMEDAY;
+    // Every other kind needs its range; without one it isn't someday
+    for (const name of ['timeline_start', 'timeline_end'] as const) {
+      if (isMissing(input[name])) {
+        throw new FieldIssue(`Required for kind '${kind}'`, name);
+      }
+      if (typeof input[name] !== 'string') {
+        throw new FieldIssue('Must be a date like YYYY-MM-DD', name);
+      }
+    }
+    // Round-trip through a spec so hand-edited ranges are normalised too
+    return resolveTimeline(timelineSpec({
+      timeline_kind: kind,
+      timeline_start: input.timeline_start as string,
+      timeline_end: input.timeline_end as string,
+    }));
+  } catch (error) {
+    if (error instanceof TimelineError) throw new FieldIssue(error.message);
+    throw error;
+  }
+}
+
+const TIMELINE_INPUTS = ['timeline', 'timeline_kind', 'timeline_start', 'timeline_end'];
+
+// Check body against destinationSchema. A partial body only checks the
+// fields it has and fills in no defaults for the rest.
+function parseDestination(body: unknown, partial: boolean): Record<string, unknown> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+
+  const input = body as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  const fields: FieldErrors = {};
+
+  for (const [name, spec] of Object.entries(destinationSchema) as [string, FieldSpec<unknown>][]) {
+    const value = input[name];
+    if (partial && value === undefined) continue;
+    if (isMissing(value)) {
+      if (spec.required) {
+        fields[name] = 'Is required';
+      } else if (value !== undefined && spec.blank !== undefined) {
+        result[name] = spec.blank;
+      } else if (spec.fallback !== undefined) {
+        result[name] = spec.fallback;
+      }
+      continue;
+    }
+    try {
+      result[name] = spec.parse(value);
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields[name] = error.message;
+    }
+  }
+
+  if (!partial || TIMELINE_INPUTS.some(name => input[name] !== undefined)) {
+    try {
+      Object.assign(result, parseTimeline(input));
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields[error.field ?? 'timeline'] = error.message;
+    }
+  }
+
+  const { visited_start: visitStart, visited_end: visitEnd } = result;
+  if (typeof visitStart === 'string' && typeof visitEnd === 'string' && visitEnd < visitStart) {
+    fields.visited_end = 'Must not be before visited_start';
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid destination', fields);
+  }
+  return result;
+}
+
+// Validate a POST body, or an import entry, against destinationSchema.
+// Missing optional fields get their defaults. Throws ValidationError listing
+// every bad field at once.
+export function validateDestination(body: unknown): NewTravelDestination {
+  return parseDestination(body, false) as unknown as NewTravelDestination;
+}
+
+// Validate a PUT body. Only the fields present are checked and returned;
+// the store keeps its values for the rest.
+export function validateDestinationUpdate(body: unknown): Partial<NewTravelDestination> {
+  return parseDestination(body, true) as Partial<NewTravelDestination>;
+}
+
+const originSchema: { [K in keyof Origin]: FieldSpec<Origin[K]> } = {
+  name: { parse: text(MAX_LENGTHS.origin_name), required: true },
+  latitude: { parse: numberBetween(-90, 90), required: true },
+  longitude: { parse: numberBetween(-180, 180), required: true },
+};
+
+// Validate one origin, reporting problems as "<path>.<field>"
+function validateOrigin(value: unknown, path: string, fields: FieldErrors): Origin | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fields[path] = 'Must be an object with name, latitude and longitude';
+    return undefined;
+  }
+  const input = value as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  let valid = true;
+  for (const [name, spec] of Object.entries(originSchema) as [string, FieldSpec<unknown>][]) {
+    if (isMissing(input[name])) {
+      fields[`${path}.${name}`] = 'Is required';
+      valid = false;
+      continue;
+    }
+    try {
+      result[name] = spec.parse(input[name]);
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields[`${path}.${name}`] = error.message;
+      valid = false;
+    }
+  }
+  return valid ? (result as unknown as Origin) : undefined;
+}
+
+// Validate a PUT /api/settings body. Only the keys present are returned, so
+// a client can update home without resending extra_origins.
+export function validateSettings(body: unknown): Partial<Omit<Settings, 'calendar_token'>> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+
+  const input = body as Record<string, unknown>;
+  const result: Partial<Settings> = {};
+  const fields: FieldErrors = {};
+
+  if (input.home !== undefined) {
+    result.home = validateOrigin(input.home, 'home', fields);
+  }
+  if (input.extra_origins !== undefined) {
+    if (!Array.isArray(input.extra_origins)) {
+      fields.extra_origins = 'Must be an array';
+    } else if (input.extra_origins.length > MAX_EXTRA_ORIGINS) {
+      fields.extra_origins = `Must have at most ${MAX_EXTRA_ORIGINS} entries`;
+    } else {
+      result.extra_origins = input.extra_origins.map(
+        (origin, index) => validateOrigin(origin, `extra_origins.${index}`, fields)!
+      );
+    }
+  }
+
+  if (input.home_currency !== undefined) {
+    try {
+      result.home_currency = currencyCode(input.home_currency);
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields.home_currency = error.message;
+    }
+  }
+
+  // Only the calendar-token endpoint sets it, so it is never echoed back
+  if (input.calendar_token !== undefined) {
+    fields.calendar_token = 'Set with POST /api/settings/calendar-token, or clear with DELETE';
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid settings', fields);
+  }
+  return result;
+}
+
+// Validate an exchange-rate table: an array of { currency, per_usd }, the
+// same wrapped as { rates: [...] }, or a map like { "EUR": 0.92 }
+export function validateRates(body: unknown): NewExchangeRate[] {
+  let entries: unknown[];
+  if (Array.isArray(body)) {
+    entries = body;
+  } else if (typeof body === 'object' && body !== null && Array.isArray((body as { rates?: unknown }).rates)) {
+    entries = (body as { rates: unknown[] }).rates;
+  } else if (typeof body === 'object' && body !== null) {
+    entries = Object.entries(body).map(([currency, per_usd]) => ({ currency, per_usd }));
+  } else {
+    throw new ValidationError('Rates must be a JSON array, a { currency: rate } object or CSV');
+  }
+  if (entries.length > MAX_RATES) {
+    throw new ValidationError(`At most ${MAX_RATES} rates are allowed`);
+  }
+
+  const fields: FieldErrors = {};
+  const seen = new Set<string>();
+  const rates: NewExchangeRate[] = [];
+  entries.forEach((entry, index) => {
+    const path = `rates.${index}`;
+    if (typeof entry !== 'object' || entry === null) {
+      fields[path] = 'Must be an object with currency and per_usd';
+      return;
+    }
+    const { currency, per_usd } = entry as Record<string, unknown>;
+    let code: string | undefined;
+    try {
+      code = currencyCode(currency);
+      if (seen.has(code)) throw new FieldIssue(`${code} appears more than once`);
+      seen.add(code);
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields[`${path}.currency`] = error.message;
+    }
+    if (typeof per_usd !== 'number' || !Number.isFinite(per_usd) || per_usd <= 0) {
+      fields[`${path}.per_usd`] = 'Must be a positive number';
+    } else if (code === 'USD' && per_usd !== 1) {
+      fields[`${path}.per_usd`] = 'USD is the base currency; its rate is always 1';
+    } else if (code) {
+      rates.push({ currency: code, per_usd });
+    }
+  });
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid exchange rates', fields);
+  }
+  // The base rate is implied, never stored
+  return rates.filter(rate => rate.currency !== 'USD');
+}
+
+// Validate one trip stop, reporting problems as "<path>.<field>"
+function validateStop(value: unknown, path: string, fields: FieldErrors): TripStop | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fields[path] = 'Must be an object with destination_id, arrive_on and depart_on';
+    return undefined;
+  }
+  const input = value as Record<string, unknown>;
+  const stop: TripStop = { destination_id: 0, arrive_on: null, depart_on: null };
+  let valid = true;
+  const check = <K extends keyof TripStop>(name: K, parse: (value: unknown) => TripStop[K], required: boolean) => {
+    if (isMissing(input[name])) {
+      if (required) {
+        fields[`${path}.${name}`] = 'Is required';
+        valid = false;
+      }
+      return;
+    }
+    try {
+      stop[name] = parse(input[name]);
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields[`${path}.${name}`] = error.message;
+      valid = false;
+    }
+  };
+  check('destination_id', positiveInteger, true);
+  check('arrive_on', isoDate, false);
+  check('depart_on', isoDate, false);
+  if (stop.arrive_on && stop.depart_on && stop.depart_on < stop.arrive_on) {
+    fields[`${path}.depart_on`] = 'Must not be before arrive_on';
+    valid = false;
+  }
+  return valid ? stop : undefined;
+}
+
+// Validate a POST/PUT trip body. Stops are in travel order, and where leg
+// dates are given each stop must start no earlier than the last one ended.
+// Whether the destinations exist is checked by lib/db.ts.
+export function validateTrip(body: unknown): NewTrip {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+
+  const input = body as Record<string, unknown>;
+  const fields: FieldErrors = {};
+  const trip: NewTrip = { name: '', notes: '', stops: [] };
+
+  if (isMissing(input.name)) {
+    fields.name = 'Is required';
+  }
+  for (const [name, max] of [['name', MAX_LENGTHS.trip_name], ['notes', MAX_LENGTHS.notes]] as const) {
+    if (isMissing(input[name])) continue;
+    try {
+      trip[name] = text(max)(input[name]);
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields[name] = error.message;
+    }
+  }
+
+  if (input.stops !== undefined) {
+    if (!Array.isArray(input.stops)) {
+      fields.stops = 'Must be an array';
+    } else if (input.stops.length > MAX_TRIP_STOPS) {
+      fields.stops = `Must have at most ${MAX_TRIP_STOPS} stops`;
+    } else {
+      let lastDate: string | null = null;
+      input.stops.forEach((value, index) => {
+        const stop = validateStop(value, `stops.${index}`, fields);
+        if (!stop) return;
+        const first = stop.arrive_on ?? stop.depart_on;
+        if (first && lastDate && first < lastDate) {
+          fields[`stops.${index}`] = 'Must not start before the previous stop ends';
+        }
+        lastDate = stop.depart_on ?? stop.arrive_on ?? lastDate;
+        trip.stops.push(stop);
+      });
+    }
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid trip', fields);
+  }
+  return trip;
+}
+
+// Validate a document from GET /api/wishlist/export, or a bare array of
+// destinations. Entries are checked like POST bodies, with problems reported
+// as "destinations.<index>.<field>", and come back in rank order (unranked
+// last, in file order) with their ranks dropped so the store can append them.
+export function validateImport(body: unknown): NewTravelDestination[] {
+  let entries: unknown;
+  if (Array.isArray(body)) {
+    entries = body;
+  } else if (typeof body === 'object' && body !== null) {
+    const input = body as Record<string, unknown>;
+    const fields: FieldErrors = {};
+    if (input.format !== EXPORT_FORMAT) {
+      fields.format = `Must be "${EXPORT_FORMAT}"`;
+    }
+    if (!Number.isInteger(input.version) || (input.version as number) < 1) {
+      fields.version = 'Must be a positive integer';
+    } else if ((input.version as number) > EXPORT_VERSION) {
+      fields.version = `Version ${input.version} is newer than this app supports (${EXPORT_VERSION})`;
+    }
+    if (Object.keys(fields).length > 0) {
+      throw new ValidationError('Not a wishlist export', fields);
+    }
+    entries = input.destinations;
+  } else {
+    throw new ValidationError('Request body must be a wishlist export or an array of destinations');
+  }
+  if (!Array.isArray(entries)) {
+    throw new ValidationError('Invalid import', { destinations: 'Must be an array' });
+  }
+  if (entries.length > MAX_IMPORT_DESTINATIONS) {
+    throw new ValidationError(`At most ${MAX_IMPORT_DESTINATIONS} destinations can be imported at once`);
+  }
+
+  const fields: FieldErrors = {};
+  const items: NewTravelDestination[] = [];
+  entries.forEach((entry, index) => {
+    const path = `destinations.${index}`;
+    try {
+      items.push(validateDestination(entry));
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      if (Object.keys(error.fields).length === 0) {
+        fields[path] = 'Must be an object';
+      }
+      for (const [name, message] of Object.entries(error.fields)) {
+        fields[`${path}.${name}`] = message;
+      }
+    }
+  });
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid import', fields);
+  }
+
+  // Stable sort keeps file order among equal and missing ranks
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (a.item.rank ?? Infinity) - (b.item.rank ?? Infinity) || a.index - b.index)
+    .map(({ item: { rank: _rank, ...item } }) => item);
+}
+
+// Parse POST /api/wishlist/import query parameters: mode (required) and
+// dry_run (false by default)
+export function parseImportQuery(params: URLSearchParams): { mode: ImportMode; dryRun: boolean } {
+  const fields: FieldErrors = {};
+  const mode = params.get('mode')?.trim() ?? '';
+  if (!mode) {
+    fields.mode = 'Is required';
+  } else if (!IMPORT_MODES.includes(mode as ImportMode)) {
+    fields.mode = `Must be one of: ${IMPORT_MODES.join(', ')}`;
+  }
+  const dryRun = dryRunParam(params, fields);
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid import query', fields);
+  }
+  return { mode: mode as ImportMode, dryRun };
+}
+
+function dryRunParam(params: URLSearchParams, fields: FieldErrors): boolean {
+  const value = params.get('dry_run')?.trim() || 'false';
+  if (value !== 'true' && value !== 'false') {
+    fields.dry_run = 'Must be true or false';
+  }
+  return value === 'true';
+}
+
+// Validate one geocoded place sent back for a CSV row, reporting problems
+// as "<path>.<field>"
+function validatePlace(value: unknown, path: string, fields: FieldErrors): CsvPlace | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fields[path] = 'Must be an object with latitude and longitude';
+    return undefined;
+  }
+  const input = value as Record<string, unknown>;
+  const place: CsvPlace = { latitude: 0, longitude: 0, place_name: null, osm_type: null, osm_id: null };
+  let valid = true;
+  const check = <K extends keyof CsvPlace>(name: K, parse: (value: unknown) => CsvPlace[K], required: boolean) => {
+    if (isMissing(input[name])) {
+      if (required) {
+        fields[`${path}.${name}`] = 'Is required';
+        valid = false;
+      }
+      return;
+    }
+    try {
+      place[name] = parse(input[name]);
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields[`${path}.${name}`] = error.message;
+      valid = false;
+    }
+  };
+  check('latitude', numberBetween(-90, 90), true);
+  check('longitude', numberBetween(-180, 180), true);
+  check('place_name', text(MAX_LENGTHS.place_name), false);
+  check('osm_type', oneOf(OSM_TYPES), false);
+  check('osm_id', positiveInteger, false);
+  return valid ? place : undefined;
+}
+
+// Validate a POST /api/wishlist/import/csv body: { csv, columns?, places? },
+// where columns maps a destination field to the header of the column holding
+// it, and places maps row numbers to places found by an earlier request.
+// Whether those headers exist is checked against the file in lib/csvImport.ts.
+export function validateCsvImport(
+  body: unknown,
+  params: URLSearchParams
+): { csv: string; columns: CsvColumns; places: Map<number, CsvPlace>; dryRun: boolean } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  const input = body as Record<string, unknown>;
+  const fields: FieldErrors = {};
+  const dryRun = dryRunParam(params, fields);
+
+  if (typeof input.csv !== 'string' || !input.csv.trim()) {
+    fields.csv = 'Is required';
+  } else if (input.csv.length > MAX_CSV_IMPORT_LENGTH) {
+    fields.csv = `Must be at most ${MAX_CSV_IMPORT_LENGTH.toLocaleString('en-US')} characters`;
+  }
+
+  const columns: CsvColumns = {};
+  if (input.columns !== undefined && input.columns !== null) {
+    if (typeof input.columns !== 'object' || Array.isArray(input.columns)) {
+      fields.columns = 'Must be an object of field: header';
+    } else {
+      for (const [name, header] of Object.entries(input.columns)) {
+        if (!CSV_IMPORT_FIELDS.includes(name as CsvField)) {
+          fields[`columns.${name}`] = `Must be one of: ${CSV_IMPORT_FIELDS.join(', ')}`;
+        } else if (header === null || header === '') {
+          // Explicitly unmapped
+          columns[name as CsvField] = null;
+        } else if (typeof header !== 'string') {
+          fields[`columns.${name}`] = 'Must be a column header';
+        } else {
+          columns[name as CsvField] = header;
+        }
+      }
+    }
+  }
+
+  const places = new Map<number, CsvPlace>();
+  if (input.places !== undefined && input.places !== null) {
+    if (typeof input.places !== 'object' || Array.isArray(input.places)) {
+      fields.places = 'Must be an object of row: place';
+    } else if (Object.keys(input.places).length > MAX_IMPORT_DESTINATIONS) {
+      fields.places = `Must have at most ${MAX_IMPORT_DESTINATIONS} rows`;
+    } else {
+      for (const [row, value] of Object.entries(input.places)) {
+        if (!/^\d+$/.test(row) || Number(row) < 1) {
+          fields[`places.${row}`] = 'Must be keyed by a row number';
+          continue;
+        }
+        const place = validatePlace(value, `places.${row}`, fields);
+        if (place) places.set(Number(row), place);
+      }
+    }
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid CSV import', fields);
+  }
+  return { csv: input.csv as string, columns, places, dryRun };
+}
+
+// Route params arrive as strings; only accept plain positive integers
+export function parseId(id: string, resource: string = 'destination'): number {
+  if (!/^\d+$/.test(id) || Number(id) < 1 || !Number.isSafeInteger(Number(id))) {
+    throw new ValidationError(`Invalid ${resource} id`, { id: 'Must be a positive integer' });
+  }
+  return Number(id);
+}
+
+function countryCodeParam(value: unknown): string {
+  if (typeof value !== 'string' || !/^[a-z]{2}$/i.test(value)) {
+    throw new FieldIssue('Must be a two-letter ISO country code');
+  }
+  return value.toUpperCase();
+}
+
+function timelineFilter(value: unknown): string {
+  if (typeof value === 'string' && /^\d{4}$/.test(value)) return value;
+  if ((TIMELINE_FILTERS as readonly unknown[]).includes(value)) return value as string;
+  throw new FieldIssue(`Must be a year or one of: ${TIMELINE_FILTERS.join(', ')}`);
+}
+
+// Parse GET /api/wishlist query parameters. Unknown parameters are ignored.
+// origin_lat/origin_lon and currency fall back to defaults, normally the
+// saved home and home currency.
+export function parseListQuery(
+  params: URLSearchParams,
+  defaults: { origin: GeoPoint; currency: string }
+): ListQuery {
+  const fields: FieldErrors = {};
+  const get = (name: string) => {
+    const value = params.get(name)?.trim();
+    return value ? value : undefined;
+  };
+  const check = <T>(name: string, parse: (value: unknown) => T): T | undefined => {
+    const value = get(name);
+    if (value === undefined) return undefined;
+    try {
+      return parse(value);
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields[name] = error.message;
+      return undefined;
+    }
+  };
+  const integer = (min: number, max: number) => (value: unknown): number => {
+    if (!/^\d+$/.test(String(value))) throw new FieldIssue('Must be a whole number');
+    return numberBetween(min, max)(Number(value));
+  };
+  const coordinate = (min: number, max: number) => (value: unknown): number => {
+    return numberBetween(min, max)(Number(value));
+  };
+
+  const query: ListQuery = {
+    country: check('country', text(MAX_LENGTHS.country)),
+    country_code: check('country_code', countryCodeParam),
+    timeline: check('timeline', timelineFilter),
+    budget: check('budget', oneOf(BUDGET_VALUES)),
+    status: check('status', oneOf([...STATUS_VALUES, 'active'])),
+    q: check('q', text(MAX_LENGTHS.reason)),
+    sort: check('sort', oneOf(SORT_FIELDS)) ?? 'rank',
+    order: check('order', oneOf<SortOrder>(['asc', 'desc'])) ?? 'asc',
+    origin: {
+      latitude: check('origin_lat', coordinate(-90, 90)) ?? defaults.origin.latitude,
+      longitude: check('origin_lon', coordinate(-180, 180)) ?? defaults.origin.longitude,
+    },
+    currency: check('currency', currencyCode) ?? defaults.currency,
+    limit: check('limit', integer(1, MAX_PAGE_SIZE)),
+    offset: check('offset', integer(0, Number.MAX_SAFE_INTEGER)) ?? 0,
+  };
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid query parameters', fields);
+  }
+  return query;
+}
+
+// Parse GET /api/trips/optimize query parameters: ids (comma-separated,
+// duplicates dropped), closed (true by default) and origin_lat/origin_lon
+// (default: home)
+export function parseRouteQuery(
+  params: URLSearchParams,
+  defaults: { origin: Origin }
+): { ids: number[]; closed: boolean; origin: Origin } {
+  const fields: FieldErrors = {};
+  const rawIds = params.get('ids')?.trim() ?? '';
+  const ids = [...new Set(rawIds.split(',').map(id => id.trim()).filter(Boolean))];
+  if (ids.length === 0) {
+    fields.ids = 'Is required';
+  } else if (ids.some(id => !/^\d+$/.test(id) || Number(id) < 1)) {
+    fields.ids = 'Must be comma-separated positive integers';
+  } else if (ids.length > MAX_TRIP_STOPS) {
+    fields.ids = `Must have at most ${MAX_TRIP_STOPS} ids`;
+  }
+
+  const closed = params.get('closed')?.trim() || 'true';
+  if (closed !== 'true' && closed !== 'false') {
+    fields.closed = 'Must be true or false';
+  }
+
+  const origin = { ...defaults.origin };
+  const lat = params.get('origin_lat')?.trim();
+  const lon = params.get('origin_lon')?.trim();
+  if (lat || lon) {
+    try {
+      origin.latitude = numberBetween(-90, 90)(Number(lat));
+      origin.longitude = numberBetween(-180, 180)(Number(lon));
+      origin.name = 'Origin';
+    } catch (error) {
+      if (!(error instanceof FieldIssue)) throw error;
+      fields.origin = `Needs both origin_lat and origin_lon; ${error.message.toLowerCase()}`;
+    }
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid route query', fields);
+  }
+  return { ids: ids.map(Number), closed: closed === 'true', origin };
+}
+
+// Parse GET /api/wishlist/export/:format: the format from the path and
+// flights (false by default) from the query
+export function parseGeoExport(format: string, params: URLSearchParams): { format: GeoExportFormat; flights: boolean } {
+  const fields: FieldErrors = {};
+  if (!GEO_EXPORT_FORMATS.includes(format as GeoExportFormat)) {
+    fields.format = `Must be one of: ${GEO_EXPORT_FORMATS.join(', ')}`;
+  }
+  const flights = params.get('flights')?.trim() || 'false';
+  if (flights !== 'true' && flights !== 'false') {
+    fields.flights = 'Must be true or false';
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid export', fields);
+  }
+  return { format: format as GeoExportFormat, flights: flights === 'true' };
+}
+
+// Parse GET /api/geocode query parameters
+export function parseGeocodeQuery(params: URLSearchParams, maxLimit: number): { q: string; limit: number } {
+  const q = params.get('q')?.trim() ?? '';
+  const rawLimit = params.get('limit')?.trim();
+  const fields: FieldErrors = {};
+
+  if (!q) {
+    fields.q = 'Is required';
+  } else if (q.length > MAX_LENGTHS.destination + MAX_LENGTHS.country + 2) {
+    fields.q = 'Is too long';
+  }
+
+  let limit = maxLimit;
+  if (rawLimit) {
+    limit = Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+      fields.limit = `Must be between 1 and ${maxLimit}`;
+    }
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid geocode query', fields);
+  }
+  return { q, limit };
+}
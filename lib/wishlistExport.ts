@@ -0,0 +1,113 @@
+import { mergeDestination } from './store/types';
+import type {
+  ImportChange,
+  ImportMode,
+  ImportPlan,
+  ImportSummary,
+  NewTravelDestination,
+  TravelDestination,
+} from './types';
+
+export const EXPORT_FORMAT = 'travel-wishlist';
+// Bump when a change to the document would break older importers
+export const EXPORT_VERSION = 1;
+
+// GET /api/wishlist/export. Destinations are rows as the API returns them,
+// in rank order with visited ones last; on import their id, timestamps and
+// country_code are ignored.
+export interface WishlistExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  destinations: TravelDestination[];
+}
+
+export function exportDocument(destinations: TravelDestination[], now: Date = new Date()): WishlistExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: now.toISOString(),
+    destinations,
+  };
+}
+
+// Identifies a destination for merges and duplicate checks: destination and
+// country, ignoring case and surrounding whitespace
+export function destinationKey(item: { destination: string; country: string }): string {
+  return `${item.destination.trim().toLowerCase()}\u0000${item.country.trim().toLowerCase()}`;
+}
+
+// Whether writing item over existing would change any stored field. A blank
+// image_url and null mean the same.
+function differs(existing: TravelDestination, item: NewTravelDestination): boolean {
+  const merged = mergeDestination(existing, item);
+  return (Object.keys(merged) as (keyof typeof merged)[]).some(key =>
+    key === 'image_url' ? (merged.image_url || null) !== (existing.image_url || null) : merged[key] !== existing[key]
+  );
+}
+
+function change(action: ImportChange['action'], item: NewTravelDestination | TravelDestination, id: number | null = null): ImportChange {
+  return { action, id, destination: item.destination, country: item.country };
+}
+
+// Work out the writes for importing items (validated, without ranks, in the
+// order they should be appended) into existing, and summarise them. In a
+// merge, a later entry with the same key as an earlier one wins.
+export function planImport(
+  existing: TravelDestination[],
+  items: NewTravelDestination[],
+  mode: ImportMode
+): { plan: ImportPlan; summary: Omit<ImportSummary, 'dry_run'> } {
+  const plan: ImportPlan = { replace: mode === 'replace', updates: [], creates: [] };
+  const summary: Omit<ImportSummary, 'dry_run'> = {
+    mode,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    deleted: 0,
+    changes: [],
+  };
+
+  if (mode !== 'merge') {
+    if (mode === 'replace') {
+      summary.deleted = existing.length;
+      summary.changes.push(...existing.map(row => change('delete', row, row.id)));
+    }
+    plan.creates = items;
+    summary.created = items.length;
+    summary.changes.push(...items.map(item => change('create', item)));
+    return { plan, summary };
+  }
+
+  const stored = new Map<string, TravelDestination>();
+  for (const row of existing) {
+    const key = destinationKey(row);
+    if (!stored.has(key)) stored.set(key, row);
+  }
+  const updates = new Map<string, { id: number; item: NewTravelDestination }>();
+  const creates = new Map<string, NewTravelDestination>();
+  for (const item of items) {
+    const key = destinationKey(item);
+    const row = stored.get(key);
+    if (row) {
+      updates.set(key, { id: row.id, item });
+    } else {
+      creates.set(key, item);
+    }
+  }
+
+  for (const [key, update] of updates) {
+    const row = stored.get(key)!;
+    if (differs(row, update.item)) {
+      plan.updates.push(update);
+      summary.changes.push(change('update', update.item, row.id));
+    } else {
+      summary.unchanged++;
+    }
+  }
+  plan.creates = [...creates.values()];
+  summary.changes.push(...plan.creates.map(item => change('create', item)));
+  summary.updated = plan.updates.length;
+  summary.created = plan.creates.length;
+  return { plan, summary };
+}
@@ -2,7 +2,7 @@
 const nextConfig = {
   // Mark native modules as external for server-side bundling
   experimental: {
-    serverComponentsExternalPackages: ['better-sqlite3'],
+    serverComponentsExternalPackages: ['better-sqlite3', 'all-the-cities'],
   },
 };
 
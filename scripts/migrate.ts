@@ -0,0 +1,19 @@
+// Run pending schema migrations against the configured store.
+// Usage: npm run migrate   (honours WISHLIST_STORE, POSTGRES_URL and SQLITE_PATH)
+import { createStore, resolveStoreKind } from '../lib/store';
+
+async function main() {
+  const kind = resolveStoreKind();
+  const applied = await createStore(kind, false).migrate();
+
+  if (applied.length === 0) {
+    console.log(`[${kind}] Schema is up to date`);
+  } else {
+    console.log(`[${kind}] Applied migrations: ${applied.join(', ')}`);
+  }
+}
+
+main().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
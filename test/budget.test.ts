@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { budgetTotal, deriveBudgetTier, formatMoney } from '../lib/budget';
+import * as db from '../lib/db';
+import { createMemoryStore, setStore } from '../lib/store';
+import { newDestination } from './helpers';
+
+describe('budgetTotal', () => {
+  it('adds the categories that have an estimate', () => {
+    assert.equal(budgetTotal({ cost_flights: 800.1, cost_lodging: 600.2, cost_food: null }), 1400.3);
+    assert.equal(budgetTotal({ cost_food: 0 }), 0);
+    assert.equal(budgetTotal({ cost_flights: null, trip_days: 5 }), null);
+  });
+});
+
+describe('deriveBudgetTier', () => {
+  it('picks the tier from the average spend per day', () => {
+    assert.equal(deriveBudgetTier(1000, 10), 'budget');
+    assert.equal(deriveBudgetTier(1500, 10), 'moderate');
+    assert.equal(deriveBudgetTier(3999, 10), 'moderate');
+    assert.equal(deriveBudgetTier(4000, 10), 'luxury');
+    assert.equal(deriveBudgetTier(10_000, 10), 'ultra-luxury');
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats whole amounts in the currency', () => {
+    assert.equal(formatMoney(1234.56, 'USD'), '$1,235');
+    assert.equal(formatMoney(90000, 'JPY'), '¥90,000');
+  });
+});
+
+describe('derived tiers', () => {
+  afterEach(() => setStore(null));
+
+  it('replace the sent tier once costs are known', async () => {
+    setStore(createMemoryStore());
+    const item = await db.create(
+      newDestination('Tokyo', { budget: 'budget', cost_flights: 1200, cost_lodging: 2800, trip_days: 10 })
+    );
+    assert.equal(item.budget, 'luxury');
+    const plain = await db.create(newDestination('Kyoto', { budget: 'luxury' }));
+    assert.equal(plain.budget, 'luxury');
+  });
+
+  it('convert foreign totals to USD, and keep the sent tier without a rate', async () => {
+    const store = createMemoryStore();
+    await store.putRates([{ currency: 'JPY', per_usd: 150 }], false);
+    setStore(store);
+    const tokyo = await db.create(newDestination('Tokyo', { budget: 'budget', cost_lodging: 450_000, trip_days: 10, currency: 'JPY' }));
+    assert.equal(tokyo.budget, 'moderate');
+    const london = await db.create(newDestination('London', { budget: 'budget', cost_lodging: 9000, trip_days: 3, currency: 'GBP' }));
+    assert.equal(london.budget, 'budget');
+  });
+
+  it('follow a partial update from the stored costs', async () => {
+    setStore(createMemoryStore());
+    const item = await db.create(newDestination('Tokyo', { cost_flights: 1200, cost_lodging: 800, trip_days: 10 }));
+    assert.equal(item.budget, 'moderate');
+    assert.equal((await db.update(item.id, { trip_days: 20 })).budget, 'budget');
+    assert.equal((await db.update(item.id, { cost_food: 4000 })).budget, 'moderate');
+    // Untouched costs leave the tier alone
+    assert.equal((await db.update(item.id, { budget: 'ultra-luxury' })).budget, 'ultra-luxury');
+  });
+
+  it('keep the sent tier until the trip length is known', async () => {
+    setStore(createMemoryStore());
+    const item = await db.create(newDestination('Tokyo', { budget: 'luxury', cost_flights: 1200 }));
+    assert.equal(item.budget, 'luxury');
+    assert.equal((await db.update(item.id, { cost_lodging: 50_000 })).budget, 'luxury');
+    assert.equal((await db.update(item.id, { trip_days: 200 })).budget, 'moderate');
+    assert.equal((await db.update(item.id, { trip_days: null, budget: 'budget' })).budget, 'budget');
+  });
+});
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calendarFeed, isCalendarEvent, newCalendarToken } from '../lib/calendar';
+import { DEFAULT_SETTINGS, publicSettings } from '../lib/db';
+import { createMemoryStore } from '../lib/store';
+import type { TravelDestination } from '../lib/types';
+import { newDestination } from './helpers';
+
+const NOW = new Date('2026-10-19T08:30:00Z');
+
+async function destinations(...overrides: Record<string, unknown>[]): Promise<TravelDestination[]> {
+  const store = createMemoryStore();
+  for (const [index, override] of overrides.entries()) {
+    await store.create(newDestination(`Place ${index + 1}`, override));
+  }
+  return store.getAll();
+}
+
+// Undo line folding, then split into content lines
+function unfold(feed: string): string[] {
+  return feed.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+describe('calendarFeed', () => {
+  it('has one all-day event per planned or booked trip with exact dates', async () => {
+    const items = await destinations(
+      { status: 'planned', timeline: { kind: 'dates', start: '2027-03-10', end: '2027-03-20' } },
+      { status: 'booked', timeline: { kind: 'dates', start: '2027-12-28', end: '2028-01-02' } },
+      { status: 'planned', timeline: { kind: 'someday' } },
+      { status: 'wish', timeline: { kind: 'dates', start: '2027-05-01' } },
+      { status: 'visited', timeline: { kind: 'dates', start: '2025-05-01' } }
+    );
+    assert.deepEqual(items.map(isCalendarEvent), [true, true, false, false, false]);
+
+    const lines = unfold(calendarFeed(items, NOW));
+    assert.equal(lines[0], 'BEGIN:VCALENDAR');
+    assert.equal(lines[lines.length - 1], 'END:VCALENDAR');
+    assert.equal(lines.filter(line => line === 'BEGIN:VEVENT').length, 2);
+
+    const [planned, booked] = items;
+    assert.ok(lines.includes(`UID:destination-${planned.id}@travel-wishlist`));
+    assert.ok(lines.includes(`UID:destination-${booked.id}@travel-wishlist`));
+    // The end date is exclusive for all-day events
+    assert.ok(lines.includes('DTSTART;VALUE=DATE:20270310'));
+    assert.ok(lines.includes('DTEND;VALUE=DATE:20270321'));
+    assert.ok(lines.includes('DTSTART;VALUE=DATE:20271228'));
+    assert.ok(lines.includes('DTEND;VALUE=DATE:20280103'));
+    assert.deepEqual(lines.filter(line => line.startsWith('STATUS:')), ['STATUS:TENTATIVE', 'STATUS:CONFIRMED']);
+  });
+
+  it('leaves out rough month, season and year windows', async () => {
+    const items = await destinations(
+      { status: 'booked', timeline: { kind: 'month', start: '2027-12' } },
+      { status: 'planned', timeline: { kind: 'season', season: 'summer', year: 2027 } },
+      { status: 'booked', timeline: { kind: 'year', year: 2027 } }
+    );
+    assert.deepEqual(items.map(isCalendarEvent), [false, false, false]);
+    assert.ok(!unfold(calendarFeed(items, NOW)).includes('BEGIN:VEVENT'));
+  });
+
+  it('ends every line with CRLF and folds long ones at 75 octets', async () => {
+    const reason = Array(3).fill('Cherry blossoms 🌸 along the Philosopher’s Path, then tea ceremonies and ryokan stays in Gion.').join(' ');
+    const items = await destinations({ status: 'planned', timeline: { kind: 'dates', start: '2027-04-01', end: '2027-04-07' }, reason });
+    const feed = calendarFeed(items, NOW);
+
+    assert.ok(feed.endsWith('\r\n'));
+    assert.doesNotMatch(feed.replace(/\r\n/g, ''), /[\r\n]/);
+    for (const line of feed.split('\r\n')) {
+      assert.ok(Buffer.byteLength(line) <= 75, `${Buffer.byteLength(line)} octets: ${line}`);
+    }
+    assert.ok(unfold(feed).includes(`DESCRIPTION:${reason.replace(/,/g, '\\,')}`));
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines in text', async () => {
+    const items = await destinations({
+      status: 'booked',
+      timeline: { kind: 'dates', start: '2027-04-01', end: '2027-04-07' },
+      reason: 'Food; art, music\nand a \\ backslash',
+    });
+    const lines = unfold(calendarFeed(items, NOW));
+    assert.ok(lines.includes('DESCRIPTION:Food\\; art\\, music\\nand a \\\\ backslash'));
+    assert.ok(lines.includes('SUMMARY:✈️ Place 1\\, Japan'));
+  });
+
+  it('is a valid empty calendar without trips', () => {
+    const lines = unfold(calendarFeed([], NOW));
+    assert.equal(lines[0], 'BEGIN:VCALENDAR');
+    assert.ok(lines.includes('VERSION:2.0'));
+    assert.ok(!lines.includes('BEGIN:VEVENT'));
+  });
+});
+
+describe('calendar token', () => {
+  it('is a fresh URL-safe secret each time', () => {
+    const token = newCalendarToken();
+    assert.match(token, /^[A-Za-z0-9_-]{32}$/);
+    assert.notEqual(newCalendarToken(), token);
+  });
+
+  it('is left out of settings responses, which only say whether one is set', () => {
+    const shown = publicSettings({ ...DEFAULT_SETTINGS, calendar_token: newCalendarToken() });
+    assert.equal('calendar_token' in shown, false);
+    assert.equal(shown.calendar_private, true);
+    assert.equal(publicSettings(DEFAULT_SETTINGS).calendar_private, false);
+  });
+});
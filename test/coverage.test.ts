@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { countryName, resolveCountryCode } from '../lib/countries';
+import * as db from '../lib/db';
+import { createMemoryStore, setStore } from '../lib/store';
+import { newDestination } from './helpers';
+
+describe('resolveCountryCode', () => {
+  it('matches names, common aliases, accents and codes', () => {
+    assert.equal(resolveCountryCode('Japan'), 'JP');
+    assert.equal(resolveCountryCode(' usa '), 'US');
+    assert.equal(resolveCountryCode('England'), 'GB');
+    assert.equal(resolveCountryCode("Côte d'Ivoire"), 'CI');
+    assert.equal(resolveCountryCode('pe'), 'PE');
+    assert.equal(resolveCountryCode('Narnia'), undefined);
+    assert.equal(countryName('FR'), 'France');
+  });
+});
+
+describe('country coverage', () => {
+  afterEach(() => setStore(null));
+
+  it('resolves the country on save and counts entries per country', async () => {
+    setStore(createMemoryStore());
+    const tokyo = await db.create(newDestination('Tokyo'));
+    await db.create(newDestination('Kyoto'));
+    const lima = await db.create(newDestination('Lima', { country: 'Peru' }));
+    await db.create(newDestination('Atlantis', { country: 'Narnia' }));
+    assert.equal(tokyo.country_code, 'JP');
+
+    await db.update(tokyo.id, { status: 'visited' });
+    const moved = await db.update(lima.id, { country: 'Chile' });
+    assert.equal(moved.country_code, 'CL');
+
+    const coverage = await db.getCoverage();
+    assert.deepEqual(coverage.countries, [
+      { code: 'CL', name: 'Chile', count: 1, visited: 0, top_rank: 2 },
+      { code: 'JP', name: 'Japan', count: 2, visited: 1, top_rank: 1 },
+    ]);
+    assert.equal(coverage.unresolved, 1);
+    assert.equal(coverage.visited_countries, 1);
+    assert.ok(coverage.world_countries > 200);
+  });
+});
@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { parseCsv } from '../lib/csv';
+import { importCsv, MAX_CSV_LOOKUPS } from '../lib/csvImport';
+import { create, getAll } from '../lib/db';
+import { ValidationError } from '../lib/errors';
+import { createStubGeocoder, setGeocoder, type Geocoder } from '../lib/geocode';
+import { createMemoryStore, setStore } from '../lib/store';
+import type { CsvImportReport, CsvPlace } from '../lib/types';
+import { validateCsvImport } from '../lib/validation';
+import { newDestination } from './helpers';
+
+// The stub geocoder, counting the lookups that reach it. Not cacheable, so
+// every lookup counts against a request's budget.
+function countingGeocoder(): Geocoder & { calls: number } {
+  const stub = createStubGeocoder();
+  const geocoder = {
+    name: 'counting',
+    cacheable: false,
+    calls: 0,
+    async search(query: string, limit: number) {
+      geocoder.calls++;
+      return stub.search(query, limit);
+    },
+  };
+  return geocoder;
+}
+
+function results(report: CsvImportReport): string[] {
+  return report.rows.map(row => `${row.row}:${row.result}`);
+}
+
+function placesFrom(report: CsvImportReport, known = new Map<number, CsvPlace>()): Map<number, CsvPlace> {
+  for (const row of report.rows) {
+    if (row.place) known.set(row.row, row.place);
+  }
+  return known;
+}
+
+describe('parseCsv', () => {
+  it('reads quoted cells with commas, quotes and newlines', () => {
+    assert.deepEqual(parseCsv('a,b\n"x, y","say ""hi""\nthere"\n\n1,2\n'), [
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('validateCsvImport', () => {
+  it('reads the file, the column mapping and dry_run', () => {
+    const body = { csv: 'City,Country\nKyoto,Japan', columns: { destination: 'City', image_url: '' } };
+    assert.deepEqual(validateCsvImport(body, new URLSearchParams('dry_run=true')), {
+      csv: body.csv,
+      columns: { destination: 'City', image_url: null },
+      places: new Map(),
+      dryRun: true,
+    });
+  });
+
+  it('reads places found by an earlier request, keyed by row', () => {
+    const place = { latitude: 34.69, longitude: 135.5, place_name: 'Osaka, Japan', osm_type: 'relation', osm_id: 358674 };
+    const { places } = validateCsvImport({ csv: 'City\nOsaka', places: { 1: place } }, new URLSearchParams());
+    assert.deepEqual([...places], [[1, place]]);
+    assert.throws(
+      () => validateCsvImport({ csv: 'City\nOsaka', places: { x: place, 3: { latitude: 91 } } }, new URLSearchParams()),
+      {
+        fields: {
+          'places.x': 'Must be keyed by a row number',
+          'places.3.latitude': 'Must be between -90 and 90',
+          'places.3.longitude': 'Is required',
+        },
+      }
+    );
+  });
+
+  it('reports a missing file, unknown fields and a bad dry_run', () => {
+    assert.throws(
+      () => validateCsvImport({ csv: ' ', columns: { town: 'City', country: 3 } }, new URLSearchParams('dry_run=maybe')),
+      (error: unknown) =>
+        error instanceof ValidationError &&
+        JSON.stringify(Object.keys(error.fields).sort()) === JSON.stringify(['columns.country', 'columns.town', 'csv', 'dry_run'])
+    );
+  });
+});
+
+describe('importCsv', () => {
+  let geocoder: ReturnType<typeof countingGeocoder>;
+
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    geocoder = countingGeocoder();
+    setGeocoder(geocoder);
+    await create(newDestination('Tokyo'));
+  });
+
+  it('reports every row and adds the good ones after the current list', async () => {
+    const csv = [
+      'City,Country,Why,Lat,Lon,Tier',
+      'Kyoto,Japan,Temples,,,budget',
+      'tokyo,japan,Again,35.7,139.7,',
+      'Paris,France,Art,48.85,2.35,luxury',
+      'Kyoto,Japan,Twice,,,',
+      'Atlantis,Ocean,Myth,,,',
+      'Rome,Italy,Pasta,,,cheap',
+    ].join('\n');
+    const report = await importCsv(csv, {}, new Map(), false);
+
+    assert.deepEqual(report.columns, {
+      destination: 'City',
+      country: 'Country',
+      reason: 'Why',
+      timeline: null,
+      budget: 'Tier',
+      image_url: null,
+      latitude: 'Lat',
+      longitude: 'Lon',
+    });
+    assert.deepEqual(results(report), ['1:created', '2:duplicate', '3:created', '4:duplicate', '5:geocode_failed', '6:invalid']);
+    assert.equal(report.rows[0].place?.place_name, 'Kyoto, Japan');
+    assert.equal(report.rows[2].place, null);
+    assert.deepEqual(
+      (await getAll()).map(item => [item.destination, item.rank, item.budget]),
+      [['Tokyo', 1, 'moderate'], ['Kyoto', 2, 'budget'], ['Paris', 3, 'luxury']]
+    );
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const report = await importCsv('City,Country\nKyoto,Japan', {}, new Map(), true);
+    assert.equal(report.created, 1);
+    assert.equal((await getAll()).length, 1);
+  });
+
+  it('reads fields from mapped columns and rejects unknown headers', async () => {
+    const report = await importCsv('Place,Land,Notes\nOsaka,Japan,Castle', { destination: 'Place', country: 'Land', reason: 'Notes' }, new Map(), true);
+    assert.equal(report.columns.reason, 'Notes');
+    await assert.rejects(
+      importCsv('Place,Land\nOsaka,Japan', { destination: 'City' }, new Map(), true),
+      (error: unknown) => error instanceof ValidationError && 'columns.destination' in error.fields && 'columns.country' in error.fields
+    );
+  });
+
+  it('looks up a limited number of places per request and leaves the rest pending', async () => {
+    const rows = Array.from({ length: MAX_CSV_LOOKUPS + 2 }, (_, i) => `Place ${i},Nowhere`);
+    const csv = ['City,Country', ...rows].join('\n');
+
+    const first = await importCsv(csv, {}, new Map(), true);
+    assert.equal(geocoder.calls, MAX_CSV_LOOKUPS);
+    assert.equal(first.pending, 2);
+    assert.equal(first.rows.filter(row => row.result === 'pending').length, 2);
+  });
+
+  it('reuses places from earlier requests instead of looking them up again', async () => {
+    const csv = 'City,Country\nKyoto,Japan\nOsaka,Japan\nRome,Italy';
+    const dryRun = await importCsv(csv, {}, new Map(), true);
+    assert.equal(geocoder.calls, 3);
+
+    const report = await importCsv(csv, {}, placesFrom(dryRun), false);
+    assert.equal(geocoder.calls, 3);
+    assert.equal(report.created, 3);
+    const osaka = (await getAll()).find(item => item.destination === 'Osaka')!;
+    assert.equal(osaka.place_name, 'Osaka, Japan');
+    assert.equal(Number(osaka.latitude), 34.6937);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { csvCell, parseCsv } from '../lib/csv';
+import { convertedBudgetTotal, createConverter, parseRatesCsv, readRates } from '../lib/currency';
+import { ValidationError } from '../lib/errors';
+
+const convert = createConverter([
+  { currency: 'EUR', per_usd: 0.9 },
+  { currency: 'JPY', per_usd: 150 },
+]);
+
+describe('createConverter', () => {
+  it('converts through USD and rounds to cents', () => {
+    assert.equal(convert(100, 'USD', 'EUR'), 90);
+    assert.equal(convert(90, 'EUR', 'USD'), 100);
+    assert.equal(convert(100, 'EUR', 'JPY'), 16666.67);
+    assert.equal(convert(42, 'GBP', 'GBP'), 42);
+  });
+
+  it('returns null when either currency has no rate', () => {
+    assert.equal(convert(100, 'GBP', 'USD'), null);
+    assert.equal(convert(100, 'USD', 'GBP'), null);
+    assert.equal(createConverter([])(100, 'EUR', 'USD'), null);
+  });
+});
+
+describe('convertedBudgetTotal', () => {
+  it('converts the sum of the estimates, or gives null', () => {
+    assert.equal(convertedBudgetTotal({ cost_flights: 45, cost_food: 45, currency: 'EUR' }, convert, 'USD'), 100);
+    assert.equal(convertedBudgetTotal({ cost_flights: 100 }, convert, 'EUR'), 90);
+    assert.equal(convertedBudgetTotal({ currency: 'EUR' }, convert, 'USD'), null);
+    assert.equal(convertedBudgetTotal({ cost_food: 10, currency: 'GBP' }, convert, 'USD'), null);
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted cells with commas, quotes and newlines', () => {
+    assert.deepEqual(parseCsv('﻿a,b\r\n"x, y","say ""hi""\nthere"\n\n1,2'), [
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+      ['1', '2'],
+    ]);
+    assert.deepEqual(parseCsv(''), []);
+  });
+
+  it('round trips cells written with csvCell', () => {
+    const cells = ['plain', 'a,b', 'say "hi"', 'two\nlines', ''];
+    assert.deepEqual(parseCsv(cells.map(csvCell).join(',')), [cells]);
+    assert.equal(csvCell(null), '');
+  });
+});
+
+describe('parseRatesCsv', () => {
+  it('reads rows with or without a header, in either column order', () => {
+    assert.deepEqual(parseRatesCsv('EUR,0.92\nJPY,150\n'), [
+      { currency: 'EUR', per_usd: 0.92 },
+      { currency: 'JPY', per_usd: 150 },
+    ]);
+    assert.deepEqual(parseRatesCsv('rate,code\n0.92,EUR\n'), [{ currency: 'EUR', per_usd: 0.92 }]);
+    assert.deepEqual(parseRatesCsv('currency,per_usd\nEUR,\n'), [{ currency: 'EUR', per_usd: undefined }]);
+    assert.deepEqual(parseRatesCsv(''), []);
+  });
+
+  it('rejects a header without the columns it needs', () => {
+    assert.throws(() => parseRatesCsv('currency,amount\nEUR,0.92'), {
+      name: 'ValidationError',
+      message: 'CSV header must name a currency column and a per_usd (or rate) column',
+    });
+  });
+});
+
+describe('readRates', () => {
+  const post = (body: string, type: string) =>
+    new Request('http://localhost/api/rates', { method: 'PUT', body, headers: { 'content-type': type } });
+
+  it('reads CSV or JSON by content type', async () => {
+    assert.deepEqual(await readRates(post('EUR,0.92', 'text/csv')), [{ currency: 'EUR', per_usd: 0.92 }]);
+    assert.deepEqual(await readRates(post('{"EUR":0.92}', 'application/json')), { EUR: 0.92 });
+    await assert.rejects(readRates(post('EUR,0.92', 'application/json')), ValidationError);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import os from 'os';
+import { afterEach, describe, it } from 'node:test';
+import * as db from '../lib/db';
+import { ConflictError, NotFoundError, StorageUnavailableError, ValidationError } from '../lib/errors';
+import { createMemoryStore, createSqliteStore, setStore } from '../lib/store';
+import { toStoreError } from '../lib/store/errors';
+
+function driverError(message: string, code: string, extra: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(message), { code, ...extra });
+}
+
+describe('toStoreError', () => {
+  it('passes typed errors through', () => {
+    for (const error of [new ValidationError('bad'), new NotFoundError(), new ConflictError('clash'), new StorageUnavailableError()]) {
+      assert.equal(toStoreError(error), error);
+    }
+  });
+
+  it('turns constraint and serialization failures into conflicts', () => {
+    for (const code of ['SQLITE_CONSTRAINT_UNIQUE', '23505', '23503', '40001', '40P01']) {
+      const cause = driverError('constraint failed', code);
+      const translated = toStoreError(cause);
+      assert.ok(translated instanceof ConflictError, code);
+      assert.equal(translated.cause, cause);
+    }
+  });
+
+  it('reports other driver failures as storage being unavailable', () => {
+    const causes = [
+      driverError('connect ECONNREFUSED 127.0.0.1:5432', 'ECONNREFUSED', { syscall: 'connect' }),
+      driverError('database is locked', 'SQLITE_BUSY'),
+      driverError('relation "travel_destinations" does not exist', '42P01'),
+      Object.assign(new Error('unable to open database file'), { name: 'SqliteError' }),
+    ];
+    for (const cause of causes) {
+      const translated = toStoreError(cause);
+      assert.ok(translated instanceof StorageUnavailableError, cause.message);
+      assert.equal(translated.cause, cause);
+    }
+  });
+
+  it('passes errors from our own code through, so they surface as bugs', () => {
+    const causes = [
+      new TypeError("Cannot read properties of undefined (reading 'rank')"),
+      driverError('not a driver code', 'ERR_INVALID_ARG_TYPE'),
+      'a thrown string',
+    ];
+    for (const cause of causes) {
+      assert.equal(toStoreError(cause), cause);
+    }
+  });
+});
+
+describe('data layer errors', () => {
+  afterEach(() => setStore(null));
+
+  it('throws NotFoundError for missing destinations', async () => {
+    setStore(createMemoryStore());
+    await assert.rejects(db.getById(1), NotFoundError);
+    await assert.rejects(db.update(1, { reason: 'x' }), NotFoundError);
+    await assert.rejects(db.remove(1), NotFoundError);
+    await assert.rejects(db.move(1, { position: 1 }), NotFoundError);
+  });
+
+  it('throws StorageUnavailableError when the database cannot be opened', async t => {
+    const logged = t.mock.method(console, 'error', () => undefined);
+    // A directory can't be opened as a database file
+    setStore(createSqliteStore(os.tmpdir()));
+    await assert.rejects(db.getAll(), StorageUnavailableError);
+    assert.equal(logged.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { greatCirclePath, haversineKm, splitAtAntimeridian } from '../lib/geo';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const NEW_YORK = { latitude: 40.7128, longitude: -74.006 };
+const TOKYO = { latitude: 35.6762, longitude: 139.6503 };
+const SAN_FRANCISCO = { latitude: 37.7749, longitude: -122.4194 };
+
+describe('haversineKm', () => {
+  it('measures great-circle distances', () => {
+    assert.ok(Math.abs(haversineKm(LONDON, NEW_YORK) - 5570) < 10);
+    assert.equal(haversineKm(TOKYO, TOKYO), 0);
+    assert.ok(Math.abs(haversineKm({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 180 }) - Math.PI * 6371) < 1e-6);
+  });
+});
+
+describe('greatCirclePath', () => {
+  it('runs from one end to the other in steps of about stepKm', () => {
+    const path = greatCirclePath(LONDON, NEW_YORK, 500);
+    assert.equal(path.length, Math.ceil(haversineKm(LONDON, NEW_YORK) / 500) + 1);
+    assert.ok(haversineKm(path[0], LONDON) < 1e-6);
+    assert.ok(haversineKm(path[path.length - 1], NEW_YORK) < 1e-6);
+    for (let i = 1; i < path.length; i++) {
+      assert.ok(haversineKm(path[i - 1], path[i]) <= 500);
+    }
+    // The great circle bows north of both ends
+    assert.ok(Math.max(...path.map(point => point.latitude)) > LONDON.latitude);
+  });
+
+  it('returns just the ends for the same point', () => {
+    assert.deepEqual(greatCirclePath(TOKYO, TOKYO), [TOKYO, TOKYO]);
+  });
+});
+
+describe('splitAtAntimeridian', () => {
+  it('leaves paths that stay on one side alone', () => {
+    const path = greatCirclePath(LONDON, NEW_YORK);
+    assert.deepEqual(splitAtAntimeridian(path), [path]);
+    assert.deepEqual(splitAtAntimeridian([]), []);
+  });
+
+  it('splits a Pacific crossing at ±180 with the crossing on both sides', () => {
+    const path = greatCirclePath(TOKYO, SAN_FRANCISCO);
+    const [west, east] = splitAtAntimeridian(path);
+    assert.equal(west[west.length - 1].longitude, 180);
+    assert.equal(east[0].longitude, -180);
+    assert.equal(west[west.length - 1].latitude, east[0].latitude);
+    assert.equal(west.length + east.length, path.length + 2);
+    assert.ok(west.every(point => point.longitude > 0));
+    assert.ok(east.every(point => point.longitude < 0));
+  });
+
+  it('splits the other way too', () => {
+    const parts = splitAtAntimeridian([{ latitude: 10, longitude: -170 }, { latitude: 20, longitude: 170 }]);
+    assert.deepEqual(parts, [
+      [{ latitude: 10, longitude: -170 }, { latitude: 15, longitude: -180 }],
+      [{ latitude: 15, longitude: 180 }, { latitude: 20, longitude: 170 }],
+    ]);
+  });
+});
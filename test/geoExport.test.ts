@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { ValidationError } from '../lib/errors';
+import { GEO_EXPORTS } from '../lib/geoExport';
+import { createMemoryStore } from '../lib/store';
+import type { TravelDestination } from '../lib/types';
+import { parseGeoExport } from '../lib/validation';
+import { newDestination } from './helpers';
+
+const HOME = { name: 'Sydney & co', latitude: -33.87, longitude: 151.21 };
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('geo exports', () => {
+  let items: TravelDestination[];
+
+  before(async () => {
+    const store = createMemoryStore();
+    await store.create(newDestination('Tokyo', { latitude: 35.68, longitude: 139.69, reason: 'Sushi & <ramen> "best"', cost_food: 300, timeline: '2026' }));
+    await store.create(newDestination('Los Angeles', { country: 'USA', latitude: 34.05, longitude: -118.24, image_url: 'https://example.com/a.jpg?x=1&y=2' }));
+    items = await store.getAll();
+  });
+
+  function render(format: 'geojson' | 'kml' | 'gpx', flights: boolean): string {
+    return GEO_EXPORTS[format].serialize(items, { home: HOME, flights, now: NOW });
+  }
+
+  it('writes GeoJSON points with every property', () => {
+    const { features } = JSON.parse(render('geojson', false));
+    assert.equal(features.length, 2);
+    assert.deepEqual(features[0].geometry, { type: 'Point', coordinates: [139.69, 35.68] });
+    assert.equal(features[0].properties.destination, 'Tokyo');
+    assert.equal(features[0].properties.timeline_label, '2026');
+    assert.equal(features[0].properties.budget_total, 300);
+  });
+
+  it('splits a flight across the date line into two lines', () => {
+    const flights = JSON.parse(render('geojson', true)).features.slice(2);
+    assert.deepEqual(flights.map((f: { geometry: { type: string } }) => f.geometry.type), ['LineString', 'MultiLineString']);
+    const [west, east] = flights[1].geometry.coordinates as [number, number][][];
+    assert.equal(west[west.length - 1][0], 180);
+    assert.equal(east[0][0], -180);
+    assert.equal(west[west.length - 1][1], east[0][1]);
+    assert.equal(flights[1].properties.to, 'Los Angeles, USA');
+  });
+
+  it('escapes text in KML and puts flights in their own folder', () => {
+    const kml = render('kml', true);
+    assert.ok(kml.includes('<description>Sushi &amp; &lt;ramen&gt; &quot;best&quot;</description>'));
+    assert.ok(kml.includes('<value>https://example.com/a.jpg?x=1&amp;y=2</value>'));
+    assert.ok(kml.includes('<Folder><name>Flights from Sydney &amp; co</name>'));
+    assert.equal(kml.match(/<MultiGeometry>/g)?.length, 1);
+    assert.ok(!kml.includes('<ramen>'));
+  });
+
+  it('writes GPX waypoints and a track segment per side of the date line', () => {
+    const gpx = render('gpx', true);
+    assert.ok(gpx.includes('<time>2026-10-19T12:00:00.000Z</time>'));
+    assert.ok(gpx.includes('<wpt lat="35.68" lon="139.69"><name>Tokyo, Japan</name><cmt>#1 · 2026 · moderate</cmt>'));
+    assert.ok(gpx.includes('<link href="https://example.com/a.jpg?x=1&amp;y=2"/>'));
+    assert.ok(gpx.includes('<tw:reason>Sushi &amp; &lt;ramen&gt; &quot;best&quot;</tw:reason>'));
+    const tracks = gpx.split('<trk>').slice(1);
+    assert.deepEqual(tracks.map(track => track.split('<trkseg>').length - 1), [1, 2]);
+  });
+});
+
+describe('parseGeoExport', () => {
+  it('reads the format and flights, off by default', () => {
+    assert.deepEqual(parseGeoExport('kml', new URLSearchParams()), { format: 'kml', flights: false });
+    assert.deepEqual(parseGeoExport('gpx', new URLSearchParams('flights=true')), { format: 'gpx', flights: true });
+    assert.throws(
+      () => parseGeoExport('shp', new URLSearchParams('flights=yes')),
+      (error: unknown) => error instanceof ValidationError && 'format' in error.fields && 'flights' in error.fields
+    );
+  });
+});
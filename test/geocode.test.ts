@@ -0,0 +1,266 @@
+import assert from 'node:assert/strict';
+import os from 'os';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { GeocoderUnavailableError } from '../lib/errors';
+import {
+  createGazetteerGeocoder,
+  createStubGeocoder,
+  geocode,
+  normalizeQuery,
+  resolveFallbackKind,
+  setGeocoder,
+  type Geocoder,
+} from '../lib/geocode';
+import type { GazetteerPlace } from '../lib/geocode/gazetteer';
+import { createNominatimGeocoder } from '../lib/geocode/nominatim';
+import { createThrottle } from '../lib/geocode/throttle';
+import { createMemoryStore, createSqliteStore, setStore } from '../lib/store';
+
+// The stub geocoder, recording each query that reaches it
+function countingGeocoder(name: string = 'stub'): Geocoder & { queries: string[] } {
+  const stub = createStubGeocoder();
+  const queries: string[] = [];
+  return {
+    name,
+    cacheable: stub.cacheable,
+    queries,
+    search(query, limit) {
+      queries.push(query);
+      return stub.search(query, limit);
+    },
+  };
+}
+
+// Stands in for Nominatim when it can't be reached
+const unreachable: Geocoder = {
+  name: 'nominatim',
+  cacheable: true,
+  async search() {
+    throw new GeocoderUnavailableError();
+  },
+};
+
+const PLACES: GazetteerPlace[] = [
+  { name: 'Paris', country: 'FR', latitude: 48.85, longitude: 2.35, population: 2_138_551 },
+  { name: 'Paris', country: 'US', latitude: 33.66, longitude: -95.56, population: 24_171 },
+  { name: 'Parisot', country: 'FR', latitude: 44.26, longitude: 1.86, population: 15_500 },
+  { name: 'San Francisco', country: 'US', latitude: 37.77, longitude: -122.42, population: 864_816 },
+  { name: 'Kraków', country: 'PL', latitude: 50.06, longitude: 19.94, population: 755_050 },
+];
+
+function gazetteer(): Geocoder {
+  return createGazetteerGeocoder(async () => PLACES);
+}
+
+describe('normalizeQuery', () => {
+  it('lowercases and tidies spaces around commas', () => {
+    assert.equal(normalizeQuery('  Paris ,France '), 'paris, france');
+    assert.equal(normalizeQuery('New   York,USA'), 'new york, usa');
+  });
+});
+
+describe('geocode', () => {
+  beforeEach(() => setStore(createMemoryStore()));
+  afterEach(() => {
+    setStore(null);
+    setGeocoder(null);
+  });
+
+  it('answers repeat queries from the cache', async () => {
+    const geocoder = countingGeocoder();
+    setGeocoder(geocoder);
+
+    const first = await geocode('Paris');
+    assert.equal(first.cached, false);
+    assert.deepEqual(first.candidates.map(place => place.displayName), ['Paris, France', 'Paris, Texas, United States']);
+
+    const second = await geocode(' PARIS ', 1);
+    assert.equal(second.cached, true);
+    assert.equal(second.query, 'paris');
+    assert.deepEqual(second.candidates, first.candidates.slice(0, 1));
+    assert.deepEqual(geocoder.queries, ['paris']);
+  });
+
+  it('keeps each geocoder’s answers apart in the cache', async () => {
+    setGeocoder(countingGeocoder('stub'));
+    await geocode('Tokyo');
+    const other = countingGeocoder('other');
+    setGeocoder(other);
+    assert.equal((await geocode('Tokyo')).cached, false);
+    assert.deepEqual(other.queries, ['tokyo']);
+  });
+
+  it('still looks places up when the cache is unavailable', async t => {
+    t.mock.method(console, 'error', () => undefined);
+    // A directory can't be opened as a database file
+    setStore(createSqliteStore(os.tmpdir()));
+    const geocoder = countingGeocoder();
+    setGeocoder(geocoder);
+    assert.equal((await geocode('Rome')).candidates[0].displayName, 'Rome, Italy');
+    assert.equal((await geocode('Rome')).cached, false);
+    assert.deepEqual(geocoder.queries, ['rome', 'rome']);
+  });
+});
+
+describe('geocode fallback', () => {
+  beforeEach(() => setStore(createMemoryStore()));
+  afterEach(() => {
+    setStore(null);
+    setGeocoder(null);
+  });
+
+  it('answers from the fallback when the primary geocoder is unavailable', async t => {
+    t.mock.method(console, 'warn', () => undefined);
+    setGeocoder(unreachable, gazetteer());
+    const result = await geocode('Paris, France');
+    assert.equal(result.source, 'gazetteer');
+    assert.equal(result.cached, false);
+    assert.deepEqual(result.candidates.map(place => place.displayName), ['Paris, France', 'Parisot, France']);
+  });
+
+  it('answers from the fallback when the primary sends a malformed response', async t => {
+    t.mock.method(console, 'warn', () => undefined);
+    t.mock.method(globalThis, 'fetch', async () => Response.json({ unexpected: true }));
+    const fallback = countingGeocoder();
+    setGeocoder(createNominatimGeocoder('https://geo.example.com', undefined, 0), fallback);
+    const result = await geocode('Kyoto');
+    assert.deepEqual(fallback.queries, ['kyoto']);
+    assert.equal(result.source, 'stub');
+  });
+
+  it('does not cache lookups that never leave the process', async () => {
+    const local = gazetteer();
+    setGeocoder(local);
+    await geocode('Paris');
+    assert.equal((await geocode('Paris')).cached, false);
+  });
+
+  it('passes the error on without a fallback or when the failure is not an outage', async t => {
+    t.mock.method(console, 'warn', () => undefined);
+    setGeocoder(unreachable);
+    await assert.rejects(geocode('Paris'), GeocoderUnavailableError);
+
+    const broken: Geocoder = { name: 'broken', cacheable: true, search: async () => Promise.reject(new RangeError('bug')) };
+    setGeocoder(broken, gazetteer());
+    await assert.rejects(geocode('Paris'), RangeError);
+  });
+
+  it('falls back to the gazetteer behind Nominatim unless configured otherwise', () => {
+    const env = (vars: Record<string, string> = {}): NodeJS.ProcessEnv => ({ NODE_ENV: 'test', ...vars });
+    assert.equal(resolveFallbackKind(env()), 'gazetteer');
+    assert.equal(resolveFallbackKind(env({ GEOCODER_FALLBACK: 'none' })), undefined);
+    assert.equal(resolveFallbackKind(env({ GEOCODER: 'stub' })), undefined);
+    assert.equal(resolveFallbackKind(env({ GEOCODER: 'stub', GEOCODER_FALLBACK: 'gazetteer' })), 'gazetteer');
+  });
+});
+
+describe('createGazetteerGeocoder', () => {
+  const names = async (query: string, limit = 5) =>
+    (await gazetteer().search(query, limit)).map(place => place.displayName);
+
+  it('matches name prefixes, exact names first and then by population', async () => {
+    assert.deepEqual(await names('paris'), ['Paris, France', 'Paris, United States', 'Parisot, France']);
+    assert.deepEqual(await names('san fr'), ['San Francisco, United States']);
+    assert.deepEqual(await names('paris', 1), ['Paris, France']);
+  });
+
+  it('narrows to the country after the last comma', async () => {
+    assert.deepEqual(await names('Paris, USA'), ['Paris, United States']);
+    // An unknown country is ignored
+    assert.deepEqual(await names('Paris, Atlantis', 1), ['Paris, France']);
+  });
+
+  it('ignores accents and forgives small typos', async () => {
+    assert.deepEqual(await names('krakow'), ['Kraków, Poland']);
+    assert.deepEqual(await names('San Fransisco'), ['San Francisco, United States']);
+    assert.deepEqual(await names('Lodnon'), []);
+    assert.deepEqual(await names(' , '), []);
+  });
+});
+
+describe('createThrottle', () => {
+  it('starts calls at least the interval apart, even after a failure', async () => {
+    const schedule = createThrottle(40);
+    const starts: number[] = [];
+    const call = (fail: boolean) =>
+      schedule(async () => {
+        starts.push(Date.now());
+        if (fail) throw new Error('boom');
+        return starts.length;
+      });
+
+    const results = await Promise.allSettled([call(false), call(true), call(false)]);
+    assert.deepEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'fulfilled']);
+    for (let i = 1; i < starts.length; i++) {
+      // Timers may fire a millisecond early
+      assert.ok(starts[i] - starts[i - 1] >= 39, `gap ${starts[i] - starts[i - 1]}ms`);
+    }
+  });
+});
+
+describe('createNominatimGeocoder', () => {
+  it('asks the search API and maps its results', async t => {
+    const fetch = t.mock.method(globalThis, 'fetch', async () =>
+      Response.json([{ lat: '48.85', lon: '2.35', display_name: 'Paris, France', osm_type: 'relation', osm_id: 71525 }])
+    );
+    const geocoder = createNominatimGeocoder('https://geo.example.com/nominatim', 'TestAgent/1.0', 0);
+
+    assert.deepEqual(await geocoder.search('paris', 3), [
+      { latitude: 48.85, longitude: 2.35, displayName: 'Paris, France', osmType: 'relation', osmId: 71525 },
+    ]);
+    const [url, init] = fetch.mock.calls[0].arguments as [URL, RequestInit];
+    assert.equal(String(url), 'https://geo.example.com/nominatim/search?format=jsonv2&q=paris&limit=3');
+    assert.deepEqual(init.headers, { 'User-Agent': 'TestAgent/1.0' });
+  });
+
+  it('reports network failures and error statuses as unavailable', async t => {
+    const geocoder = createNominatimGeocoder('https://geo.example.com', undefined, 0);
+    const fetch = t.mock.method(globalThis, 'fetch', async () => {
+      throw new TypeError('fetch failed');
+    });
+    await assert.rejects(geocoder.search('paris', 1), GeocoderUnavailableError);
+
+    fetch.mock.mockImplementation(async () => new Response('Too many requests', { status: 429 }));
+    await assert.rejects(geocoder.search('paris', 1), {
+      name: 'GeocoderUnavailableError',
+      message: 'Geocoder responded with 429',
+    });
+  });
+
+  it('reports a non-JSON or malformed answer as unavailable', async t => {
+    const geocoder = createNominatimGeocoder('https://geo.example.com', undefined, 0);
+    const fetch = t.mock.method(globalThis, 'fetch', async () => new Response('<html>Sign in to Wi-Fi</html>'));
+    await assert.rejects(geocoder.search('paris', 1), {
+      name: 'GeocoderUnavailableError',
+      message: 'Geocoder sent a response that is not JSON',
+    });
+
+    for (const body of [{ error: 'Unable to geocode' }, [{ lat: 'north', lon: '2.35', display_name: 'Paris' }], [null]]) {
+      fetch.mock.mockImplementation(async () => Response.json(body));
+      await assert.rejects(geocoder.search('paris', 1), {
+        name: 'GeocoderUnavailableError',
+        message: 'Geocoder sent an unexpected response',
+      });
+    }
+  });
+
+  it('gives up on a request that hangs past the timeout', async t => {
+    // Never answers, but rejects as fetch does when its signal aborts. The
+    // timer stands in for the open socket: AbortSignal.timeout alone doesn't
+    // keep the process alive.
+    t.mock.method(globalThis, 'fetch', (_url: URL, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        const socket = setTimeout(() => undefined, 5000);
+        init.signal?.addEventListener('abort', () => {
+          clearTimeout(socket);
+          reject(init.signal?.reason);
+        });
+      })
+    );
+    const geocoder = createNominatimGeocoder('https://geo.example.com', undefined, 0, 20);
+    await assert.rejects(geocoder.search('paris', 1), {
+      name: 'GeocoderUnavailableError',
+      message: 'Geocoder timed out',
+    });
+  });
+});
@@ -0,0 +1,8 @@
+import type { NewTravelDestination } from '../lib/types';
+import { validateDestination } from '../lib/validation';
+
+// A valid destination as a POST would store it; overrides go through the
+// validator too, so defaults and normalisation match the API
+export function newDestination(name: string, overrides: Record<string, unknown> = {}): NewTravelDestination {
+  return validateDestination({ destination: name, country: 'Japan', latitude: 35, longitude: 139, ...overrides });
+}
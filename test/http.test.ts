@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConflictError, GeocoderUnavailableError, NotFoundError, StorageUnavailableError, ValidationError } from '../lib/errors';
+import { handleRouteError, readJson } from '../lib/http';
+import { RankValidationError } from '../lib/ranks';
+
+async function respond(error: unknown): Promise<[number, unknown]> {
+  const response = handleRouteError(error, 'Failed to save destination');
+  return [response.status, await response.json()];
+}
+
+describe('handleRouteError', () => {
+  it('turns validation errors into a 400 with their fields', async () => {
+    assert.deepEqual(await respond(new ValidationError('Invalid destination', { latitude: 'Must be a number' })), [
+      400,
+      { error: 'Invalid destination', fields: { latitude: 'Must be a number' } },
+    ]);
+    assert.deepEqual(await respond(new RankValidationError('Rank 4 is out of range 1..3')), [
+      400,
+      { error: 'Rank 4 is out of range 1..3' },
+    ]);
+  });
+
+  it('maps missing records, conflicts and outages to 404, 409 and 503', async () => {
+    assert.deepEqual(await respond(new NotFoundError()), [404, { error: 'Destination not found' }]);
+    assert.deepEqual(await respond(new ConflictError('The change conflicts with existing data')), [
+      409,
+      { error: 'The change conflicts with existing data' },
+    ]);
+    assert.deepEqual(await respond(new StorageUnavailableError()), [
+      503,
+      { error: 'Failed to save destination: storage is unavailable' },
+    ]);
+  });
+
+  it('reports an unreachable geocoder as a 502 with its message', async t => {
+    const log = t.mock.method(console, 'error', () => undefined);
+    assert.deepEqual(await respond(new GeocoderUnavailableError('Geocoder responded with 429')), [
+      502,
+      { error: 'Geocoder responded with 429' },
+    ]);
+    assert.equal(log.mock.callCount(), 1);
+  });
+
+  it('reports anything else as a 500 with the route message', async t => {
+    t.mock.method(console, 'error', () => undefined);
+    assert.deepEqual(await respond(new Error('boom')), [500, { error: 'Failed to save destination' }]);
+  });
+});
+
+describe('readJson', () => {
+  it('parses the body or throws a ValidationError', async () => {
+    const post = (body: string) => new Request('http://localhost/api/wishlist', { method: 'POST', body });
+    assert.deepEqual(await readJson(post('{"a":1}')), { a: 1 });
+    await assert.rejects(readJson(post('{')), { name: 'ValidationError', message: 'Request body must be valid JSON' });
+  });
+});
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fanOffsets, layoutMarkers } from '../lib/mapClusters';
+
+describe('fanOffsets', () => {
+  it('leaves a single marker in place', () => {
+    assert.deepEqual(fanOffsets(1, 20), [{ dx: 0, dy: 0 }]);
+  });
+
+  it('rings markers clockwise from the top', () => {
+    assert.deepEqual(fanOffsets(4, 20), [
+      { dx: 0, dy: -20 },
+      { dx: 20, dy: 0 },
+      { dx: 0, dy: 20 },
+      { dx: -20, dy: 0 },
+    ]);
+  });
+
+  it('widens the ring so many markers stay apart', () => {
+    const offsets = fanOffsets(12, 20);
+    const ring = Math.hypot(offsets[0].dx, offsets[0].dy);
+    assert.ok(ring > 20);
+    assert.ok(Math.hypot(offsets[1].dx - offsets[0].dx, offsets[1].dy - offsets[0].dy) >= 19);
+  });
+});
+
+describe('layoutMarkers', () => {
+  const options = { radius: 20, maxScale: 4 };
+
+  it('draws markers that do not overlap where they are', () => {
+    const layout = layoutMarkers([{ id: 1, x: 0, y: 0 }, { id: 2, x: 100, y: 0 }], options);
+    assert.deepEqual(layout, {
+      markers: [{ id: 1, x: 0, y: 0, dx: 0, dy: 0 }, { id: 2, x: 100, y: 0, dx: 0, dy: 0 }],
+      clusters: [],
+    });
+  });
+
+  it('clusters markers that zooming in would separate', () => {
+    const layout = layoutMarkers([{ id: 1, x: 0, y: 0 }, { id: 2, x: 10, y: 4 }, { id: 3, x: 200, y: 0 }], options);
+    assert.deepEqual(layout.clusters, [{ ids: [1, 2], x: 5, y: 2 }]);
+    assert.deepEqual(layout.markers.map(marker => marker.id), [3]);
+  });
+
+  it('fans out markers that would overlap even at max zoom', () => {
+    const layout = layoutMarkers([{ id: 1, x: 50, y: 50 }, { id: 2, x: 51, y: 50 }], options);
+    assert.deepEqual(layout.clusters, []);
+    assert.deepEqual(layout.markers, [
+      { id: 1, x: 50, y: 50, dx: 0, dy: -20 },
+      { id: 2, x: 51, y: 50, dx: -1, dy: 20 },
+    ]);
+  });
+
+  it('fans out overlapping markers once the map cannot zoom further', () => {
+    const layout = layoutMarkers([{ id: 1, x: 0, y: 0 }, { id: 2, x: 10, y: 0 }], { radius: 20, maxScale: 1 });
+    assert.deepEqual(layout.clusters, []);
+    assert.equal(layout.markers.length, 2);
+    assert.deepEqual(layout.markers.map(marker => [marker.x + marker.dx, marker.y + marker.dy]), [[0, -20], [0, 20]]);
+  });
+});
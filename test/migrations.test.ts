@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { describe, it } from 'node:test';
+import { migrations } from '../lib/migrations';
+import { migrateSqlite } from '../lib/migrations/runner';
+import { createSqliteStore } from '../lib/store';
+
+// The table as the app created it before migrations existed
+const LEGACY_SCHEMA = `
+  CREATE TABLE travel_destinations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    rank INTEGER NOT NULL,
+    destination TEXT NOT NULL,
+    country TEXT NOT NULL,
+    latitude REAL NOT NULL,
+    longitude REAL NOT NULL,
+    reason TEXT NOT NULL DEFAULT '',
+    budget TEXT NOT NULL DEFAULT 'moderate',
+    timeline TEXT NOT NULL DEFAULT 'someday',
+    image_url TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+// Deletes in older builds left gaps in rank
+function legacyDatabase(): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(LEGACY_SCHEMA);
+  const insert = db.prepare(
+    'INSERT INTO travel_destinations (rank, destination, country, latitude, longitude, timeline) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  insert.run(7, 'Reykjavik', 'Iceland', 64.1, -21.9, 'someday');
+  insert.run(1, 'Kyoto', 'Japan', 35.0, 135.8, '2027-q2');
+  insert.run(3, 'New York', 'USA', 40.7, -74.0, '2028');
+  insert.run(3, 'Atlantis', 'Narnia', 0, 0, 'next year');
+  return db;
+}
+
+describe('migrations', () => {
+  it('have unique, increasing versions', () => {
+    const versions = migrations.map(migration => migration.version);
+    assert.deepEqual(versions, [...versions].sort((a, b) => a - b));
+    assert.equal(new Set(versions).size, versions.length);
+  });
+
+  it('bring a database from before migrations up to date without losing rows', () => {
+    const db = legacyDatabase();
+    const applied = migrateSqlite(db, migrations);
+    assert.deepEqual(applied, migrations.map(migration => migration.version));
+
+    const rows = db
+      .prepare(
+        `SELECT destination, rank, timeline_kind, timeline_start, timeline_end, country_code, status
+         FROM travel_destinations ORDER BY rank`
+      )
+      .all();
+    assert.deepEqual(rows, [
+      // Ranks renumbered 1..N in the old order, ties broken by id
+      { destination: 'Kyoto', rank: 1, timeline_kind: 'month', timeline_start: '2027-04-01', timeline_end: '2027-06-30', country_code: 'JP', status: 'wish' },
+      { destination: 'New York', rank: 2, timeline_kind: 'year', timeline_start: '2028-01-01', timeline_end: '2028-12-31', country_code: 'US', status: 'wish' },
+      { destination: 'Atlantis', rank: 3, timeline_kind: 'someday', timeline_start: null, timeline_end: null, country_code: null, status: 'wish' },
+      { destination: 'Reykjavik', rank: 4, timeline_kind: 'someday', timeline_start: null, timeline_end: null, country_code: 'IS', status: 'wish' },
+    ]);
+  });
+
+  it('run each version once', () => {
+    const db = legacyDatabase();
+    migrateSqlite(db, migrations);
+    assert.deepEqual(migrateSqlite(db, migrations), []);
+    const recorded = db.prepare('SELECT COUNT(*) AS n FROM schema_migrations').get() as { n: number };
+    assert.equal(recorded.n, migrations.length);
+  });
+
+  it('run when a store first opens a legacy database file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wishlist-'));
+    try {
+      const file = path.join(dir, 'legacy.db');
+      const db = new Database(file);
+      db.exec(LEGACY_SCHEMA);
+      db.prepare(
+        "INSERT INTO travel_destinations (rank, destination, country, latitude, longitude) VALUES (5, 'Lima', 'Peru', -12.0, -77.0)"
+      ).run();
+      db.close();
+
+      const [item] = await createSqliteStore(file).getAll();
+      assert.equal(item.destination, 'Lima');
+      assert.equal(item.rank, 1);
+      assert.equal(item.country_code, 'PE');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
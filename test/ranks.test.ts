@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RankValidationError, applyMove, assertRankPermutation, insertAt, parseMoveTarget, parseRanks } from '../lib/ranks';
+
+describe('parseRanks', () => {
+  it('accepts an array of integer ids and ranks', () => {
+    assert.deepEqual(parseRanks([{ id: 3, rank: 1, extra: true }]), [{ id: 3, rank: 1 }]);
+    assert.deepEqual(parseRanks([]), []);
+  });
+
+  it('rejects anything else', () => {
+    assert.throws(() => parseRanks(undefined), { name: 'RankValidationError', message: 'Ranks array is required' });
+    assert.throws(() => parseRanks({ id: 1, rank: 1 }), RankValidationError);
+    assert.throws(() => parseRanks([{ id: 1, rank: 1 }, { id: '2', rank: 2 }]), {
+      message: 'ranks[1] must have integer "id" and "rank"',
+    });
+    assert.throws(() => parseRanks([null]), RankValidationError);
+    assert.throws(() => parseRanks([{ id: 1, rank: 1.5 }]), RankValidationError);
+  });
+});
+
+describe('assertRankPermutation', () => {
+  const ids = [10, 20, 30];
+
+  it('accepts every id once with ranks 1..N in any order', () => {
+    assertRankPermutation([{ id: 20, rank: 3 }, { id: 30, rank: 1 }, { id: 10, rank: 2 }], ids);
+    assertRankPermutation([], []);
+  });
+
+  it('names the first problem it finds', () => {
+    const cases: [{ id: number; rank: number }[], string][] = [
+      [[{ id: 10, rank: 1 }, { id: 20, rank: 2 }, { id: 40, rank: 3 }], 'Destination 40 does not exist'],
+      [[{ id: 10, rank: 1 }, { id: 10, rank: 2 }, { id: 30, rank: 3 }], 'Destination 10 appears more than once'],
+      [[{ id: 10, rank: 0 }, { id: 20, rank: 2 }, { id: 30, rank: 3 }], 'Rank 0 is out of range 1..3'],
+      [[{ id: 10, rank: 1 }, { id: 20, rank: 4 }, { id: 30, rank: 3 }], 'Rank 4 is out of range 1..3'],
+      [[{ id: 10, rank: 1 }, { id: 20, rank: 1 }, { id: 30, rank: 3 }], 'Rank 1 is assigned more than once'],
+      [[{ id: 20, rank: 1 }], 'Missing destinations: 10, 30'],
+    ];
+    for (const [ranks, message] of cases) {
+      assert.throws(() => assertRankPermutation(ranks, ids), { name: 'RankValidationError', message });
+    }
+  });
+});
+
+describe('parseMoveTarget', () => {
+  it('takes exactly one of position, before or after', () => {
+    assert.deepEqual(parseMoveTarget({ position: 2 }), { position: 2 });
+    assert.deepEqual(parseMoveTarget({ before: 7 }), { before: 7 });
+    assert.deepEqual(parseMoveTarget({ after: 7 }), { after: 7 });
+    assert.throws(() => parseMoveTarget({}), RankValidationError);
+    assert.throws(() => parseMoveTarget(null), RankValidationError);
+    assert.throws(() => parseMoveTarget({ position: 1, after: 7 }), RankValidationError);
+    assert.throws(() => parseMoveTarget({ position: '1' }), { message: '"position" must be an integer' });
+    assert.throws(() => parseMoveTarget({ after: 1.5 }), { message: '"after" must be a destination id' });
+  });
+});
+
+describe('applyMove', () => {
+  const ids = [1, 2, 3, 4];
+
+  it('moves to a 1-based position', () => {
+    assert.deepEqual(applyMove(ids, 4, { position: 1 }), [4, 1, 2, 3]);
+    assert.deepEqual(applyMove(ids, 1, { position: 4 }), [2, 3, 4, 1]);
+    assert.deepEqual(applyMove(ids, 2, { position: 2 }), ids);
+    assert.throws(() => applyMove(ids, 1, { position: 5 }), { message: 'Position 5 is out of range 1..4' });
+    assert.throws(() => applyMove(ids, 1, { position: 0 }), RankValidationError);
+  });
+
+  it('moves before or after another destination', () => {
+    assert.deepEqual(applyMove(ids, 4, { before: 2 }), [1, 4, 2, 3]);
+    assert.deepEqual(applyMove(ids, 1, { after: 3 }), [2, 3, 1, 4]);
+    assert.deepEqual(applyMove(ids, 1, { after: 4 }), [2, 3, 4, 1]);
+    assert.throws(() => applyMove(ids, 1, { before: 1 }), { message: 'Cannot move a destination relative to itself' });
+    assert.throws(() => applyMove(ids, 1, { after: 9 }), { message: 'Destination 9 does not exist' });
+  });
+});
+
+describe('insertAt', () => {
+  it('inserts at a clamped rank, or appends without one', () => {
+    assert.deepEqual(insertAt([1, 2, 3], 9), [1, 2, 3, 9]);
+    assert.deepEqual(insertAt([1, 2, 3], 9, 2), [1, 9, 2, 3]);
+    assert.deepEqual(insertAt([1, 2, 3], 9, -5), [9, 1, 2, 3]);
+    assert.deepEqual(insertAt([1, 2, 3], 9, 99), [1, 2, 3, 9]);
+    assert.deepEqual(insertAt([1, 2, 3], 3, 1), [3, 1, 2]);
+  });
+});
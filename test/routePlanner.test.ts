@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { haversineKm } from '../lib/geo';
+import { planRoute, type RouteStop } from '../lib/routePlanner';
+import type { Origin } from '../lib/types';
+
+const LONDON: Origin = { name: 'London', latitude: 51.5074, longitude: -0.1278 };
+
+function stop(id: number, latitude: number, longitude: number): RouteStop {
+  return { id, name: `Stop ${id}`, latitude, longitude };
+}
+
+// Small deterministic generator so failures can be reproduced
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+function tourKm(origin: Origin, stops: RouteStop[], closed: boolean): number {
+  const points = closed ? [origin, ...stops, origin] : [origin, ...stops];
+  return points.slice(1).reduce((sum, point, index) => sum + haversineKm(points[index], point), 0);
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+describe('planRoute', () => {
+  it('visits stops along a line in order, whatever order they were given in', () => {
+    const origin = { name: 'Origin', latitude: 0, longitude: 0 };
+    const stops = [stop(3, 0, 30), stop(1, 0, 10), stop(4, 0, 40), stop(2, 0, 20)];
+    const route = planRoute(origin, stops, false);
+    assert.deepEqual(route.order, [1, 2, 3, 4]);
+    assert.equal(route.legs.length, 4);
+    assert.ok(route.distance_km < route.given_distance_km);
+  });
+
+  it('returns to the origin on a closed tour', () => {
+    const stops = [stop(1, 48.8566, 2.3522), stop(2, 52.52, 13.405), stop(3, 41.9028, 12.4964)];
+    const route = planRoute(LONDON, stops, true);
+    assert.equal(route.closed, true);
+    assert.equal(route.legs.length, 4);
+    assert.equal(route.legs[0].from.name, 'London');
+    assert.equal(route.legs[3].to.name, 'London');
+    assert.equal(route.distance_km, route.legs.reduce((sum, leg) => sum + leg.distance_km, 0));
+    assert.equal(route.flight_minutes, route.legs.reduce((sum, leg) => sum + leg.flight_minutes, 0));
+  });
+
+  it('handles no stops and a single stop', () => {
+    assert.deepEqual(planRoute(LONDON, [], true).order, []);
+    assert.equal(planRoute(LONDON, [], false).distance_km, 0);
+    const single = planRoute(LONDON, [stop(7, 40.7128, -74.006)], true);
+    assert.deepEqual(single.order, [7]);
+    assert.equal(single.legs.length, 2);
+  });
+
+  it('finds a tour at least as short as the given order and close to the best', () => {
+    const next = random(42);
+    for (let round = 0; round < 20; round++) {
+      const stops = Array.from({ length: 6 }, (_, i) => stop(i + 1, next() * 120 - 60, next() * 360 - 180));
+      for (const closed of [false, true]) {
+        const route = planRoute(LONDON, stops, closed);
+        const byId = new Map(stops.map(s => [s.id, s]));
+        assert.deepEqual([...route.order].sort(), stops.map(s => s.id).sort());
+
+        const planned = tourKm(LONDON, route.order.map(id => byId.get(id)!), closed);
+        const best = Math.min(...permutations(stops).map(order => tourKm(LONDON, order, closed)));
+        assert.ok(planned <= tourKm(LONDON, stops, closed) + 1e-6);
+        // Nearest neighbour plus 2-opt isn't exact, but stays near optimal
+        assert.ok(planned <= best * 1.15, `round ${round}: ${planned} km vs best ${best} km`);
+      }
+    }
+  });
+});
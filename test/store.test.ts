@@ -0,0 +1,320 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import * as db from '../lib/db';
+import { DEFAULT_HOME } from '../lib/geo';
+import { RankValidationError } from '../lib/ranks';
+import { createMemoryStore, createSqliteStore, setStore, type WishlistStore } from '../lib/store';
+import { parseListQuery } from '../lib/validation';
+import { newDestination } from './helpers';
+
+const BACKENDS: [string, () => WishlistStore][] = [
+  ['memory', () => createMemoryStore()],
+  ['sqlite', () => createSqliteStore(':memory:')],
+];
+
+// Destination names and ranks in rank order, visited ones last with a null rank
+async function order(store: WishlistStore): Promise<[string, number | null][]> {
+  return (await store.getAll()).map(item => [item.destination, item.rank]);
+}
+
+const LIST_DEFAULTS = { origin: DEFAULT_HOME, currency: 'USD' };
+
+// Destination names a GET /api/wishlist query string returns, and the total
+async function list(store: WishlistStore, search: string): Promise<[string[], number]> {
+  const { items, total } = await store.list(parseListQuery(new URLSearchParams(search), LIST_DEFAULTS));
+  return [items.map(item => item.destination), total];
+}
+
+async function seedPlaces(store: WishlistStore): Promise<void> {
+  const places = [
+    newDestination('Tokyo', { latitude: 35.68, longitude: 139.69, budget: 'luxury', timeline: '2026', reason: 'Sushi, 100% fun' }),
+    newDestination('Kyoto', { latitude: 35.01, longitude: 135.77, reason: 'Temples' }),
+    newDestination('Lima', { country: 'Peru', latitude: -12.05, longitude: -77.04, budget: 'budget', timeline: '2025-q1', reason: 'Ceviche 1000 ways' }),
+    newDestination('Paris', { country: 'France', latitude: 48.86, longitude: 2.35, budget: 'luxury', timeline: '2026', reason: 'Art_museums' }),
+  ];
+  for (const place of places) {
+    await store.create(place);
+  }
+}
+
+async function seed(store: WishlistStore, ...names: string[]): Promise<number[]> {
+  const ids: number[] = [];
+  for (const name of names) {
+    ids.push((await store.create(newDestination(name))).id);
+  }
+  return ids;
+}
+
+for (const [name, createStore] of BACKENDS) {
+  describe(`${name} store`, () => {
+    it('appends new destinations, or inserts them at a given rank', async () => {
+      const store = createStore();
+      await seed(store, 'Tokyo', 'Kyoto');
+      await store.create(newDestination('Osaka', { rank: 1 }));
+      await store.create(newDestination('Nara', { rank: 99 }));
+      assert.deepEqual(await order(store), [['Osaka', 1], ['Tokyo', 2], ['Kyoto', 3], ['Nara', 4]]);
+    });
+
+    it('returns destinations by id', async () => {
+      const store = createStore();
+      const kyoto = await store.create(newDestination('Kyoto', { image_url: 'https://example.com/kyoto.jpg' }));
+      assert.equal(kyoto.image_url, 'https://example.com/kyoto.jpg');
+      assert.ok(kyoto.created_at);
+      assert.deepEqual(await store.getById(kyoto.id), kyoto);
+      assert.equal(await store.getById(999), undefined);
+    });
+
+    it('keeps stored values for fields a partial update leaves out', async () => {
+      const store = createStore();
+      const created = await store.create(newDestination('Tokyo', { reason: 'Sushi', budget: 'luxury', notes: 'Spring' }));
+      const updated = await store.update(created.id, { reason: 'Ramen' });
+      assert.equal(updated?.reason, 'Ramen');
+      assert.equal(updated?.budget, 'luxury');
+      assert.equal(updated?.notes, 'Spring');
+      assert.equal(updated?.country, 'Japan');
+      assert.equal(await store.update(999, { reason: 'x' }), undefined);
+    });
+
+    it('keeps the geocoder place a destination was picked from', async () => {
+      const store = createStore();
+      const paris = await store.create(
+        newDestination('Paris', { country: 'USA', place_name: 'Paris, Texas, United States', osm_type: 'relation', osm_id: 115357 })
+      );
+      assert.deepEqual([paris.place_name, paris.osm_type, paris.osm_id], ['Paris, Texas, United States', 'relation', 115357]);
+      const tokyo = await store.create(newDestination('Tokyo'));
+      assert.deepEqual([tokyo.place_name, tokyo.osm_type, tokyo.osm_id], [null, null, null]);
+
+      // Dropping the pin by hand clears the reference
+      const moved = await store.update(paris.id, { latitude: 33.7, place_name: null, osm_type: null, osm_id: null });
+      assert.deepEqual([moved?.place_name, moved?.osm_type, moved?.osm_id], [null, null, null]);
+    });
+
+    it('keeps ranks dense when a destination is removed', async () => {
+      const store = createStore();
+      const [, kyoto] = await seed(store, 'Tokyo', 'Kyoto', 'Osaka');
+      assert.equal(await store.remove(kyoto), true);
+      assert.equal(await store.remove(kyoto), false);
+      assert.deepEqual(await order(store), [['Tokyo', 1], ['Osaka', 2]]);
+    });
+
+    it('moves a destination when an update sets its rank', async () => {
+      const store = createStore();
+      const [, , osaka] = await seed(store, 'Tokyo', 'Kyoto', 'Osaka');
+      await store.update(osaka, { rank: 2 });
+      assert.deepEqual(await order(store), [['Tokyo', 1], ['Osaka', 2], ['Kyoto', 3]]);
+    });
+
+    it('moves to a position or next to another destination', async () => {
+      const store = createStore();
+      const [tokyo, kyoto, osaka] = await seed(store, 'Tokyo', 'Kyoto', 'Osaka');
+      await store.move(osaka, { position: 1 });
+      assert.deepEqual(await order(store), [['Osaka', 1], ['Tokyo', 2], ['Kyoto', 3]]);
+      await store.move(osaka, { after: kyoto });
+      assert.deepEqual(await order(store), [['Tokyo', 1], ['Kyoto', 2], ['Osaka', 3]]);
+      const moved = await store.move(kyoto, { before: tokyo });
+      assert.deepEqual(moved?.map(item => item.destination), ['Kyoto', 'Tokyo', 'Osaka']);
+    });
+
+    it('rejects bad moves and reports unknown ids', async () => {
+      const store = createStore();
+      const [tokyo, kyoto] = await seed(store, 'Tokyo', 'Kyoto');
+      await assert.rejects(store.move(tokyo, { position: 3 }), RankValidationError);
+      await assert.rejects(store.move(tokyo, { before: tokyo }), RankValidationError);
+      await assert.rejects(store.move(tokyo, { after: 999 }), RankValidationError);
+      assert.equal(await store.move(999, { position: 1 }), undefined);
+
+      await store.update(kyoto, { status: 'visited' });
+      await assert.rejects(store.move(kyoto, { position: 1 }), RankValidationError);
+    });
+
+    it('takes visited destinations out of the ranking and brings them back at the end', async () => {
+      const store = createStore();
+      const [tokyo] = await seed(store, 'Tokyo', 'Kyoto', 'Osaka');
+      const visited = await store.update(tokyo, { status: 'visited', visited_start: '2026-04-01', visited_end: '2026-04-09', rating: 5 });
+      assert.deepEqual([visited?.rank, visited?.visited_end, visited?.rating], [null, '2026-04-09', 5]);
+      assert.deepEqual(await order(store), [['Kyoto', 1], ['Osaka', 2], ['Tokyo', null]]);
+      await store.update(tokyo, { status: 'wish' });
+      assert.deepEqual(await order(store), [['Kyoto', 1], ['Osaka', 2], ['Tokyo', 3]]);
+    });
+
+    it('applies a full reorder only when it is a permutation of the ranking', async () => {
+      const store = createStore();
+      const [tokyo, kyoto, osaka] = await seed(store, 'Tokyo', 'Kyoto', 'Osaka');
+      await assert.rejects(
+        store.updateRanks([{ id: tokyo, rank: 1 }, { id: kyoto, rank: 1 }, { id: osaka, rank: 3 }]),
+        RankValidationError
+      );
+      await assert.rejects(store.updateRanks([{ id: tokyo, rank: 1 }, { id: kyoto, rank: 2 }]), RankValidationError);
+      assert.deepEqual(await order(store), [['Tokyo', 1], ['Kyoto', 2], ['Osaka', 3]]);
+
+      const reordered = await store.updateRanks([{ id: tokyo, rank: 3 }, { id: kyoto, rank: 1 }, { id: osaka, rank: 2 }]);
+      assert.deepEqual(reordered.map(item => item.destination), ['Kyoto', 'Osaka', 'Tokyo']);
+      assert.deepEqual(await order(store), [['Kyoto', 1], ['Osaka', 2], ['Tokyo', 3]]);
+    });
+
+    it('filters by country, timeline and budget', async () => {
+      const store = createStore();
+      await seedPlaces(store);
+      assert.deepEqual(await list(store, ''), [['Tokyo', 'Kyoto', 'Lima', 'Paris'], 4]);
+      assert.deepEqual(await list(store, 'country=JAPAN'), [['Tokyo', 'Kyoto'], 2]);
+      assert.deepEqual(await list(store, 'timeline=2026'), [['Tokyo', 'Paris'], 2]);
+      assert.deepEqual(await list(store, 'budget=luxury&country=france'), [['Paris'], 1]);
+      assert.deepEqual(await list(store, 'budget=ultra-luxury'), [[], 0]);
+      assert.deepEqual(await list(store, 'country_code=pe'), [[], 0]);
+      await store.update((await store.getAll())[2].id, { country_code: 'PE' });
+      assert.deepEqual(await list(store, 'country_code=pe'), [['Lima'], 1]);
+    });
+
+    it('filters by status, with active meaning not yet visited', async () => {
+      const store = createStore();
+      const [tokyo, kyoto] = await seed(store, 'Tokyo', 'Kyoto', 'Osaka');
+      await store.update(tokyo, { status: 'visited' });
+      await store.update(kyoto, { status: 'booked' });
+      assert.deepEqual(await list(store, 'status=active'), [['Kyoto', 'Osaka'], 2]);
+      assert.deepEqual(await list(store, 'status=visited'), [['Tokyo'], 1]);
+      assert.deepEqual(await list(store, 'status=booked'), [['Kyoto'], 1]);
+    });
+
+    it('filters by planned window', async () => {
+      const store = createStore();
+      await seedPlaces(store);
+      await store.create(newDestination('Oslo', { timeline: { kind: 'year', year: 2190 } }));
+      assert.deepEqual(await list(store, 'timeline=someday'), [['Kyoto'], 1]);
+      assert.deepEqual(await list(store, 'timeline=past_due'), [['Lima'], 1]);
+      // Tokyo and Paris (2026) drop out of upcoming as the clock moves on
+      const [upcoming] = await list(store, 'timeline=upcoming');
+      assert.ok(upcoming.includes('Oslo') && !upcoming.includes('Lima') && !upcoming.includes('Kyoto'));
+      assert.deepEqual(await list(store, 'timeline=2025'), [['Lima'], 1]);
+      assert.deepEqual(await list(store, 'timeline=2190'), [['Oslo'], 1]);
+    });
+
+    it('does not count a visited destination as past due', async () => {
+      const store = createStore();
+      await seedPlaces(store);
+      const lima = (await store.getAll()).find(item => item.destination === 'Lima')!;
+      await store.update(lima.id, { status: 'visited' });
+      assert.deepEqual(await list(store, 'timeline=past_due'), [[], 0]);
+      assert.ok(!(await list(store, 'timeline=upcoming'))[0].includes('Lima'));
+      assert.deepEqual(await list(store, 'timeline=2025'), [['Lima'], 1]);
+    });
+
+    it('searches destination, country and reason, treating wildcards literally', async () => {
+      const store = createStore();
+      await seedPlaces(store);
+      assert.deepEqual(await list(store, 'q=SUSHI'), [['Tokyo'], 1]);
+      assert.deepEqual(await list(store, 'q=peru'), [['Lima'], 1]);
+      assert.deepEqual(await list(store, 'q=AN'), [['Tokyo', 'Kyoto', 'Paris'], 3]);
+      assert.deepEqual(await list(store, 'q=100%25'), [['Tokyo'], 1]);
+      assert.deepEqual(await list(store, 'q=_'), [['Paris'], 1]);
+    });
+
+    it('sorts by rank, creation time or distance from the origin in either order', async () => {
+      const store = createStore();
+      await seedPlaces(store);
+      assert.deepEqual(await list(store, 'order=desc'), [['Paris', 'Lima', 'Kyoto', 'Tokyo'], 4]);
+      // Created in the same second: ties fall back to id in the same direction
+      assert.deepEqual(await list(store, 'sort=created_at&order=desc'), [['Paris', 'Lima', 'Kyoto', 'Tokyo'], 4]);
+      const fromTokyo = 'sort=distance&origin_lat=35.68&origin_lon=139.69';
+      assert.deepEqual(await list(store, fromTokyo), [['Tokyo', 'Kyoto', 'Paris', 'Lima'], 4]);
+      assert.deepEqual(await list(store, `${fromTokyo}&order=desc`), [['Lima', 'Paris', 'Kyoto', 'Tokyo'], 4]);
+    });
+
+    it('pages with limit and offset and counts every match', async () => {
+      const store = createStore();
+      await seedPlaces(store);
+      assert.deepEqual(await list(store, 'limit=2&offset=1'), [['Kyoto', 'Lima'], 4]);
+      assert.deepEqual(await list(store, 'offset=3'), [['Paris'], 4]);
+      assert.deepEqual(await list(store, 'offset=10'), [[], 4]);
+      assert.deepEqual(await list(store, 'country=japan&limit=1&offset=1'), [['Kyoto'], 2]);
+    });
+
+    it('stores trips with their stops in order and drops removed destinations from them', async () => {
+      const store = createStore();
+      const [tokyo, kyoto, osaka] = await seed(store, 'Tokyo', 'Kyoto', 'Osaka');
+      const stops = [
+        { destination_id: kyoto, arrive_on: '2027-03-01', depart_on: '2027-03-04' },
+        { destination_id: tokyo, arrive_on: null, depart_on: null },
+        { destination_id: kyoto, arrive_on: '2027-03-08', depart_on: null },
+      ];
+      const trip = await store.createTrip({ name: 'Kansai', notes: 'Spring', stops });
+      assert.deepEqual(trip.stops, stops);
+      assert.deepEqual(await store.getTrip(trip.id), trip);
+
+      const updated = await store.updateTrip(trip.id, { name: 'Kansai', notes: '', stops: [stops[0], { ...stops[1], destination_id: osaka }] });
+      assert.deepEqual(updated?.stops.map(s => s.destination_id), [kyoto, osaka]);
+      assert.equal(await store.updateTrip(999, { name: 'x', notes: '', stops: [] }), undefined);
+
+      await store.remove(kyoto);
+      assert.deepEqual((await store.getTrips()).map(t => t.stops.map(s => s.destination_id)), [[osaka]]);
+      assert.equal(await store.removeTrip(trip.id), true);
+      assert.equal(await store.removeTrip(trip.id), false);
+      assert.deepEqual(await store.getTrips(), []);
+    });
+
+    it('upserts exchange rates and replaces the table on request', async () => {
+      const store = createStore();
+      await store.putRates([{ currency: 'JPY', per_usd: 150 }, { currency: 'EUR', per_usd: 0.9 }], false);
+      await store.putRates([{ currency: 'EUR', per_usd: 0.92 }], false);
+      assert.deepEqual((await store.getRates()).map(rate => [rate.currency, rate.per_usd]), [['EUR', 0.92], ['JPY', 150]]);
+      await store.putRates([{ currency: 'GBP', per_usd: 0.79 }], true);
+      assert.deepEqual((await store.getRates()).map(rate => [rate.currency, rate.per_usd]), [['GBP', 0.79]]);
+    });
+
+    it('saves settings one key at a time', async () => {
+      const store = createStore();
+      assert.deepEqual(await store.getSettings(), {});
+      const home = { name: 'Lisbon, Portugal', latitude: 38.72, longitude: -9.14 };
+      await store.putSettings({ home, extra_origins: [] });
+      await store.putSettings({ extra_origins: [DEFAULT_HOME] });
+      assert.deepEqual(await store.getSettings(), { home, extra_origins: [DEFAULT_HOME] });
+    });
+  });
+}
+
+for (const [name, createStore] of BACKENDS) {
+  describe(`list over the ${name} store`, () => {
+    afterEach(() => setStore(null));
+
+    const FROM_TOKYO = 'origin_lat=35.68&origin_lon=139.69';
+
+    async function listed(search: string): Promise<[string[], number]> {
+      const { items, total } = await db.list(parseListQuery(new URLSearchParams(search), LIST_DEFAULTS));
+      return [items.map(item => item.destination), total];
+    }
+
+    it('sorts flight time as distance', async () => {
+      const store = createStore();
+      setStore(store);
+      await seedPlaces(store);
+      assert.deepEqual(await listed(`sort=flight_time&${FROM_TOKYO}`), [['Tokyo', 'Kyoto', 'Paris', 'Lima'], 4]);
+      assert.deepEqual(await listed(`sort=flight_time&order=desc&${FROM_TOKYO}`), [['Lima', 'Paris', 'Kyoto', 'Tokyo'], 4]);
+    });
+
+    it('sorts by hours apart in either direction, nearer first among ties, then pages', async () => {
+      const store = createStore();
+      setStore(store);
+      await seedPlaces(store);
+      // Tokyo and Kyoto share a zone; Paris is 7 or 8 hours behind, Lima 14
+      assert.deepEqual(await listed(`sort=time_difference&${FROM_TOKYO}`), [['Tokyo', 'Kyoto', 'Paris', 'Lima'], 4]);
+      assert.deepEqual(await listed(`sort=time_difference&order=desc&${FROM_TOKYO}`), [['Lima', 'Paris', 'Tokyo', 'Kyoto'], 4]);
+      assert.deepEqual(await listed(`sort=time_difference&limit=2&offset=1&${FROM_TOKYO}`), [['Kyoto', 'Paris'], 4]);
+      assert.deepEqual(await listed(`sort=time_difference&country=japan&${FROM_TOKYO}`), [['Tokyo', 'Kyoto'], 2]);
+    });
+
+    it('sorts by budget total in the requested currency, unknown totals last', async () => {
+      const store = createStore();
+      setStore(store);
+      await seedPlaces(store);
+      await store.putRates([{ currency: 'EUR', per_usd: 0.9 }], false);
+      const [tokyo, kyoto, , paris] = await store.getAll();
+      await store.update(tokyo.id, { cost_flights: 600, cost_lodging: 400 });
+      await store.update(paris.id, { cost_lodging: 1800, currency: 'EUR' });
+      // No rate for GBP, so Kyoto's total is unknown like Lima's
+      await store.update(kyoto.id, { cost_food: 100, currency: 'GBP' });
+
+      assert.deepEqual(await listed(`sort=budget_total&${FROM_TOKYO}`), [['Tokyo', 'Paris', 'Kyoto', 'Lima'], 4]);
+      assert.deepEqual(await listed(`sort=budget_total&order=desc&${FROM_TOKYO}`), [['Paris', 'Tokyo', 'Kyoto', 'Lima'], 4]);
+      assert.deepEqual(await listed(`sort=budget_total&currency=EUR&limit=2&offset=1&${FROM_TOKYO}`), [['Paris', 'Kyoto'], 4]);
+    });
+  });
+}
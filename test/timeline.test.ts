@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ValidationError } from '../lib/errors';
+import {
+  isPastDue,
+  legacyTimeline,
+  resolveTimeline,
+  SOMEDAY,
+  TimelineError,
+  timelineLabel,
+  timelineSpec,
+  type TimelineSpec,
+} from '../lib/timeline';
+import { validateDestination } from '../lib/validation';
+
+function range(spec: TimelineSpec): [string, string | null, string | null] {
+  const fields = resolveTimeline(spec);
+  return [fields.timeline_kind, fields.timeline_start, fields.timeline_end];
+}
+
+describe('resolveTimeline', () => {
+  it('turns each kind into an inclusive date range', () => {
+    assert.deepEqual(range({ kind: 'dates', start: '2027-03-10', end: '2027-03-20' }), ['dates', '2027-03-10', '2027-03-20']);
+    assert.deepEqual(range({ kind: 'dates', start: '2027-03-10' }), ['dates', '2027-03-10', '2027-03-10']);
+    assert.deepEqual(range({ kind: 'month', start: '2028-02' }), ['month', '2028-02-01', '2028-02-29']);
+    assert.deepEqual(range({ kind: 'month', start: '2027-05-14', end: '2027-06' }), ['month', '2027-05-01', '2027-06-30']);
+    assert.deepEqual(range({ kind: 'season', season: 'summer', year: 2027 }), ['season', '2027-06-01', '2027-08-31']);
+    assert.deepEqual(range({ kind: 'year', year: 2029 }), ['year', '2029-01-01', '2029-12-31']);
+    assert.deepEqual(range({ kind: 'someday' }), ['someday', null, null]);
+  });
+
+  it('runs winter from December into the next year', () => {
+    assert.deepEqual(range({ kind: 'season', season: 'winter', year: 2027 }), ['season', '2027-12-01', '2028-02-29']);
+  });
+
+  it('rejects impossible dates, backwards ranges and out-of-range years', () => {
+    assert.throws(() => resolveTimeline({ kind: 'dates', start: '2027-02-30' }), TimelineError);
+    assert.throws(() => resolveTimeline({ kind: 'dates', start: '10/03/2027' }), TimelineError);
+    assert.throws(() => resolveTimeline({ kind: 'dates', start: '2027-03-20', end: '2027-03-10' }), TimelineError);
+    assert.throws(() => resolveTimeline({ kind: 'month', start: '2027-13' }), TimelineError);
+    assert.throws(() => resolveTimeline({ kind: 'year', year: 3000 }), TimelineError);
+    assert.throws(() => resolveTimeline({ kind: 'season', season: 'monsoon' as 'summer', year: 2027 }), TimelineError);
+  });
+
+  it('round-trips through timelineSpec', () => {
+    const specs: TimelineSpec[] = [
+      { kind: 'dates', start: '2027-03-10', end: '2027-03-20' },
+      { kind: 'month', start: '2027-05', end: '2027-06' },
+      { kind: 'season', season: 'winter', year: 2026 },
+      { kind: 'year', year: 2030 },
+      { kind: 'someday' },
+    ];
+    for (const spec of specs) {
+      assert.deepEqual(timelineSpec(resolveTimeline(spec)), spec);
+    }
+  });
+});
+
+describe('legacyTimeline', () => {
+  it('maps the old fixed options', () => {
+    assert.deepEqual(legacyTimeline('2025-q3'), { timeline_kind: 'month', timeline_start: '2025-07-01', timeline_end: '2025-09-30' });
+    assert.deepEqual(legacyTimeline('2026'), { timeline_kind: 'year', timeline_start: '2026-01-01', timeline_end: '2026-12-31' });
+    assert.deepEqual(legacyTimeline('someday'), SOMEDAY);
+    assert.equal(legacyTimeline('next summer'), undefined);
+  });
+});
+
+describe('timelineLabel', () => {
+  it('describes each kind briefly', () => {
+    const label = (spec: TimelineSpec) => timelineLabel(resolveTimeline(spec));
+    assert.equal(label({ kind: 'dates', start: '2027-03-10', end: '2027-03-20' }), '10 – 20 Mar 2027');
+    assert.equal(label({ kind: 'dates', start: '2027-12-28', end: '2028-01-03' }), '28 Dec 2027 – 3 Jan 2028');
+    assert.equal(label({ kind: 'month', start: '2027-05', end: '2027-06' }), 'May – Jun 2027');
+    assert.equal(label({ kind: 'season', season: 'winter', year: 2026 }), 'Winter 2026–27');
+    assert.equal(label({ kind: 'year', year: 2029 }), '2029');
+    assert.equal(label({ kind: 'someday' }), 'Someday');
+  });
+});
+
+describe('isPastDue', () => {
+  it('is true only once the whole window has passed', () => {
+    const march = resolveTimeline({ kind: 'month', start: '2027-03' });
+    assert.equal(isPastDue(march, '2027-03-31'), false);
+    assert.equal(isPastDue(march, '2027-04-01'), true);
+    assert.equal(isPastDue(SOMEDAY, '2100-01-01'), false);
+  });
+
+  it('is never true once the destination is visited', () => {
+    const march = resolveTimeline({ kind: 'month', start: '2027-03' });
+    assert.equal(isPastDue({ ...march, status: 'booked' }, '2027-04-01'), true);
+    assert.equal(isPastDue({ ...march, status: 'visited' }, '2027-04-01'), false);
+  });
+});
+
+describe('destination timelines', () => {
+  const base = { destination: 'Kyoto', country: 'Japan', latitude: 35, longitude: 135.8 };
+
+  it('accept a spec, a legacy option or the stored fields', () => {
+    const fromSpec = validateDestination({ ...base, timeline: { kind: 'season', season: 'autumn', year: 2027 } });
+    assert.equal(fromSpec.timeline_start, '2027-09-01');
+    assert.equal(validateDestination({ ...base, timeline: '2027-q4' }).timeline_end, '2027-12-31');
+    const stored = validateDestination({ ...base, timeline_kind: 'year', timeline_start: '2028-01-01', timeline_end: '2028-12-31' });
+    assert.equal(stored.timeline_kind, 'year');
+    assert.equal(validateDestination(base).timeline_kind, 'someday');
+  });
+
+  it('report a bad timeline as a field error', () => {
+    assert.throws(
+      () => validateDestination({ ...base, timeline: { kind: 'dates', start: '2027-02-30' } }),
+      (error: unknown) => error instanceof ValidationError && error.fields.timeline === '2027-02-30 is not a real date'
+    );
+    assert.throws(
+      () => validateDestination({ ...base, timeline: 'soon' }),
+      (error: unknown) => error instanceof ValidationError && 'timeline' in error.fields
+    );
+  });
+
+  it('need a start and an end for any kind but someday', () => {
+    for (const kind of ['dates', 'month', 'season', 'year']) {
+      assert.throws(() => validateDestination({ ...base, timeline_kind: kind }), {
+        name: 'ValidationError',
+        fields: { timeline_start: `Required for kind '${kind}'` },
+      });
+    }
+    assert.throws(() => validateDestination({ ...base, timeline_kind: 'year', timeline_start: '2028-01-01' }), {
+      fields: { timeline_end: "Required for kind 'year'" },
+    });
+    assert.throws(() => timelineSpec({ timeline_kind: 'month', timeline_start: '2028-01-01', timeline_end: null }), TimelineError);
+    assert.equal(validateDestination({ ...base, timeline_kind: 'someday', timeline_start: null }).timeline_kind, 'someday');
+  });
+});
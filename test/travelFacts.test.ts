@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatDistance, formatFlightTime, formatTimeDifference } from '../lib/format';
+import { estimateFlightMinutes, timeZoneAt, travelFacts, utcOffsetMinutes } from '../lib/travelFacts';
+
+const TOKYO = { latitude: 35.6762, longitude: 139.6503 };
+const SAN_FRANCISCO = { latitude: 37.7749, longitude: -122.4194 };
+
+describe('travelFacts', () => {
+  it('estimates flight time from cruise speed plus a fixed overhead', () => {
+    assert.equal(estimateFlightMinutes(0), 0);
+    assert.equal(estimateFlightMinutes(850), 90);
+    assert.equal(estimateFlightMinutes(8500), 630);
+  });
+
+  it('finds the time zone and its offset on a given day, DST included', () => {
+    assert.equal(timeZoneAt(TOKYO), 'Asia/Tokyo');
+    assert.equal(timeZoneAt(SAN_FRANCISCO), 'America/Los_Angeles');
+    assert.equal(utcOffsetMinutes('Asia/Kolkata'), 330);
+    assert.equal(utcOffsetMinutes('America/Los_Angeles', new Date('2026-01-15T12:00:00Z')), -480);
+    assert.equal(utcOffsetMinutes('America/Los_Angeles', new Date('2026-07-15T12:00:00Z')), -420);
+    assert.equal(utcOffsetMinutes('UTC'), 0);
+  });
+
+  it('describes a destination as seen from the origin', () => {
+    const facts = travelFacts(TOKYO, SAN_FRANCISCO, new Date('2026-01-15T12:00:00Z'));
+    assert.equal(facts.time_zone, 'Asia/Tokyo');
+    assert.equal(facts.utc_offset_minutes, 540);
+    assert.equal(facts.time_difference_minutes, 17 * 60);
+    assert.ok(Math.abs(facts.distance_km - 8270) < 20);
+    // distance_km is rounded, the flight time is not
+    assert.ok(Math.abs(facts.flight_minutes - estimateFlightMinutes(facts.distance_km)) <= 1);
+  });
+});
+
+describe('format', () => {
+  it('formats distances, flight times and time differences', () => {
+    assert.equal(formatDistance(8270), '8,270 km');
+    assert.equal(formatFlightTime(614), '10h 14m');
+    assert.equal(formatFlightTime(45), '45m');
+    assert.equal(formatFlightTime(120), '2h');
+    assert.equal(formatTimeDifference(960), '+16h');
+    assert.equal(formatTimeDifference(-210), '-3h 30m');
+    assert.equal(formatTimeDifference(0), 'same time');
+  });
+});
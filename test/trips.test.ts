@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { createConverter } from '../lib/currency';
+import * as db from '../lib/db';
+import { ValidationError } from '../lib/errors';
+import { haversineKm } from '../lib/geo';
+import { createMemoryStore, setStore } from '../lib/store';
+import { tripTotals } from '../lib/trips';
+import type { Trip, TripStop } from '../lib/types';
+import { MAX_TRIP_STOPS, validateTrip } from '../lib/validation';
+import { newDestination } from './helpers';
+
+const HOME = { name: 'Home', latitude: 51.5, longitude: -0.1 };
+
+// The field errors of a body validateTrip rejects
+function fieldErrors(body: unknown): Record<string, string> {
+  try {
+    validateTrip(body);
+  } catch (error) {
+    assert.ok(error instanceof ValidationError);
+    return error.fields;
+  }
+  assert.fail('Expected a ValidationError');
+}
+
+function stop(destination_id: number, arrive_on: string | null = null, depart_on: string | null = null): TripStop {
+  return { destination_id, arrive_on, depart_on };
+}
+
+describe('validateTrip', () => {
+  it('trims text and keeps stops in travel order', () => {
+    const trip = validateTrip({
+      name: ' Japan loop ',
+      stops: [{ destination_id: 2, arrive_on: '2027-03-01', depart_on: '2027-03-05' }, { destination_id: 1, depart_on: '2027-03-09' }],
+    });
+    assert.deepEqual(trip, {
+      name: 'Japan loop',
+      notes: '',
+      stops: [stop(2, '2027-03-01', '2027-03-05'), stop(1, null, '2027-03-09')],
+    });
+  });
+
+  it('reports every bad field with the path of its stop', () => {
+    assert.deepEqual(
+      fieldErrors({
+        name: ' ',
+        stops: [
+          { destination_id: 1, arrive_on: '2027-03-05', depart_on: '2027-03-01' },
+          { destination_id: 0, arrive_on: '2027-02-30' },
+          'Kyoto',
+        ],
+      }),
+      {
+        name: 'Is required',
+        'stops.0.depart_on': 'Must not be before arrive_on',
+        'stops.1.destination_id': 'Must be a positive integer',
+        'stops.1.arrive_on': 'Must be a real date',
+        'stops.2': 'Must be an object with destination_id, arrive_on and depart_on',
+      }
+    );
+  });
+
+  it('rejects stops that start before the previous one ends', () => {
+    assert.deepEqual(fieldErrors({ name: 'Loop', stops: [stop(1, '2027-03-01', '2027-03-10'), stop(2, '2027-03-05')] }), {
+      'stops.1': 'Must not start before the previous stop ends',
+    });
+  });
+
+  it('limits the stop list', () => {
+    assert.equal(fieldErrors({ name: 'Loop', stops: {} }).stops, 'Must be an array');
+    const many = Array.from({ length: MAX_TRIP_STOPS + 1 }, () => stop(1));
+    assert.equal(fieldErrors({ name: 'Loop', stops: many }).stops, `Must have at most ${MAX_TRIP_STOPS} stops`);
+    assert.throws(() => validateTrip([]), ValidationError);
+  });
+});
+
+describe('tripTotals', () => {
+  const convert = createConverter([{ currency: 'EUR', per_usd: 0.9 }]);
+
+  async function places() {
+    const store = createMemoryStore();
+    const tokyo = await store.create(newDestination('Tokyo', { latitude: 35.68, longitude: 139.69, cost_flights: 900 }));
+    const kyoto = await store.create(newDestination('Kyoto', { latitude: 35.01, longitude: 135.77, cost_food: 100, currency: 'GBP' }));
+    return { tokyo, kyoto, byId: new Map([[tokyo.id, tokyo], [kyoto.id, kyoto]]) };
+  }
+
+  function trip(stops: TripStop[]): Trip {
+    return { id: 1, name: 'Loop', notes: '', stops, created_at: '', updated_at: '' };
+  }
+
+  it('flies from the origin through every stop and back', async () => {
+    const { tokyo, kyoto, byId } = await places();
+    const totals = tripTotals(
+      trip([stop(tokyo.id, '2027-03-01', '2027-03-05'), stop(999), stop(kyoto.id, '2027-03-05', '2027-03-08'), stop(tokyo.id, null, '2027-03-10')]),
+      byId,
+      HOME,
+      convert,
+      'USD'
+    );
+    assert.deepEqual(totals.legs.map(leg => [leg.from.name, leg.to.name]), [
+      ['Home', 'Tokyo, Japan'],
+      ['Tokyo, Japan', 'Kyoto, Japan'],
+      ['Kyoto, Japan', 'Tokyo, Japan'],
+      ['Tokyo, Japan', 'Home'],
+    ]);
+    assert.equal(totals.legs[0].distance_km, Math.round(haversineKm(HOME, tokyo)));
+    assert.equal(totals.distance_km, totals.legs.reduce((sum, leg) => sum + leg.distance_km, 0));
+    assert.equal(totals.flight_minutes, totals.legs.reduce((sum, leg) => sum + leg.flight_minutes, 0));
+    assert.equal(totals.days, 10);
+  });
+
+  it('prices each destination once and counts the ones it could not price', async () => {
+    const { tokyo, kyoto, byId } = await places();
+    const totals = tripTotals(trip([stop(tokyo.id), stop(kyoto.id), stop(tokyo.id)]), byId, HOME, convert, 'EUR');
+    assert.deepEqual([totals.budget_total, totals.currency, totals.unpriced_stops, totals.days], [810, 'EUR', 1, null]);
+  });
+
+  it('is empty for a trip with no stops', () => {
+    assert.deepEqual(tripTotals(trip([]), new Map(), HOME, convert, 'USD'), {
+      legs: [],
+      distance_km: 0,
+      flight_minutes: 0,
+      budget_total: null,
+      currency: 'USD',
+      unpriced_stops: 0,
+      days: null,
+    });
+  });
+});
+
+describe('trips in the store', () => {
+  afterEach(() => setStore(null));
+
+  it('rejects stops at destinations that do not exist', async () => {
+    setStore(createMemoryStore());
+    const tokyo = await db.create(newDestination('Tokyo'));
+    await assert.rejects(
+      db.createTrip({ name: 'Loop', notes: '', stops: [stop(tokyo.id), stop(999)] }),
+      (error: unknown) => error instanceof ValidationError && error.fields['stops.1.destination_id'] === 'No destination with id 999'
+    );
+    await assert.rejects(db.getTrip(1), { name: 'NotFoundError', message: 'Trip not found' });
+  });
+});
@@ -0,0 +1,301 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ValidationError } from '../lib/errors';
+import { DEFAULT_HOME } from '../lib/geo';
+import { MAX_COST, MAX_EXTRA_ORIGINS, MAX_LENGTHS, MAX_PAGE_SIZE, MAX_TRIP_DAYS, parseGeocodeQuery, parseId, parseListQuery, parseRouteQuery, validateDestination, validateDestinationUpdate, validateRates, validateSettings } from '../lib/validation';
+
+const VALID = { destination: 'Kyoto', country: 'Japan', latitude: 35.0, longitude: 135.8 };
+
+// The field errors of a body validateDestination rejects
+function fieldErrors(body: unknown): Record<string, string> {
+  try {
+    validateDestination(body);
+  } catch (error) {
+    assert.ok(error instanceof ValidationError);
+    return error.fields;
+  }
+  assert.fail('Expected a ValidationError');
+}
+
+describe('validateDestination', () => {
+  it('fills defaults and trims text', () => {
+    assert.deepEqual(validateDestination({ ...VALID, destination: '  Kyoto ', reason: ' Temples ' }), {
+      ...VALID,
+      reason: 'Temples',
+      budget: 'moderate',
+      timeline_kind: 'someday',
+      timeline_start: null,
+      timeline_end: null,
+      currency: 'USD',
+      status: 'wish',
+      notes: '',
+    });
+  });
+
+  it('keeps optional fields it is given', () => {
+    const item = validateDestination({ ...VALID, rank: 2, budget: 'luxury', timeline: '2026', image_url: 'https://example.com/a.jpg' });
+    assert.equal(item.rank, 2);
+    assert.equal(item.budget, 'luxury');
+    assert.deepEqual([item.timeline_start, item.timeline_end], ['2026-01-01', '2026-12-31']);
+    assert.equal(item.image_url, 'https://example.com/a.jpg');
+  });
+
+  it('clears the image with an empty string and leaves it out when missing', () => {
+    assert.equal(validateDestination({ ...VALID, image_url: '' }).image_url, '');
+    assert.equal('image_url' in validateDestination(VALID), false);
+  });
+
+  it('keeps the picked place, and clears it when sent blank', () => {
+    const picked = validateDestination({ ...VALID, place_name: 'Kyoto, Japan', osm_type: 'relation', osm_id: 357794 });
+    assert.deepEqual([picked.place_name, picked.osm_type, picked.osm_id], ['Kyoto, Japan', 'relation', 357794]);
+    const dropped = validateDestination({ ...VALID, place_name: null, osm_type: '', osm_id: null });
+    assert.deepEqual([dropped.place_name, dropped.osm_type, dropped.osm_id], [null, null, null]);
+    assert.deepEqual(fieldErrors({ ...VALID, osm_type: 'area', osm_id: -1 }), {
+      osm_type: 'Must be one of: node, way, relation',
+      osm_id: 'Must be a positive integer',
+    });
+  });
+
+  it('reads cost estimates, trip length and currency', () => {
+    const item = validateDestination({ ...VALID, cost_flights: 850.5, cost_food: null, trip_days: 7, currency: ' eur ' });
+    assert.equal(item.cost_flights, 850.5);
+    assert.equal(item.cost_food, null);
+    assert.equal(item.trip_days, 7);
+    assert.equal(item.currency, 'EUR');
+    assert.deepEqual(fieldErrors({ ...VALID, cost_lodging: -1, trip_days: 2.5, currency: 'EURO' }), {
+      cost_lodging: `Must be between 0 and ${MAX_COST}`,
+      trip_days: 'Must be a whole number',
+      currency: 'Must be a three-letter ISO 4217 currency code',
+    });
+    assert.deepEqual(fieldErrors({ ...VALID, trip_days: 0, currency: 'XYZ' }), {
+      trip_days: `Must be between 1 and ${MAX_TRIP_DAYS}`,
+      currency: 'Unknown currency XYZ',
+    });
+  });
+
+  it('reads the visit log and checks its dates', () => {
+    const item = validateDestination({ ...VALID, status: 'visited', visited_start: '2026-04-01', visited_end: '2026-04-09', rating: 4, notes: ' Rainy ' });
+    assert.deepEqual([item.status, item.visited_start, item.visited_end, item.rating, item.notes], ['visited', '2026-04-01', '2026-04-09', 4, 'Rainy']);
+    assert.deepEqual(fieldErrors({ ...VALID, status: 'gone', visited_start: '2026-02-30', rating: 6 }), {
+      status: 'Must be one of: wish, planned, booked, visited',
+      visited_start: 'Must be a real date',
+      rating: 'Must be between 1 and 5',
+    });
+    assert.deepEqual(fieldErrors({ ...VALID, visited_start: '2026-04-09', visited_end: '2026-04-01' }), {
+      visited_end: 'Must not be before visited_start',
+    });
+  });
+
+  it('reports every bad field at once', () => {
+    assert.deepEqual(
+      fieldErrors({
+        destination: ' ',
+        latitude: 91,
+        longitude: '139',
+        rank: 0,
+        budget: 'cheap',
+        image_url: 'ftp://example.com/a.jpg',
+        reason: 'x'.repeat(MAX_LENGTHS.reason + 1),
+      }),
+      {
+        rank: 'Must be a positive integer',
+        destination: 'Is required',
+        country: 'Is required',
+        latitude: 'Must be between -90 and 90',
+        longitude: 'Must be a number',
+        reason: `Must be at most ${MAX_LENGTHS.reason} characters`,
+        budget: 'Must be one of: budget, moderate, luxury, ultra-luxury',
+        image_url: 'Must be an http or https URL',
+      }
+    );
+    assert.deepEqual(fieldErrors({ ...VALID, image_url: 'not a url' }), { image_url: 'Must be a valid URL' });
+  });
+
+  it('rejects bodies that are not objects', () => {
+    for (const body of [null, [], 'Kyoto', 3]) {
+      assert.throws(() => validateDestination(body), { name: 'ValidationError', message: 'Request body must be a JSON object' });
+    }
+  });
+});
+
+describe('validateDestinationUpdate', () => {
+  it('returns only the fields it was sent, without defaults', () => {
+    assert.deepEqual(validateDestinationUpdate({ reason: ' Ramen ' }), { reason: 'Ramen' });
+    assert.deepEqual(validateDestinationUpdate({}), {});
+    const moved = validateDestinationUpdate({ timeline: '2026', image_url: '' });
+    assert.deepEqual(moved, { timeline_kind: 'year', timeline_start: '2026-01-01', timeline_end: '2026-12-31', image_url: '' });
+  });
+
+  it('still checks the fields it was sent, required ones included', () => {
+    assert.throws(() => validateDestinationUpdate({ destination: ' ', budget: 'cheap' }), {
+      name: 'ValidationError',
+      fields: { destination: 'Is required', budget: 'Must be one of: budget, moderate, luxury, ultra-luxury' },
+    });
+    assert.throws(() => validateDestinationUpdate('Kyoto'), { message: 'Request body must be a JSON object' });
+  });
+});
+
+describe('parseId', () => {
+  it('accepts plain positive integers only', () => {
+    assert.equal(parseId('42'), 42);
+    for (const id of ['0', '-1', '1.5', '1e3', 'abc', '', '99999999999999999999']) {
+      assert.throws(() => parseId(id), ValidationError, id);
+    }
+  });
+});
+
+describe('parseListQuery', () => {
+  const parse = (search: string) => parseListQuery(new URLSearchParams(search), { origin: DEFAULT_HOME, currency: 'USD' });
+
+  it('defaults to every destination in rank order', () => {
+    assert.deepEqual(parse(''), {
+      country: undefined,
+      country_code: undefined,
+      timeline: undefined,
+      budget: undefined,
+      status: undefined,
+      q: undefined,
+      sort: 'rank',
+      order: 'asc',
+      origin: { latitude: DEFAULT_HOME.latitude, longitude: DEFAULT_HOME.longitude },
+      limit: undefined,
+      offset: 0,
+      currency: 'USD',
+    });
+    assert.deepEqual(parse('country=%20&q='), parse(''));
+  });
+
+  it('reads filters, sort and paging', () => {
+    const query = parse('country=+Japan+&budget=luxury&q=temples&sort=distance&order=desc&origin_lat=-33.9&origin_lon=151.2&limit=10&offset=20&extra=1');
+    assert.equal(query.country, 'Japan');
+    assert.equal(query.budget, 'luxury');
+    assert.equal(query.q, 'temples');
+    assert.equal(query.sort, 'distance');
+    assert.equal(query.order, 'desc');
+    assert.deepEqual(query.origin, { latitude: -33.9, longitude: 151.2 });
+    assert.equal(query.limit, 10);
+    assert.equal(query.offset, 20);
+  });
+
+  it('takes a year or a named timeline filter', () => {
+    assert.equal(parse('timeline=2027').timeline, '2027');
+    assert.equal(parse('timeline=past_due').timeline, 'past_due');
+    assert.throws(() => parse('timeline=2025-q1'), ValidationError);
+  });
+
+  it('reports every bad parameter at once', () => {
+    try {
+      parse(`sort=name&order=up&budget=cheap&origin_lat=91&origin_lon=east&limit=${MAX_PAGE_SIZE + 1}&offset=-1`);
+      assert.fail('Expected a ValidationError');
+    } catch (error) {
+      assert.ok(error instanceof ValidationError);
+      assert.equal(error.message, 'Invalid query parameters');
+      assert.deepEqual(Object.keys(error.fields).sort(), ['budget', 'limit', 'offset', 'order', 'origin_lat', 'origin_lon', 'sort']);
+      assert.equal(error.fields.limit, `Must be between 1 and ${MAX_PAGE_SIZE}`);
+      assert.equal(error.fields.offset, 'Must be a whole number');
+    }
+  });
+});
+
+describe('parseGeocodeQuery', () => {
+  const parse = (search: string) => parseGeocodeQuery(new URLSearchParams(search), 5);
+
+  it('reads the query and a limit up to the maximum', () => {
+    assert.deepEqual(parse('q=+Tokyo,+Japan+'), { q: 'Tokyo, Japan', limit: 5 });
+    assert.deepEqual(parse('q=Tokyo&limit=2'), { q: 'Tokyo', limit: 2 });
+  });
+
+  it('rejects a missing query or a limit out of range', () => {
+    assert.throws(() => parse('q=%20&limit=6'), {
+      name: 'ValidationError',
+      fields: { q: 'Is required', limit: 'Must be between 1 and 5' },
+    });
+    assert.throws(() => parse(`q=${'x'.repeat(400)}`), { fields: { q: 'Is too long' } });
+  });
+});
+
+describe('parseRouteQuery', () => {
+  const parse = (search: string) => parseRouteQuery(new URLSearchParams(search), { origin: DEFAULT_HOME });
+
+  it('reads ids once each, a closed tour by default and the home origin', () => {
+    assert.deepEqual(parse('ids=3,%201,3'), { ids: [3, 1], closed: true, origin: DEFAULT_HOME });
+    const open = parse('ids=2&closed=false&origin_lat=-33.9&origin_lon=151.2');
+    assert.equal(open.closed, false);
+    assert.deepEqual(open.origin, { ...DEFAULT_HOME, name: 'Origin', latitude: -33.9, longitude: 151.2 });
+  });
+
+  it('reports bad ids, closed and origin', () => {
+    try {
+      parse('ids=1,x&closed=yes&origin_lat=10');
+      assert.fail('Expected a ValidationError');
+    } catch (error) {
+      assert.ok(error instanceof ValidationError);
+      assert.deepEqual(Object.keys(error.fields).sort(), ['closed', 'ids', 'origin']);
+      assert.equal(error.fields.ids, 'Must be comma-separated positive integers');
+    }
+    assert.throws(() => parse(''), (error: unknown) => error instanceof ValidationError && error.fields.ids === 'Is required');
+  });
+});
+
+describe('validateSettings', () => {
+  const lisbon = { name: 'Lisbon, Portugal', latitude: 38.72, longitude: -9.14 };
+
+  it('returns only the keys it was sent', () => {
+    assert.deepEqual(validateSettings({ home: { ...lisbon, name: ' Lisbon, Portugal ' } }), { home: lisbon });
+    assert.deepEqual(validateSettings({ extra_origins: [lisbon] }), { extra_origins: [lisbon] });
+    assert.deepEqual(validateSettings({ home_currency: 'eur' }), { home_currency: 'EUR' });
+    assert.deepEqual(validateSettings({}), {});
+  });
+
+  it('reports bad origins by path', () => {
+    assert.throws(() => validateSettings({ home: 'Lisbon', extra_origins: [lisbon, { name: '', latitude: 100 }] }), {
+      name: 'ValidationError',
+      fields: {
+        home: 'Must be an object with name, latitude and longitude',
+        'extra_origins.1.name': 'Is required',
+        'extra_origins.1.latitude': 'Must be between -90 and 90',
+        'extra_origins.1.longitude': 'Is required',
+      },
+    });
+    assert.throws(() => validateSettings({ extra_origins: Array(MAX_EXTRA_ORIGINS + 1).fill(lisbon) }), {
+      fields: { extra_origins: `Must have at most ${MAX_EXTRA_ORIGINS} entries` },
+    });
+    assert.throws(() => validateSettings([]), { message: 'Request body must be a JSON object' });
+    assert.throws(() => validateSettings({ home_currency: 'dollars' }), {
+      fields: { home_currency: 'Must be a three-letter ISO 4217 currency code' },
+    });
+  });
+
+  it('leaves the calendar token to its own endpoint', () => {
+    assert.throws(() => validateSettings({ calendar_token: 'abcdefgh-12345678' }), {
+      fields: { calendar_token: 'Set with POST /api/settings/calendar-token, or clear with DELETE' },
+    });
+  });
+});
+
+describe('validateRates', () => {
+  it('accepts an array, a wrapped array or a currency map', () => {
+    const expected = [{ currency: 'EUR', per_usd: 0.92 }, { currency: 'JPY', per_usd: 150 }];
+    assert.deepEqual(validateRates([{ currency: 'eur', per_usd: 0.92 }, { currency: 'JPY', per_usd: 150 }]), expected);
+    assert.deepEqual(validateRates({ rates: expected }), expected);
+    assert.deepEqual(validateRates({ EUR: 0.92, JPY: 150 }), expected);
+  });
+
+  it('drops the implied USD rate', () => {
+    assert.deepEqual(validateRates({ USD: 1, EUR: 0.92 }), [{ currency: 'EUR', per_usd: 0.92 }]);
+  });
+
+  it('reports every bad entry by path', () => {
+    assert.throws(() => validateRates([{ currency: 'EUR', per_usd: 0 }, { currency: 'EUR', per_usd: 1 }, 'GBP', { currency: 'USD', per_usd: 2 }]), {
+      name: 'ValidationError',
+      message: 'Invalid exchange rates',
+      fields: {
+        'rates.0.per_usd': 'Must be a positive number',
+        'rates.1.currency': 'EUR appears more than once',
+        'rates.2': 'Must be an object with currency and per_usd',
+        'rates.3.per_usd': 'USD is the base currency; its rate is always 1',
+      },
+    });
+    assert.throws(() => validateRates('EUR'), { message: 'Rates must be a JSON array, a { currency: rate } object or CSV' });
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { create, createTrip, exportWishlist, getAll, getTrip, importWishlist } from '../lib/db';
+import { ValidationError } from '../lib/errors';
+import { createMemoryStore, createSqliteStore, setStore, type WishlistStore } from '../lib/store';
+import { validateImport } from '../lib/validation';
+import { newDestination } from './helpers';
+
+const BACKENDS: [string, () => WishlistStore][] = [
+  ['memory', () => createMemoryStore()],
+  ['sqlite', () => createSqliteStore(':memory:')],
+];
+
+async function order(): Promise<[string, number | null][]> {
+  return (await getAll()).map(item => [item.destination, item.rank]);
+}
+
+for (const [name, createStore] of BACKENDS) {
+  describe(`JSON import (${name} store)`, () => {
+    beforeEach(async () => {
+      setStore(createStore());
+      await create(newDestination('Tokyo', { reason: 'Food' }));
+      await create(newDestination('Kyoto', { image_url: '' }));
+    });
+
+    it('finds nothing to change when re-importing its own export', async () => {
+      const document = JSON.parse(JSON.stringify(await exportWishlist()));
+      const summary = await importWishlist(validateImport(document), 'merge', false);
+      assert.equal(summary.unchanged, 2);
+      assert.equal(summary.updated + summary.created + summary.deleted, 0);
+    });
+
+    it('merges by destination and country, updating matches and appending the rest', async () => {
+      const items = validateImport([
+        { destination: 'Osaka', country: 'Japan', latitude: 34.7, longitude: 135.5 },
+        { destination: ' tokyo ', country: 'JAPAN', latitude: 35, longitude: 139, reason: 'Ramen' },
+      ]);
+      const summary = await importWishlist(items, 'merge', false);
+      assert.deepEqual([summary.created, summary.updated, summary.unchanged], [1, 1, 0]);
+      assert.deepEqual(await order(), [['tokyo', 1], ['Kyoto', 2], ['Osaka', 3]]);
+      assert.equal((await getAll())[0].reason, 'Ramen');
+    });
+
+    it('appends everything in append mode, duplicates included', async () => {
+      const items = validateImport([{ destination: 'Tokyo', country: 'Japan', latitude: 35, longitude: 139 }]);
+      await importWishlist(items, 'append', false);
+      assert.deepEqual(await order(), [['Tokyo', 1], ['Kyoto', 2], ['Tokyo', 3]]);
+    });
+
+    it('replaces the wishlist and empties trips in replace mode', async () => {
+      const [tokyo] = await getAll();
+      const trip = await createTrip({ name: 'Japan', notes: '', stops: [{ destination_id: tokyo.id, arrive_on: null, depart_on: null }] });
+      const items = validateImport([
+        { destination: 'Lima', country: 'Peru', latitude: -12, longitude: -77, rank: 2 },
+        { destination: 'Cusco', country: 'Peru', latitude: -13.5, longitude: -72, rank: 1 },
+      ]);
+      const summary = await importWishlist(items, 'replace', false);
+      assert.deepEqual([summary.deleted, summary.created], [2, 2]);
+      assert.deepEqual(await order(), [['Cusco', 1], ['Lima', 2]]);
+      assert.deepEqual((await getTrip(trip.id)).stops, []);
+    });
+
+    it('writes nothing on a dry run', async () => {
+      const items = validateImport([{ destination: 'Lima', country: 'Peru', latitude: -12, longitude: -77 }]);
+      const summary = await importWishlist(items, 'replace', true);
+      assert.equal(summary.dry_run, true);
+      assert.deepEqual(summary.changes.map(change => change.action), ['delete', 'delete', 'create']);
+      assert.deepEqual(await order(), [['Tokyo', 1], ['Kyoto', 2]]);
+    });
+  });
+}
+
+describe('validateImport', () => {
+  it('rejects exports from a newer version', () => {
+    assert.throws(
+      () => validateImport({ format: 'travel-wishlist', version: 99, destinations: [] }),
+      (error: unknown) => error instanceof ValidationError && 'version' in error.fields
+    );
+  });
+
+  it('names the entry and field of every problem', () => {
+    assert.throws(
+      () => validateImport([{ destination: 'Tokyo', country: 'Japan', latitude: 35, longitude: 139 }, { destination: 'Nowhere', latitude: 200 }]),
+      (error: unknown) =>
+        error instanceof ValidationError &&
+        error.fields['destinations.1.latitude'] === 'Must be between -90 and 90' &&
+        error.fields['destinations.1.country'] === 'Is required' &&
+        Object.keys(error.fields).every(key => key.startsWith('destinations.1.'))
+    );
+  });
+});